@@ -9,10 +9,16 @@ import Landing from "@/pages/landing";
 import Dashboard from "@/pages/dashboard";
 import TeamSetup from "@/pages/team-setup";
 import RosterManagement from "@/pages/roster-management";
+import AthleteProfile from "@/pages/athlete-profile";
 import EmailManagement from "@/pages/email-management";
 import CompetitionData from "@/pages/competition-data";
+import CompetitionDetail from "@/pages/competition-detail";
 import NewsletterCreation from "@/pages/newsletter-creation";
 import MessageHistory from "@/pages/message-history";
+import AcceptInvitation from "@/pages/accept-invitation";
+import Unsubscribe from "@/pages/unsubscribe";
+import Admin from "@/pages/admin";
+import ImpersonationBanner from "@/components/impersonation-banner";
 import { LoginPage } from "@/pages/login";
 import { RegisterPage } from "@/pages/register";
 
@@ -30,6 +36,25 @@ function ProtectedRoute({ component: Component, ...rest }) {
   return <Route {...rest} component={Component} />;
 }
 
+// System admins keep access to the console while viewing the app as a coach
+function AdminRoute({ component: Component, ...rest }: { component: () => JSX.Element; path: string }) {
+  const { user, isAuthenticated, isLoading } = useAuth();
+
+  if (isLoading) {
+    return <div>Loading...</div>;
+  }
+
+  if (!isAuthenticated) {
+    return <Redirect to="/login" />;
+  }
+
+  if (user.role !== "system_admin" && !user.impersonator) {
+    return <NotFound />;
+  }
+
+  return <Route {...rest} component={Component} />;
+}
+
 function Router() {
   return (
     <Switch>
@@ -39,10 +64,15 @@ function Router() {
       <ProtectedRoute path="/dashboard" component={Dashboard} />
       <ProtectedRoute path="/team-setup" component={TeamSetup} />
       <ProtectedRoute path="/roster" component={RosterManagement} />
+      <ProtectedRoute path="/athletes/:id" component={AthleteProfile} />
       <ProtectedRoute path="/emails" component={EmailManagement} />
       <ProtectedRoute path="/competitions" component={CompetitionData} />
+      <ProtectedRoute path="/competitions/:id" component={CompetitionDetail} />
       <ProtectedRoute path="/newsletters" component={NewsletterCreation} />
       <ProtectedRoute path="/history" component={MessageHistory} />
+      <ProtectedRoute path="/invite/:token" component={AcceptInvitation} />
+      <Route path="/unsubscribe/:token" component={Unsubscribe} />
+      <AdminRoute path="/admin" component={Admin} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -53,6 +83,7 @@ function App() {
     <QueryClientProvider client={queryClient}>
       <TooltipProvider>
         <Toaster />
+        <ImpersonationBanner />
         <Router />
       </TooltipProvider>
     </QueryClientProvider>
@@ -0,0 +1,295 @@
+import { useState, type Dispatch, type SetStateAction } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { runWithConcurrency } from "@/lib/concurrency";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import type { AiGeneration, Athlete, AthletePerformance, Competition } from "@shared/schema";
+import { AlertCircle, AlertTriangle, History, RefreshCw, Sparkles } from "lucide-react";
+
+// Enough to finish a full roster quickly without tripping provider rate limits
+const GENERATION_CONCURRENCY = 3;
+
+export interface HighlightDraft {
+  message: string;
+  included: boolean;
+  status: "idle" | "generating" | "ready" | "error";
+  error?: string;
+  // Team rules the generated draft still breaks; the coach decides what to do
+  violations?: string[];
+  // The stored AI draft this text started from; edits keep the link
+  generationId?: string;
+}
+
+export type HighlightDrafts = Record<string, HighlightDraft>;
+
+export function cannedHighlight(athlete: Pick<Athlete, "name" | "weightClass">): string {
+  return `Great work this season, ${athlete.name}! Keep up the excellent effort in the ${athlete.weightClass} weight class.`;
+}
+
+// Earlier drafts for one athlete; the sent version is offered when there is one
+function PastDrafts({ athleteId, onReuse }: { athleteId: string; onReuse: (generation: AiGeneration) => void }) {
+  const [open, setOpen] = useState(false);
+  const { data: generations, isLoading } = useQuery<AiGeneration[]>({
+    queryKey: ["/api/athletes", athleteId, "generations"],
+    enabled: open,
+  });
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" data-testid={`button-past-drafts-${athleteId}`}>
+          <History className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96 max-h-80 overflow-y-auto space-y-2">
+        <p className="text-sm font-medium">Past Drafts</p>
+        {isLoading ? (
+          <p className="text-xs text-muted-foreground">Loading...</p>
+        ) : !generations?.length ? (
+          <p className="text-xs text-muted-foreground">No earlier drafts for this athlete.</p>
+        ) : (
+          generations.map((generation) => (
+            <button
+              key={generation.id}
+              type="button"
+              className="w-full text-left border rounded-md p-2 hover:bg-muted"
+              onClick={() => {
+                onReuse(generation);
+                setOpen(false);
+              }}
+              data-testid={`past-draft-${generation.id}`}
+            >
+              <div className="flex items-center justify-between text-xs text-muted-foreground mb-1">
+                <span>{generation.createdAt ? new Date(generation.createdAt).toLocaleDateString() : ""}</span>
+                {generation.sentAt && <Badge variant="outline">Sent</Badge>}
+              </div>
+              <p className="text-xs line-clamp-3">{generation.finalText || generation.output}</p>
+            </button>
+          ))
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+interface AthleteHighlightsEditorProps {
+  athletes: Athlete[];
+  competitions: Competition[];
+  competitionId: string;
+  onCompetitionChange: (competitionId: string) => void;
+  drafts: HighlightDrafts;
+  onDraftsChange: Dispatch<SetStateAction<HighlightDrafts>>;
+}
+
+export default function AthleteHighlightsEditor({ athletes, competitions, competitionId, onCompetitionChange, drafts, onDraftsChange }: AthleteHighlightsEditorProps) {
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [loadingResults, setLoadingResults] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const updateDraft = (athleteId: string, changes: Partial<HighlightDraft>) => {
+    onDraftsChange(current => ({ ...current, [athleteId]: { ...current[athleteId], ...changes } }));
+  };
+
+  const generateFor = async (athleteId: string) => {
+    updateDraft(athleteId, { status: "generating", error: undefined, violations: undefined });
+    try {
+      const response = await apiRequest("POST", `/api/athletes/${athleteId}/generate-message`, {
+        competitionId: competitionId || undefined,
+      });
+      const generated: { message: string; violations: string[]; generationId: string } = await response.json();
+      updateDraft(athleteId, {
+        message: generated.message,
+        included: true,
+        status: "ready",
+        violations: generated.violations,
+        generationId: generated.generationId,
+      });
+    } catch (error) {
+      updateDraft(athleteId, {
+        status: "error",
+        error: error instanceof Error ? error.message : "Generation failed",
+      });
+    }
+  };
+
+  const generateAll = async () => {
+    if (!competitionId) return;
+
+    // Results may have been saved since this competition was last loaded
+    let performances: AthletePerformance[];
+    setLoadingResults(true);
+    try {
+      performances = await queryClient.fetchQuery<AthletePerformance[]>({
+        queryKey: ["/api/competitions", competitionId, "performances"],
+        staleTime: 0,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load competition results",
+        variant: "destructive",
+      });
+      return;
+    } finally {
+      setLoadingResults(false);
+    }
+    const competed = new Set(performances.map(perf => perf.athleteId));
+    const targets = athletes.filter(athlete => competed.has(athlete.id));
+
+    if (targets.length === 0) {
+      toast({
+        title: "No Results Yet",
+        description: "Review and save this competition's results before generating highlights.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // Athletes who didn't wrestle are left out; the coach can add them back
+    onDraftsChange(current => Object.fromEntries(
+      Object.entries(current).map(([athleteId, draft]) => [athleteId, { ...draft, included: competed.has(athleteId) }])
+    ));
+
+    setProgress({ done: 0, total: targets.length });
+    try {
+      await runWithConcurrency(targets, GENERATION_CONCURRENCY, async (athlete) => {
+        await generateFor(athlete.id);
+        setProgress(current => current && { ...current, done: current.done + 1 });
+      });
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const generating = loadingResults || progress !== null;
+  const includedCount = athletes.filter(athlete => drafts[athlete.id]?.included).length;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-end justify-between gap-3">
+        <div className="flex-1">
+          <Label htmlFor="highlight-competition">Athlete Highlights</Label>
+          <select
+            id="highlight-competition"
+            className="flex h-9 w-full rounded-md border border-input bg-background px-3 py-1 text-sm shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+            value={competitionId}
+            onChange={(e) => onCompetitionChange(e.target.value)}
+            disabled={generating}
+            data-testid="select-highlight-competition"
+          >
+            {competitions.length === 0 && <option value="">No competitions uploaded</option>}
+            {competitions.map((competition) => (
+              <option key={competition.id} value={competition.id}>
+                {competition.name} ({new Date(competition.date).toLocaleDateString()})
+              </option>
+            ))}
+          </select>
+        </div>
+        <Button
+          variant="outline"
+          onClick={generateAll}
+          disabled={generating || !competitionId}
+          data-testid="button-generate-all-highlights"
+        >
+          <Sparkles className="mr-2 h-4 w-4" />
+          {generating ? "Generating..." : "Generate All Highlights"}
+        </Button>
+      </div>
+
+      {progress && (
+        <div className="space-y-1" data-testid="highlight-progress">
+          <Progress value={(progress.done / progress.total) * 100} />
+          <p className="text-xs text-muted-foreground">
+            {progress.done} of {progress.total} highlights written
+          </p>
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        {includedCount} of {athletes.length} athletes included. Generate or edit a highlight to include that athlete.
+      </p>
+
+      <div className="space-y-3 max-h-96 overflow-y-auto pr-1">
+        {athletes.map((athlete) => {
+          const draft = drafts[athlete.id];
+          if (!draft) return null;
+          return (
+            <div
+              key={athlete.id}
+              className={`border rounded-lg p-3 space-y-2 ${draft.included ? "" : "opacity-60"}`}
+              data-testid={`highlight-${athlete.id}`}
+            >
+              <div className="flex items-center justify-between">
+                <label className="flex items-center space-x-2 text-sm font-medium">
+                  <Checkbox
+                    checked={draft.included}
+                    onCheckedChange={(checked) => updateDraft(athlete.id, { included: checked === true })}
+                    data-testid={`checkbox-include-${athlete.id}`}
+                  />
+                  <span>{athlete.name}</span>
+                  <span className="text-xs font-normal text-muted-foreground">
+                    {athlete.grade} • {athlete.weightClass}
+                  </span>
+                </label>
+                <div className="flex items-center space-x-2">
+                  {draft.status === "ready" && <Badge variant="secondary">AI draft</Badge>}
+                  <PastDrafts
+                    athleteId={athlete.id}
+                    onReuse={(generation) => updateDraft(athlete.id, {
+                      message: generation.finalText || generation.output,
+                      included: true,
+                      status: "ready",
+                      violations: undefined,
+                      // A draft already used in a newsletter keeps its history
+                      generationId: generation.newsletterId ? undefined : generation.id,
+                    })}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => generateFor(athlete.id)}
+                    disabled={draft.status === "generating"}
+                    data-testid={`button-regenerate-${athlete.id}`}
+                  >
+                    <RefreshCw className={`h-4 w-4 ${draft.status === "generating" ? "animate-spin" : ""}`} />
+                  </Button>
+                </div>
+              </div>
+              <Textarea
+                value={draft.message}
+                onChange={(e) => updateDraft(athlete.id, { message: e.target.value, included: true })}
+                disabled={draft.status === "generating"}
+                className="min-h-[70px] text-sm"
+                data-testid={`textarea-highlight-${athlete.id}`}
+              />
+              {draft.violations && draft.violations.length > 0 && (
+                <ul className="text-xs text-amber-700 space-y-0.5" data-testid={`highlight-violations-${athlete.id}`}>
+                  {draft.violations.map((violation) => (
+                    <li key={violation} className="flex items-center">
+                      <AlertTriangle className="h-3 w-3 mr-1 shrink-0" />
+                      {violation}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {draft.status === "error" && (
+                <p className="flex items-center text-xs text-destructive">
+                  <AlertCircle className="h-3 w-3 mr-1" />
+                  {draft.error}
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,213 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { importFields, type ImportColumns, type ImportField, type ImportMapping } from "@shared/schema";
+import { Save, Trash2 } from "lucide-react";
+
+export interface SpreadsheetPreview {
+  columns: string[];
+  sampleRows: string[][];
+  suggested: Partial<ImportColumns>;
+}
+
+interface ColumnMappingProps {
+  teamId: string;
+  preview: SpreadsheetPreview;
+  columns: Partial<ImportColumns>;
+  onColumnsChange: (columns: Partial<ImportColumns>) => void;
+}
+
+const fieldLabels: Record<ImportField, string> = {
+  name: "Wrestler Name *",
+  weight: "Weight Class *",
+  result: "Result (W/L)",
+  opponent: "Opponent",
+  score: "Score or Fall Time",
+  placement: "Placement",
+};
+
+const selectClassName = "flex h-9 w-full rounded-md border border-input bg-background px-2 py-1 text-sm";
+
+// A preset applies when every column it maps exists in this sheet
+function presetFits(preset: ImportMapping, available: string[]): boolean {
+  return Object.values(preset.columns).every(column => !column || available.includes(column));
+}
+
+export default function ColumnMapping({ teamId, preview, columns, onColumnsChange }: ColumnMappingProps) {
+  const [presetName, setPresetName] = useState("");
+  const [selectedPresetId, setSelectedPresetId] = useState("");
+  const initializedFor = useRef<SpreadsheetPreview | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: presets } = useQuery<ImportMapping[]>({
+    queryKey: ["/api/teams", teamId, "import-mappings"],
+    enabled: !!teamId,
+  });
+
+  // Start from a saved preset that fits this sheet, else the header guesses.
+  // Done once per sheet so refetching presets doesn't undo the coach's edits.
+  useEffect(() => {
+    if (!presets || initializedFor.current === preview) return;
+    initializedFor.current = preview;
+    const preset = presets.find(candidate => presetFits(candidate, preview.columns));
+    if (preset) {
+      setSelectedPresetId(preset.id);
+      setPresetName(preset.name);
+      onColumnsChange(preset.columns);
+    } else {
+      onColumnsChange(preview.suggested);
+    }
+  }, [presets, preview, onColumnsChange]);
+
+  const savePresetMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/teams/${teamId}/import-mappings`, {
+        name: presetName.trim(),
+        columns,
+      });
+      return response.json() as Promise<ImportMapping>;
+    },
+    onSuccess: (saved) => {
+      toast({ title: "Mapping Saved", description: `"${saved.name}" will be offered for future spreadsheets.` });
+      setSelectedPresetId(saved.id);
+      queryClient.invalidateQueries({ queryKey: ["/api/teams", teamId, "import-mappings"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save column mapping",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deletePresetMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/teams/${teamId}/import-mappings/${id}`);
+    },
+    onSuccess: () => {
+      setSelectedPresetId("");
+      queryClient.invalidateQueries({ queryKey: ["/api/teams", teamId, "import-mappings"] });
+    },
+  });
+
+  const applyPreset = (id: string) => {
+    setSelectedPresetId(id);
+    const preset = presets?.find(candidate => candidate.id === id);
+    if (preset) {
+      setPresetName(preset.name);
+      onColumnsChange(preset.columns);
+    }
+  };
+
+  const setColumn = (field: ImportField, column: string) => {
+    onColumnsChange({ ...columns, [field]: column || undefined });
+  };
+
+  return (
+    <div className="space-y-4">
+      {presets && presets.length > 0 && (
+        <div className="space-y-2">
+          <Label htmlFor="mapping-preset">Saved Mapping</Label>
+          <div className="flex space-x-2">
+            <select
+              id="mapping-preset"
+              className={selectClassName}
+              value={selectedPresetId}
+              onChange={(e) => applyPreset(e.target.value)}
+              data-testid="select-mapping-preset"
+            >
+              <option value="">Choose a saved mapping...</option>
+              {presets.map((preset) => (
+                <option key={preset.id} value={preset.id} disabled={!presetFits(preset, preview.columns)}>
+                  {preset.name}{presetFits(preset, preview.columns) ? "" : " (columns missing)"}
+                </option>
+              ))}
+            </select>
+            {selectedPresetId && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => deletePresetMutation.mutate(selectedPresetId)}
+                disabled={deletePresetMutation.isPending}
+                data-testid="button-delete-mapping-preset"
+              >
+                <Trash2 className="h-4 w-4 text-destructive" />
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-3">
+        {importFields.map((field) => (
+          <div key={field} className="space-y-1">
+            <Label htmlFor={`mapping-${field}`}>{fieldLabels[field]}</Label>
+            <select
+              id={`mapping-${field}`}
+              className={selectClassName}
+              value={columns[field] || ""}
+              onChange={(e) => setColumn(field, e.target.value)}
+              data-testid={`select-mapping-${field}`}
+            >
+              <option value="">Not in this sheet</option>
+              {preview.columns.map((column) => (
+                <option key={column} value={column}>{column}</option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Each row is one bout for the wrestler named in it, with a result like "W", "L Dec" or "W Fall". Rows with only a placement record where they finished.
+      </p>
+
+      <div className="border rounded-lg overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead className="bg-muted/50 text-muted-foreground">
+            <tr>
+              {preview.columns.map((column) => (
+                <th key={column} className="text-left p-2 font-medium whitespace-nowrap">{column}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {preview.sampleRows.map((row, index) => (
+              <tr key={index} className="border-t">
+                {preview.columns.map((column, cellIndex) => (
+                  <td key={column} className="p-2 whitespace-nowrap">{row[cellIndex]}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex space-x-2">
+        <Input
+          value={presetName}
+          onChange={(e) => setPresetName(e.target.value)}
+          placeholder="Name this mapping, e.g., Dual meet sheet"
+          maxLength={100}
+          data-testid="input-mapping-preset-name"
+        />
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => savePresetMutation.mutate()}
+          disabled={!presetName.trim() || !columns.name || !columns.weight || savePresetMutation.isPending}
+          data-testid="button-save-mapping-preset"
+        >
+          <Save className="mr-2 h-4 w-4" />
+          Save Mapping
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import type { EmailDelivery, EmailDeliveryStatus } from "@shared/schema";
+import { AlertCircle, Ban, CheckCircle2, Clock, MailX } from "lucide-react";
+
+export type DeliveryCounts = Record<EmailDeliveryStatus, number>;
+
+const statusDisplay: Record<EmailDeliveryStatus, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  delivered: { label: "Delivered", variant: "default" },
+  queued: { label: "Queued", variant: "outline" },
+  sending: { label: "Sending", variant: "secondary" },
+  failed: { label: "Failed", variant: "destructive" },
+  bounced: { label: "Bounced", variant: "destructive" },
+  suppressed: { label: "Unsubscribed", variant: "outline" },
+};
+
+export function DeliveryCountsSummary({ counts, testId }: { counts: DeliveryCounts; testId?: string }) {
+  const pending = counts.queued + counts.sending;
+
+  return (
+    <div className="flex items-center space-x-3 text-xs" data-testid={testId}>
+      <span className="flex items-center text-green-600">
+        <CheckCircle2 className="h-3 w-3 mr-1" />
+        {counts.delivered} delivered
+      </span>
+      {pending > 0 && (
+        <span className="flex items-center text-muted-foreground">
+          <Clock className="h-3 w-3 mr-1" />
+          {pending} pending
+        </span>
+      )}
+      {counts.failed > 0 && (
+        <span className="flex items-center text-destructive">
+          <AlertCircle className="h-3 w-3 mr-1" />
+          {counts.failed} failed
+        </span>
+      )}
+      {counts.bounced > 0 && (
+        <span className="flex items-center text-destructive">
+          <MailX className="h-3 w-3 mr-1" />
+          {counts.bounced} bounced
+        </span>
+      )}
+      {counts.suppressed > 0 && (
+        <span className="flex items-center text-muted-foreground">
+          <Ban className="h-3 w-3 mr-1" />
+          {counts.suppressed} skipped (unsubscribed)
+        </span>
+      )}
+    </div>
+  );
+}
+
+export default function DeliveryStatusList({ newsletterId }: { newsletterId: string }) {
+  const { data: deliveries, isLoading } = useQuery<EmailDelivery[]>({
+    queryKey: ["/api/newsletters", newsletterId, "deliveries"],
+    enabled: !!newsletterId,
+  });
+
+  if (isLoading) {
+    return <div className="h-24 bg-muted rounded animate-pulse" />;
+  }
+
+  if (!deliveries || deliveries.length === 0) {
+    return <p className="text-sm text-muted-foreground">No delivery records for this message.</p>;
+  }
+
+  return (
+    <div className="space-y-2 max-h-64 overflow-y-auto">
+      {deliveries.map((delivery) => {
+        const display = statusDisplay[delivery.status];
+        return (
+          <div
+            key={delivery.id}
+            className="flex items-start justify-between p-3 bg-muted/30 rounded border"
+            data-testid={`delivery-${delivery.id}`}
+          >
+            <div className="min-w-0">
+              <div className="text-sm font-medium truncate">{delivery.recipient}</div>
+              {delivery.lastError && delivery.status !== "delivered" && (
+                <p className="text-xs text-muted-foreground truncate">{delivery.lastError}</p>
+              )}
+            </div>
+            <div className="flex items-center space-x-2 ml-2">
+              {delivery.attempts > 1 && (
+                <span className="text-xs text-muted-foreground">{delivery.attempts} attempts</span>
+              )}
+              <Badge variant={display.variant}>{display.label}</Badge>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
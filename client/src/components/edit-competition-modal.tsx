@@ -0,0 +1,209 @@
+import { useState, useRef } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import type { Competition } from "@shared/schema";
+import { FileText, Upload, X } from "lucide-react";
+
+interface EditCompetitionModalProps {
+  competition: Competition;
+  onClose: () => void;
+  onSaved?: (competition: Competition, replacedPdf: boolean) => void;
+}
+
+export default function EditCompetitionModal({ competition, onClose, onSaved }: EditCompetitionModalProps) {
+  const [competitionName, setCompetitionName] = useState(competition.name);
+  const [date, setDate] = useState(new Date(competition.date).toISOString().split('T')[0]);
+  const [file, setFile] = useState<File | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const saveMutation = useMutation({
+    mutationFn: async (formData: FormData) => {
+      const response = await fetch(`/api/competitions/${competition.id}`, {
+        method: "PUT",
+        body: formData,
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`${response.status}: ${errorText}`);
+      }
+
+      return response.json() as Promise<Competition>;
+    },
+    onSuccess: (updated) => {
+      toast({
+        title: "Competition Updated",
+        description: file
+          ? "The new PDF was parsed. Review the results before they replace the saved ones."
+          : "Your changes have been saved.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/competitions", competition.id] });
+      queryClient.invalidateQueries({ queryKey: ["/api/teams", competition.teamId, "competitions"] });
+      onClose();
+      onSaved?.(updated, !!file);
+    },
+    onError: (error) => {
+      toast({
+        title: "Update Failed",
+        description: error.message || "Failed to update competition",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFile = e.target.files?.[0];
+    if (selectedFile) {
+      if (selectedFile.type === "application/pdf") {
+        setFile(selectedFile);
+      } else {
+        toast({
+          title: "Invalid File",
+          description: "Please select a PDF file",
+          variant: "destructive",
+        });
+      }
+    }
+  };
+
+  const removeFile = () => {
+    setFile(null);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!competitionName.trim()) {
+      toast({
+        title: "Competition Name Required",
+        description: "Please enter a competition name",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const formData = new FormData();
+    formData.append("name", competitionName.trim());
+    formData.append("date", date);
+    if (file) {
+      formData.append("pdf", file);
+    }
+
+    saveMutation.mutate(formData);
+  };
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Edit Competition</DialogTitle>
+          <DialogDescription>
+            Fix the name or date, or replace the results PDF
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="edit-competition-name">Competition Name</Label>
+            <Input
+              id="edit-competition-name"
+              type="text"
+              value={competitionName}
+              onChange={(e) => setCompetitionName(e.target.value)}
+              required
+              data-testid="input-edit-competition-name"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="edit-competition-date">Competition Date</Label>
+            <Input
+              id="edit-competition-date"
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              required
+              data-testid="input-edit-competition-date"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Replace PDF</Label>
+            {file ? (
+              <div className="flex items-center space-x-2 border rounded-lg p-3">
+                <FileText className="h-5 w-5 text-primary" />
+                <span className="text-sm font-medium flex-1">{file.name}</span>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={removeFile}
+                  className="h-6 w-6"
+                  data-testid="button-remove-replacement"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ) : (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => fileInputRef.current?.click()}
+                data-testid="button-choose-replacement"
+              >
+                <Upload className="mr-2 h-4 w-4" />
+                Choose PDF
+              </Button>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Optional. The new file is parsed again and its results go back to review.
+            </p>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".pdf"
+              onChange={handleFileSelect}
+              className="hidden"
+              data-testid="input-replacement-file"
+            />
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onClose}
+              data-testid="button-cancel-edit-competition"
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={saveMutation.isPending}
+              data-testid="button-save-competition"
+            >
+              {saveMutation.isPending ? (file ? "Parsing..." : "Saving...") : "Save Changes"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
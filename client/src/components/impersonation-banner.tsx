@@ -0,0 +1,53 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Eye } from "lucide-react";
+
+// Shown on every page while a system admin is viewing the app as a coach
+export default function ImpersonationBanner() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const stopMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", "/api/admin/impersonate/stop", {});
+    },
+    onSuccess: () => {
+      queryClient.clear();
+      window.location.href = "/admin";
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to end impersonation",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!user?.impersonator) {
+    return null;
+  }
+
+  return (
+    <div className="bg-amber-500 text-black px-4 py-2 flex items-center justify-center space-x-4 text-sm" data-testid="banner-impersonation">
+      <Eye className="h-4 w-4" />
+      <span>
+        Viewing as <span className="font-semibold">{user.email}</span>. Changes you make are recorded in the audit log.
+      </span>
+      <Button
+        size="sm"
+        variant="outline"
+        className="h-7 bg-white"
+        onClick={() => stopMutation.mutate()}
+        disabled={stopMutation.isPending}
+        data-testid="button-stop-impersonation"
+      >
+        Return to Admin
+      </Button>
+    </div>
+  );
+}
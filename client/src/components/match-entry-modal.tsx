@@ -0,0 +1,242 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatMatchResult, resultTypeLabels } from "@/lib/matchUtils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { insertMatchSchema, matchResultTypes, type Athlete, type Match } from "@shared/schema";
+import { Plus, Swords, Trash2 } from "lucide-react";
+
+interface MatchEntryModalProps {
+  onClose: () => void;
+  competitionId: string;
+  teamId: string;
+}
+
+const matchFormSchema = insertMatchSchema.omit({ competitionId: true }).extend({
+  athleteId: z.string().min(1, "Select an athlete"),
+  opponentName: z.string().min(1, "Opponent name is required"),
+});
+
+type MatchFormData = z.infer<typeof matchFormSchema>;
+
+const selectClassName = "flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2";
+
+export default function MatchEntryModal({ onClose, competitionId, teamId }: MatchEntryModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: matches, isLoading: matchesLoading } = useQuery<Match[]>({
+    queryKey: ["/api/competitions", competitionId, "matches"],
+    enabled: !!competitionId,
+  });
+
+  const { data: athletes } = useQuery<Athlete[]>({
+    queryKey: ["/api/teams", teamId, "athletes"],
+    enabled: !!teamId,
+  });
+
+  const form = useForm<MatchFormData>({
+    resolver: zodResolver(matchFormSchema),
+    defaultValues: {
+      athleteId: "",
+      opponentName: "",
+      opponentSchool: "",
+      round: "",
+      outcome: "win",
+      resultType: "decision",
+      score: "",
+      fallTime: "",
+    },
+  });
+
+  const invalidateResults = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/competitions", competitionId, "matches"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/teams", teamId, "stats"] });
+  };
+
+  const createMatchMutation = useMutation({
+    mutationFn: async (data: MatchFormData) => {
+      const athlete = athletes?.find(a => a.id === data.athleteId);
+      return await apiRequest("POST", `/api/competitions/${competitionId}/matches`, {
+        ...data,
+        weightClass: data.weightClass || athlete?.weightClass,
+        boutOrder: matches?.filter(m => m.athleteId === data.athleteId).length || 0,
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Bout Added!",
+        description: "The bout has been recorded and the athlete's record updated.",
+      });
+      invalidateResults();
+      form.reset({ ...form.getValues(), opponentName: "", opponentSchool: "", score: "", fallTime: "" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to add bout",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMatchMutation = useMutation({
+    mutationFn: async (matchId: string) => {
+      return await apiRequest("DELETE", `/api/matches/${matchId}`, {});
+    },
+    onSuccess: () => {
+      toast({
+        title: "Bout Removed",
+        description: "The bout has been removed.",
+      });
+      invalidateResults();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to remove bout",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const athleteName = (athleteId: string) =>
+    athletes?.find(athlete => athlete.id === athleteId)?.name || "Unknown athlete";
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Bouts</DialogTitle>
+          <DialogDescription>
+            Record individual bouts. Each athlete's wins, losses and pins for this competition are calculated from their bouts.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          onSubmit={form.handleSubmit((data) => createMatchMutation.mutate(data))}
+          className="space-y-4 border rounded-lg p-4"
+        >
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="match-athlete">Athlete *</Label>
+              <select id="match-athlete" className={selectClassName} {...form.register("athleteId")} data-testid="select-match-athlete">
+                <option value="">Choose an athlete...</option>
+                {athletes?.map((athlete) => (
+                  <option key={athlete.id} value={athlete.id}>
+                    {athlete.name} ({athlete.weightClass})
+                  </option>
+                ))}
+              </select>
+              {form.formState.errors.athleteId && (
+                <p className="text-sm text-destructive">{form.formState.errors.athleteId.message}</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="match-round">Round</Label>
+              <Input id="match-round" {...form.register("round")} placeholder="e.g., Quarterfinal" data-testid="input-match-round" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="match-opponent">Opponent *</Label>
+              <Input id="match-opponent" {...form.register("opponentName")} placeholder="e.g., Tom Lee" data-testid="input-match-opponent" />
+              {form.formState.errors.opponentName && (
+                <p className="text-sm text-destructive">{form.formState.errors.opponentName.message}</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="match-opponent-school">Opponent School</Label>
+              <Input id="match-opponent-school" {...form.register("opponentSchool")} placeholder="e.g., West High" data-testid="input-match-opponent-school" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="match-outcome">Result</Label>
+              <select id="match-outcome" className={selectClassName} {...form.register("outcome")} data-testid="select-match-outcome">
+                <option value="win">Win</option>
+                <option value="loss">Loss</option>
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="match-result-type">Win Type</Label>
+              <select id="match-result-type" className={selectClassName} {...form.register("resultType")} data-testid="select-match-result-type">
+                {matchResultTypes.map((type) => (
+                  <option key={type} value={type}>{resultTypeLabels[type]}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="match-score">Score</Label>
+              <Input id="match-score" {...form.register("score")} placeholder="e.g., 5-2" data-testid="input-match-score" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="match-fall-time">Fall Time</Label>
+              <Input id="match-fall-time" {...form.register("fallTime")} placeholder="e.g., 1:32" data-testid="input-match-fall-time" />
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button type="submit" disabled={createMatchMutation.isPending} data-testid="button-add-match">
+              <Plus className="mr-2 h-4 w-4" />
+              {createMatchMutation.isPending ? "Adding..." : "Add Bout"}
+            </Button>
+          </div>
+        </form>
+
+        {matchesLoading ? (
+          <div className="h-24 bg-muted rounded animate-pulse" />
+        ) : !matches || matches.length === 0 ? (
+          <div className="text-center py-6">
+            <Swords className="h-8 w-8 text-muted-foreground mx-auto mb-2" />
+            <p className="text-sm text-muted-foreground">No bouts recorded for this competition yet.</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {matches.map((match) => (
+              <div key={match.id} className="flex items-center justify-between p-3 bg-muted/30 rounded border" data-testid={`match-${match.id}`}>
+                <div className="text-sm">
+                  <div className="font-medium">
+                    {athleteName(match.athleteId)}
+                    <span className="text-muted-foreground font-normal">
+                      {" "}{match.outcome === "win" ? "def." : "lost to"} {match.opponentName}
+                      {match.opponentSchool && ` (${match.opponentSchool})`}
+                    </span>
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {[match.weightClass, match.round].filter(Boolean).join(" • ")}
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Badge variant={match.outcome === "win" ? "default" : "secondary"}>
+                    {formatMatchResult(match)}
+                  </Badge>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => {
+                      if (confirm("Are you sure you want to remove this bout?")) {
+                        deleteMatchMutation.mutate(match.id);
+                      }
+                    }}
+                    data-testid={`button-delete-match-${match.id}`}
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,204 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { messageLengths, type Athlete, type MessageLength, type PromptSettings } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Save, Sparkles } from "lucide-react";
+
+interface MessageSettingsProps {
+  teamId: string;
+  canEdit: boolean;
+}
+
+const lengthLabels: Record<MessageLength, string> = {
+  short: "Short (a few sentences)",
+  medium: "Medium (a short paragraph)",
+  long: "Long (a full paragraph or more)",
+};
+
+// Phrase lists are edited one per line
+function toLines(phrases: string[]): string {
+  return phrases.join("\n");
+}
+
+function fromLines(text: string): string[] {
+  return text.split("\n").map(line => line.trim()).filter(Boolean);
+}
+
+export default function MessageSettings({ teamId, canEdit }: MessageSettingsProps) {
+  const [messageLength, setMessageLength] = useState<MessageLength>("medium");
+  const [motto, setMotto] = useState("");
+  const [requiredPhrases, setRequiredPhrases] = useState("");
+  const [bannedPhrases, setBannedPhrases] = useState("");
+  const [hideLossesForGrades, setHideLossesForGrades] = useState<string[]>([]);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: settings } = useQuery<PromptSettings>({
+    queryKey: ["/api/teams", teamId, "prompt-settings"],
+    enabled: !!teamId,
+  });
+
+  const { data: athletes } = useQuery<Athlete[]>({
+    queryKey: ["/api/teams", teamId, "athletes"],
+    enabled: !!teamId,
+  });
+
+  useEffect(() => {
+    if (settings) {
+      setMessageLength(settings.messageLength);
+      setMotto(settings.motto || "");
+      setRequiredPhrases(toLines(settings.requiredPhrases));
+      setBannedPhrases(toLines(settings.bannedPhrases));
+      setHideLossesForGrades(settings.hideLossesForGrades);
+    }
+  }, [settings]);
+
+  // Offer the grades actually on the roster, plus any saved ones no longer there
+  const grades = Array.from(new Set([...(athletes || []).map(athlete => athlete.grade), ...hideLossesForGrades]))
+    .filter(Boolean)
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+
+  const toggleGrade = (grade: string, checked: boolean) => {
+    setHideLossesForGrades(current => checked ? [...current, grade] : current.filter(g => g !== grade));
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", `/api/teams/${teamId}/prompt-settings`, {
+        messageLength,
+        motto: motto.trim() || null,
+        requiredPhrases: fromLines(requiredPhrases),
+        bannedPhrases: fromLines(bannedPhrases),
+        hideLossesForGrades,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Settings Saved",
+        description: "New AI messages will follow these rules.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/teams", teamId, "prompt-settings"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save message settings",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Sparkles className="mr-2 h-5 w-5" />
+          AI Message Settings
+        </CardTitle>
+        <CardDescription>
+          Rules every AI-written message must follow. Messages that break them are rewritten once, then flagged for review.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <fieldset disabled={!canEdit} className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="messageLength">Message Length</Label>
+              <select
+                id="messageLength"
+                value={messageLength}
+                onChange={(e) => setMessageLength(e.target.value as MessageLength)}
+                className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+                data-testid="select-message-length"
+              >
+                {messageLengths.map((length) => (
+                  <option key={length} value={length}>{lengthLabels[length]}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="motto">Team Motto</Label>
+              <Input
+                id="motto"
+                value={motto}
+                onChange={(e) => setMotto(e.target.value)}
+                placeholder="e.g., Outwork everyone"
+                maxLength={200}
+                data-testid="input-motto"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="requiredPhrases">Always Include</Label>
+              <Textarea
+                id="requiredPhrases"
+                value={requiredPhrases}
+                onChange={(e) => setRequiredPhrases(e.target.value)}
+                placeholder={"One phrase per line\ne.g., Go Hawks"}
+                className="min-h-[90px]"
+                data-testid="textarea-required-phrases"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="bannedPhrases">Never Use</Label>
+              <Textarea
+                id="bannedPhrases"
+                value={bannedPhrases}
+                onChange={(e) => setBannedPhrases(e.target.value)}
+                placeholder={"One phrase per line\ne.g., crushed"}
+                className="min-h-[90px]"
+                data-testid="textarea-banned-phrases"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Never Mention Losses For</Label>
+            {grades.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Add athletes to your roster to pick grades.</p>
+            ) : (
+              <div className="flex flex-wrap gap-4">
+                {grades.map((grade) => (
+                  <label key={grade} className="flex items-center space-x-2 text-sm">
+                    <Checkbox
+                      checked={hideLossesForGrades.includes(grade)}
+                      onCheckedChange={(checked) => toggleGrade(grade, checked === true)}
+                      data-testid={`checkbox-hide-losses-${grade}`}
+                    />
+                    <span>{grade}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+            <p className="text-sm text-muted-foreground">
+              Highlights for athletes in these grades leave out losses and win-loss records.
+            </p>
+          </div>
+        </fieldset>
+
+        <div className="flex justify-end mt-6">
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={!canEdit || saveMutation.isPending}
+            data-testid="button-save-message-settings"
+          >
+            <Save className="mr-2 h-4 w-4" />
+            {saveMutation.isPending ? "Saving..." : "Save Settings"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,7 +1,11 @@
-import { useState } from "react";
-import { useMutation, useQuery } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { formatScheduledTime, nextSundayEvening, toDateTimeLocalValue } from "@/lib/scheduleUtils";
+import { newsletterLayoutOptions } from "@/lib/newsletterLayouts";
+import { newsletterLayouts, type Athlete, type Competition, type NewsletterLayout, type NewsletterPreview as PreviewContent } from "@shared/schema";
+import AthleteHighlightsEditor, { cannedHighlight, type HighlightDrafts } from "@/components/athlete-highlights-editor";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Input } from "@/components/ui/input";
@@ -14,7 +18,7 @@ import {
   DialogTitle 
 } from "@/components/ui/dialog";
 import { Card } from "@/components/ui/card";
-import { Volleyball, X, Edit, Send, Clock, User } from "lucide-react";
+import { X, Edit, Send, Clock, AlertTriangle } from "lucide-react";
 
 interface NewsletterPreviewProps {
   onClose: () => void;
@@ -25,42 +29,112 @@ interface NewsletterPreviewProps {
     logoUrl?: string;
     primaryColor?: string;
     teamStoreUrl?: string;
+    defaultLayout?: NewsletterLayout;
   };
 }
 
+// Re-rendering on every keystroke would hammer the server
+const PREVIEW_DEBOUNCE_MS = 400;
+
 export default function NewsletterPreview({ onClose, team }: NewsletterPreviewProps) {
   const [subject, setSubject] = useState(`${team.name} Weekly Update - ${new Date().toLocaleDateString()}`);
   const [teamMessage, setTeamMessage] = useState("");
+  const [teamMessageViolations, setTeamMessageViolations] = useState<string[]>([]);
+  const [teamMessageGenerationId, setTeamMessageGenerationId] = useState<string | undefined>();
+  const [layout, setLayout] = useState<NewsletterLayout>(team.defaultLayout || "weekly_recap");
   const [isEditing, setIsEditing] = useState(false);
+  const [showPlainText, setShowPlainText] = useState(false);
+  const [showSchedule, setShowSchedule] = useState(false);
+  const [drafts, setDrafts] = useState<HighlightDrafts>({});
+  const [selectedCompetitionId, setSelectedCompetitionId] = useState("");
+  const [scheduleAt, setScheduleAt] = useState(toDateTimeLocalValue(nextSundayEvening()));
   const { toast } = useToast();
+  const queryClient = useQueryClient();
 
   // Get team athletes for newsletter
-  const { data: athletes, isLoading: athletesLoading } = useQuery({
+  const { data: athletes, isLoading: athletesLoading } = useQuery<Athlete[]>({
     queryKey: ["/api/teams", team.id, "athletes"],
     enabled: !!team.id,
   });
 
   // Get recent competitions for context
-  const { data: competitions } = useQuery({
+  const { data: competitions } = useQuery<Competition[]>({
     queryKey: ["/api/teams", team.id, "competitions"],
     enabled: !!team.id,
   });
+  // Competitions load after mount, so default to the most recent one
+  const competitionId = selectedCompetitionId || competitions?.[0]?.id || "";
+
+  // Every athlete starts with a canned highlight, left out until the coach generates or edits one
+  useEffect(() => {
+    if (!athletes) return;
+    setDrafts(current => {
+      const next = { ...current };
+      for (const athlete of athletes) {
+        next[athlete.id] ??= { message: cannedHighlight(athlete), included: false, status: "idle" };
+      }
+      return next;
+    });
+  }, [athletes]);
+
+  const athleteMessages = athletes
+    ?.filter(athlete => drafts[athlete.id]?.included)
+    .map(athlete => ({
+      athleteId: athlete.id,
+      athleteName: athlete.name,
+      grade: athlete.grade,
+      weightClass: athlete.weightClass,
+      message: drafts[athlete.id].message,
+      generationId: drafts[athlete.id].generationId,
+    })) || [];
+
+  // The preview is the server-rendered email itself, so it can't drift from what gets sent
+  const [previewContent, setPreviewContent] = useState<PreviewContent | null>(null);
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setPreviewContent({ subject, teamMessage, athleteMessages, layout });
+    }, PREVIEW_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+    // athleteMessages is rebuilt from athletes and drafts on every render
+  }, [subject, teamMessage, layout, athletes, drafts]);
+
+  const { data: preview, isFetching: previewLoading } = useQuery<{ html: string; text: string; warnings: string[] }>({
+    queryKey: ["/api/teams", team.id, "newsletters", "preview", previewContent],
+    queryFn: async () => {
+      const response = await apiRequest("POST", `/api/teams/${team.id}/newsletters/preview`, previewContent);
+      return response.json();
+    },
+    enabled: !!team.id && !!previewContent,
+    placeholderData: (previous) => previous,
+  });
 
   const sendNewsletterMutation = useMutation({
-    mutationFn: async (data: { subject: string; teamMessage: string; athleteMessages: any[] }) => {
+    mutationFn: async (data: { subject: string; teamMessage: string; teamMessageGenerationId?: string; athleteMessages: any[]; layout: NewsletterLayout; scheduledFor?: string }) => {
+      const { scheduledFor, ...content } = data;
+
       // First create the newsletter
-      const newsletter = await apiRequest("POST", `/api/teams/${team.id}/newsletters`, data);
+      const response = await apiRequest("POST", `/api/teams/${team.id}/newsletters`, content);
+      const newsletter = await response.json();
       
-      // Then send it
-      await apiRequest("POST", `/api/newsletters/${newsletter.id}/send`, {});
+      // Then send it, or hand it to the scheduler
+      if (scheduledFor) {
+        await apiRequest("PUT", `/api/newsletters/${newsletter.id}/schedule`, {
+          scheduledFor: new Date(scheduledFor).toISOString(),
+        });
+      } else {
+        await apiRequest("POST", `/api/newsletters/${newsletter.id}/send`, {});
+      }
       
       return newsletter;
     },
-    onSuccess: () => {
+    onSuccess: (_newsletter, variables) => {
       toast({
-        title: "Newsletter Sent!",
-        description: "Your newsletter has been sent to all team subscribers.",
+        title: variables.scheduledFor ? "Newsletter Scheduled!" : "Newsletter Sent!",
+        description: variables.scheduledFor
+          ? `Your newsletter will be sent ${formatScheduledTime(variables.scheduledFor)}.`
+          : "Your newsletter has been sent to all team subscribers.",
       });
+      queryClient.invalidateQueries({ queryKey: ["/api/teams", team.id, "newsletters"] });
       onClose();
     },
     onError: (error) => {
@@ -74,21 +148,15 @@ export default function NewsletterPreview({ onClose, team }: NewsletterPreviewPr
 
   const generateTeamMessageMutation = useMutation({
     mutationFn: async () => {
-      const recentCompetition = competitions?.[0];
-      const teamPerformance = {
-        competitionName: recentCompetition?.name || "Recent Competition",
-        athleteCount: athletes?.length || 0,
-      };
-      
-      const response = await apiRequest("POST", `/api/teams/${team.id}/generate-team-message`, {
-        competitionName: recentCompetition?.name || "Recent Competition",
-        teamPerformance,
-      });
-      
-      return response.message;
+      // The server builds the results summary from this competition's saved performances
+      const response = await apiRequest("POST", `/api/teams/${team.id}/generate-team-message`, { competitionId });
+      const generated: { message: string; violations: string[]; generationId: string } = await response.json();
+      return generated;
     },
-    onSuccess: (message) => {
-      setTeamMessage(message);
+    onSuccess: (generated) => {
+      setTeamMessage(generated.message);
+      setTeamMessageViolations(generated.violations);
+      setTeamMessageGenerationId(generated.generationId);
     },
     onError: (error) => {
       toast({
@@ -99,7 +167,7 @@ export default function NewsletterPreview({ onClose, team }: NewsletterPreviewPr
     },
   });
 
-  const handleSend = () => {
+  const handleSend = (scheduledFor?: string) => {
     if (!subject.trim()) {
       toast({
         title: "Subject Required",
@@ -109,18 +177,13 @@ export default function NewsletterPreview({ onClose, team }: NewsletterPreviewPr
       return;
     }
 
-    const athleteMessages = athletes?.map(athlete => ({
-      athleteId: athlete.id,
-      athleteName: athlete.name,
-      grade: athlete.grade,
-      weightClass: athlete.weightClass,
-      message: `Great work this season, ${athlete.name}! Keep up the excellent effort in the ${athlete.weightClass} weight class.`,
-    })) || [];
-
     sendNewsletterMutation.mutate({
       subject,
       teamMessage,
+      teamMessageGenerationId,
       athleteMessages,
+      layout,
+      scheduledFor,
     });
   };
 
@@ -160,6 +223,22 @@ export default function NewsletterPreview({ onClose, team }: NewsletterPreviewPr
               />
             </div>
 
+            <div>
+              <Label htmlFor="layout">Layout</Label>
+              <select
+                id="layout"
+                className="flex h-9 w-full rounded-md border border-input bg-background px-3 py-1 text-sm shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+                value={layout}
+                onChange={(e) => setLayout(e.target.value as NewsletterLayout)}
+                data-testid="select-layout"
+              >
+                {newsletterLayouts.map((option) => (
+                  <option key={option} value={option}>{newsletterLayoutOptions[option].label}</option>
+                ))}
+              </select>
+              <p className="text-xs text-muted-foreground mt-1">{newsletterLayoutOptions[layout].description}</p>
+            </div>
+
             <div>
               <div className="flex items-center justify-between mb-2">
                 <Label htmlFor="team-message">Team Message</Label>
@@ -167,7 +246,7 @@ export default function NewsletterPreview({ onClose, team }: NewsletterPreviewPr
                   variant="outline"
                   size="sm"
                   onClick={() => generateTeamMessageMutation.mutate()}
-                  disabled={generateTeamMessageMutation.isPending}
+                  disabled={generateTeamMessageMutation.isPending || !competitionId}
                   data-testid="button-generate-message"
                 >
                   {generateTeamMessageMutation.isPending ? "Generating..." : "Generate AI Message"}
@@ -181,110 +260,97 @@ export default function NewsletterPreview({ onClose, team }: NewsletterPreviewPr
                 className="min-h-[100px]"
                 data-testid="textarea-team-message"
               />
+              {teamMessageViolations.length > 0 && (
+                <ul className="mt-2 text-xs text-amber-700 space-y-0.5" data-testid="team-message-violations">
+                  {teamMessageViolations.map((violation) => (
+                    <li key={violation} className="flex items-center">
+                      <AlertTriangle className="h-3 w-3 mr-1 shrink-0" />
+                      {violation}
+                    </li>
+                  ))}
+                </ul>
+              )}
             </div>
           </div>
 
-          {/* Newsletter Preview */}
-          <Card className="p-0 overflow-hidden">
-            <div className="bg-white border border-border max-w-2xl mx-auto">
-              {/* Team Header */}
-              <div 
-                className="text-center border-b border-border p-6"
-                style={{ backgroundColor: `${team.primaryColor}10` }}
-              >
-                <div 
-                  className="w-16 h-16 rounded-lg mx-auto mb-4 flex items-center justify-center"
-                  style={{ backgroundColor: team.primaryColor || '#3B82F6' }}
-                >
-                  {team.logoUrl ? (
-                    <img 
-                      src={team.logoUrl} 
-                      alt={`${team.name} logo`}
-                      className="w-full h-full object-cover rounded-lg"
-                    />
-                  ) : (
-                    <Volleyball className="h-8 w-8 text-white" />
-                  )}
-                </div>
-                <h1 className="text-2xl font-bold text-foreground" data-testid="preview-team-name">
-                  {team.name}
-                </h1>
-                <p className="text-muted-foreground" data-testid="preview-school-name">
-                  {team.school}
-                </p>
-                <p className="text-sm text-muted-foreground">
-                  {new Date().toLocaleDateString()}
-                </p>
+          <AthleteHighlightsEditor
+            athletes={athletes || []}
+            competitions={competitions || []}
+            competitionId={competitionId}
+            onCompetitionChange={setSelectedCompetitionId}
+            drafts={drafts}
+            onDraftsChange={setDrafts}
+          />
+
+          {/* Brand color contrast */}
+          {preview && preview.warnings.length > 0 && (
+            <div className="rounded-md border border-amber-200 bg-amber-50 p-4 text-sm text-amber-800" data-testid="preview-contrast-warnings">
+              <div className="flex items-center font-medium mb-1">
+                <AlertTriangle className="h-4 w-4 mr-2" />
+                Your team colors are hard to read
               </div>
+              <ul className="list-disc pl-6 space-y-1">
+                {preview.warnings.map((warning) => (
+                  <li key={warning}>{warning}</li>
+                ))}
+              </ul>
+              <p className="mt-2">Pick a darker primary color in Team Setup to use it everywhere.</p>
+            </div>
+          )}
 
-              {/* Team Message */}
-              {teamMessage && (
-                <div className="p-6 border-b border-border">
-                  <h2 className="text-xl font-semibold text-foreground mb-4">Coach's Message</h2>
-                  <p className="text-muted-foreground leading-relaxed" data-testid="preview-team-message">
-                    {teamMessage}
-                  </p>
-                </div>
-              )}
+          <div className="flex justify-end">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowPlainText(!showPlainText)}
+              data-testid="button-toggle-plain-text"
+            >
+              {showPlainText ? "Show Email" : "Show Plain-Text Version"}
+            </Button>
+          </div>
 
-              {/* Athlete Highlights */}
-              {athletes && athletes.length > 0 && (
-                <div className="p-6">
-                  <h2 className="text-xl font-semibold text-foreground mb-6">Athlete Highlights</h2>
-                  <div className="space-y-4">
-                    {athletes.slice(0, 3).map((athlete) => (
-                      <div key={athlete.id} className="border border-border rounded-lg p-4">
-                        <div className="flex items-start space-x-4">
-                          <div className="w-12 h-12 bg-secondary rounded-full flex items-center justify-center">
-                            {athlete.profilePhotoUrl ? (
-                              <img 
-                                src={athlete.profilePhotoUrl}
-                                alt={`${athlete.name} photo`}
-                                className="w-full h-full object-cover rounded-full"
-                              />
-                            ) : (
-                              <User className="h-6 w-6 text-secondary-foreground" />
-                            )}
-                          </div>
-                          <div className="flex-1">
-                            <h3 className="font-semibold text-foreground" data-testid={`preview-athlete-${athlete.id}-name`}>
-                              {athlete.name}
-                            </h3>
-                            <p className="text-sm text-muted-foreground mb-2">
-                              {athlete.grade} • {athlete.weightClass}
-                            </p>
-                            <p className="text-sm text-foreground leading-relaxed">
-                              Great work this season, {athlete.name}! Keep up the excellent effort 
-                              in the {athlete.weightClass} weight class.
-                            </p>
-                          </div>
-                        </div>
-                      </div>
-                    ))}
-                  </div>
-                </div>
-              )}
+          {/* Newsletter Preview */}
+          <Card className="p-0 overflow-hidden relative">
+            {preview && showPlainText ? (
+              <pre className="h-[600px] overflow-y-auto whitespace-pre-wrap p-6 text-sm font-mono" data-testid="preview-plain-text">
+                {preview.text}
+              </pre>
+            ) : preview ? (
+              <iframe
+                title="Newsletter preview"
+                srcDoc={preview.html}
+                sandbox=""
+                className={`w-full h-[600px] bg-white transition-opacity ${previewLoading ? "opacity-60" : ""}`}
+                data-testid="preview-frame"
+              />
+            ) : (
+              <div className="h-[600px] bg-muted animate-pulse" />
+            )}
+          </Card>
 
-              {/* Call to Action */}
-              <div className="p-6 bg-muted/30 border-t border-border text-center">
-                <p className="text-sm text-muted-foreground mb-4">Support our team's success!</p>
-                <div className="flex justify-center space-x-4">
-                  <Button 
-                    style={{ backgroundColor: team.primaryColor || '#3B82F6' }}
-                    className="text-white"
-                    data-testid="preview-support-button"
-                  >
-                    Support Our Team
-                  </Button>
-                  {team.teamStoreUrl && (
-                    <Button variant="outline" data-testid="preview-store-button">
-                      Team Store
-                    </Button>
-                  )}
-                </div>
+          {showSchedule && (
+            <div className="flex items-end justify-end space-x-3">
+              <div className="space-y-1">
+                <Label htmlFor="schedule-at">Send At</Label>
+                <Input
+                  id="schedule-at"
+                  type="datetime-local"
+                  value={scheduleAt}
+                  min={toDateTimeLocalValue(new Date())}
+                  onChange={(e) => setScheduleAt(e.target.value)}
+                  data-testid="input-schedule-at"
+                />
               </div>
+              <Button
+                onClick={() => handleSend(scheduleAt)}
+                disabled={sendNewsletterMutation.isPending || !subject.trim() || !scheduleAt}
+                data-testid="button-confirm-schedule"
+              >
+                <Clock className="mr-2 h-4 w-4" />
+                {sendNewsletterMutation.isPending ? "Scheduling..." : "Confirm Schedule"}
+              </Button>
             </div>
-          </Card>
+          )}
 
           {/* Action Buttons */}
           <div className="flex justify-end space-x-3 pt-4 border-t">
@@ -298,21 +364,21 @@ export default function NewsletterPreview({ onClose, team }: NewsletterPreviewPr
             </Button>
             <Button
               variant="outline"
-              disabled
+              onClick={() => setShowSchedule(!showSchedule)}
               data-testid="button-schedule"
             >
               <Clock className="mr-2 h-4 w-4" />
               Schedule for Later
             </Button>
             <Button
-              onClick={handleSend}
+              onClick={() => handleSend()}
               disabled={sendNewsletterMutation.isPending || !subject.trim()}
               data-testid="button-send-now"
             >
               <Send className="mr-2 h-4 w-4" />
               {sendNewsletterMutation.isPending 
                 ? "Sending..." 
-                : `Send Now${athletesLoading ? "" : ` (${athletes?.length || 0} athletes)`}`
+                : `Send Now${athletesLoading ? "" : ` (${athleteMessages.length} athletes)`}`
               }
             </Button>
           </div>
@@ -0,0 +1,321 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import type { Athlete, Competition } from "@shared/schema";
+import { AlertTriangle, CheckCircle2, FileText } from "lucide-react";
+
+interface ResultsReviewModalProps {
+  onClose: () => void;
+  competitionId: string;
+  teamId: string;
+}
+
+interface ParsedAthlete {
+  name: string;
+  weightClass: string;
+  school?: string;
+  placement?: number;
+  wins?: number;
+  losses?: number;
+  pins?: number;
+  takedowns?: number;
+}
+
+type MatchType = "exact" | "alias" | "fuzzy" | "ambiguous" | "none";
+
+interface MatchCandidate {
+  athleteId: string;
+  score: number;
+}
+
+interface ReviewData {
+  competition: Competition;
+  roster: Athlete[];
+  rows: {
+    index: number;
+    parsed: ParsedAthlete;
+    athleteId: string | null;
+    matchType: MatchType;
+    confidence: number;
+    candidates: MatchCandidate[];
+    boutCount: number;
+  }[];
+}
+
+interface ReviewRow {
+  index: number;
+  parsed: ParsedAthlete;
+  matchType: MatchType;
+  confidence: number;
+  candidates: MatchCandidate[];
+  boutCount: number;
+  athleteId: string;
+  placement: string;
+  wins: string;
+  losses: string;
+  pins: string;
+  takedowns: string;
+}
+
+const toNumber = (value: string) => {
+  const parsed = parseInt(value, 10);
+  return isNaN(parsed) ? 0 : parsed;
+};
+
+export default function ResultsReviewModal({ onClose, competitionId, teamId }: ResultsReviewModalProps) {
+  const [rows, setRows] = useState<ReviewRow[]>([]);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: review, isLoading } = useQuery<ReviewData>({
+    queryKey: ["/api/competitions", competitionId, "review"],
+    enabled: !!competitionId,
+  });
+
+  useEffect(() => {
+    if (review) {
+      setRows(review.rows.map(row => ({
+        index: row.index,
+        parsed: row.parsed,
+        matchType: row.matchType,
+        confidence: row.confidence,
+        candidates: row.candidates,
+        boutCount: row.boutCount,
+        athleteId: row.athleteId || "",
+        placement: row.parsed.placement?.toString() || "",
+        wins: (row.parsed.wins ?? 0).toString(),
+        losses: (row.parsed.losses ?? 0).toString(),
+        pins: (row.parsed.pins ?? 0).toString(),
+        takedowns: (row.parsed.takedowns ?? 0).toString(),
+      })));
+    }
+  }, [review]);
+
+  const savePerformancesMutation = useMutation({
+    mutationFn: async (performances: any[]) => {
+      const response = await apiRequest("POST", `/api/competitions/${competitionId}/performances`, { performances });
+      return response.json();
+    },
+    onSuccess: (saved: any[]) => {
+      toast({
+        title: "Results Saved!",
+        description: `${saved.length} athlete result${saved.length !== 1 ? 's' : ''} added to season stats.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/teams", teamId, "competitions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/teams", teamId, "stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/competitions", competitionId] });
+      onClose();
+    },
+    onError: (error) => {
+      toast({
+        title: "Save Failed",
+        description: error.message || "Could not save competition results",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateRow = (index: number, updates: Partial<ReviewRow>) => {
+    setRows(current => current.map(row => row.index === index ? { ...row, ...updates } : row));
+  };
+
+  const handleConfirm = () => {
+    const linkedRows = rows.filter(row => row.athleteId);
+    const athleteIds = linkedRows.map(row => row.athleteId);
+    if (new Set(athleteIds).size !== athleteIds.length) {
+      toast({
+        title: "Duplicate Athlete",
+        description: "Each roster athlete can only be linked to one result.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    savePerformancesMutation.mutate(linkedRows.map(row => ({
+      parsedIndex: row.index,
+      athleteId: row.athleteId,
+      placement: row.placement ? toNumber(row.placement) : null,
+      wins: toNumber(row.wins),
+      losses: toNumber(row.losses),
+      pins: toNumber(row.pins),
+      takedowns: toNumber(row.takedowns),
+    })));
+  };
+
+  const linkedCount = rows.filter(row => row.athleteId).length;
+  const flaggedCount = rows.filter(row => row.matchType === "ambiguous" && !row.athleteId).length;
+  const otherSchoolsRemoved = (review?.competition.parsedData as { otherSchoolsRemoved?: number } | null)?.otherSchoolsRemoved;
+  const athleteName = (athleteId: string) => review?.roster.find(athlete => athlete.id === athleteId)?.name;
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Review Results{review ? ` - ${review.competition.name}` : ""}</DialogTitle>
+          <DialogDescription>
+            Confirm which roster athlete each parsed result belongs to. Only linked results are saved to season stats.
+            Records for athletes with parsed bouts are calculated from those bouts.
+            Names you link by hand are remembered for future uploads.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!!otherSchoolsRemoved && (
+          <p className="text-sm text-muted-foreground" data-testid="review-other-schools">
+            {otherSchoolsRemoved} wrestler{otherSchoolsRemoved !== 1 ? 's' : ''} from other schools {otherSchoolsRemoved !== 1 ? 'were' : 'was'} left out.
+            Their bouts against your athletes are kept as opponent results.
+          </p>
+        )}
+
+        {flaggedCount > 0 && (
+          <div className="rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800 flex items-center" data-testid="review-flagged-count">
+            <AlertTriangle className="h-4 w-4 mr-2 shrink-0" />
+            {flaggedCount} result{flaggedCount !== 1 ? 's' : ''} might belong to your roster but need you to pick the athlete.
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="space-y-2">
+            {[...Array(4)].map((_, i) => (
+              <div key={i} className="h-10 bg-muted rounded animate-pulse" />
+            ))}
+          </div>
+        ) : rows.length === 0 ? (
+          <div className="text-center py-8">
+            <FileText className="h-8 w-8 text-muted-foreground mx-auto mb-2" />
+            <p className="text-sm text-muted-foreground">
+              No athlete results were parsed from this PDF.
+            </p>
+          </div>
+        ) : (
+          <div className="border rounded-lg overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-muted/50 text-muted-foreground">
+                <tr>
+                  <th className="text-left p-2 font-medium">Parsed Result</th>
+                  <th className="text-left p-2 font-medium">Roster Athlete</th>
+                  <th className="text-left p-2 font-medium w-16">Place</th>
+                  <th className="text-left p-2 font-medium w-16">W</th>
+                  <th className="text-left p-2 font-medium w-16">L</th>
+                  <th className="text-left p-2 font-medium w-16">Pins</th>
+                  <th className="text-left p-2 font-medium w-16">TD</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr
+                    key={row.index}
+                    className={`border-t ${row.matchType === "ambiguous" && !row.athleteId ? "bg-amber-50" : ""}`}
+                    data-testid={`review-row-${row.index}`}
+                  >
+                    <td className="p-2">
+                      <div className="font-medium">{row.parsed.name}</div>
+                      <div className="text-xs text-muted-foreground flex items-center gap-2">
+                        {row.parsed.weightClass}
+                        {row.parsed.school && <span>• {row.parsed.school}</span>}
+                        {row.boutCount > 0 && (
+                          <span>• {row.boutCount} bout{row.boutCount !== 1 ? 's' : ''}</span>
+                        )}
+                        {(row.matchType === "exact" || row.matchType === "alias") && (
+                          <Badge variant="secondary" className="text-[10px] px-1 py-0">
+                            <CheckCircle2 className="h-3 w-3 mr-1" />
+                            {row.matchType === "alias" ? "Known name" : "Matched"}
+                          </Badge>
+                        )}
+                        {row.matchType === "fuzzy" && (
+                          <Badge variant="secondary" className="text-[10px] px-1 py-0">
+                            <CheckCircle2 className="h-3 w-3 mr-1" />
+                            Likely match ({Math.round(row.confidence * 100)}%)
+                          </Badge>
+                        )}
+                        {row.matchType === "ambiguous" && (
+                          <Badge variant="outline" className="text-[10px] px-1 py-0 border-amber-300 text-amber-700">
+                            <AlertTriangle className="h-3 w-3 mr-1" />
+                            Check match
+                          </Badge>
+                        )}
+                      </div>
+                    </td>
+                    <td className="p-2">
+                      <select
+                        className="flex h-9 w-full rounded-md border border-input bg-background px-2 py-1 text-sm"
+                        value={row.athleteId}
+                        onChange={(e) => updateRow(row.index, { athleteId: e.target.value })}
+                        data-testid={`select-review-athlete-${row.index}`}
+                      >
+                        <option value="">Not on our roster (skip)</option>
+                        {row.candidates.length > 0 && (
+                          <optgroup label="Suggested">
+                            {row.candidates.map((candidate) => (
+                              <option key={candidate.athleteId} value={candidate.athleteId}>
+                                {athleteName(candidate.athleteId)} ({Math.round(candidate.score * 100)}%)
+                              </option>
+                            ))}
+                          </optgroup>
+                        )}
+                        <optgroup label="Roster">
+                          {review?.roster
+                            .filter((athlete) => !row.candidates.some(candidate => candidate.athleteId === athlete.id))
+                            .map((athlete) => (
+                              <option key={athlete.id} value={athlete.id}>
+                                {athlete.name} ({athlete.weightClass})
+                              </option>
+                            ))}
+                        </optgroup>
+                      </select>
+                    </td>
+                    {(["placement", "wins", "losses", "pins", "takedowns"] as const).map((field) => (
+                      <td key={field} className="p-2">
+                        <Input
+                          type="number"
+                          min={0}
+                          value={row[field]}
+                          onChange={(e) => updateRow(row.index, { [field]: e.target.value })}
+                          className="h-9 px-2"
+                          disabled={!row.athleteId || (row.boutCount > 0 && ["wins", "losses", "pins"].includes(field))}
+                          data-testid={`input-review-${field}-${row.index}`}
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onClose}
+            data-testid="button-cancel-review"
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleConfirm}
+            disabled={savePerformancesMutation.isPending || isLoading}
+            data-testid="button-confirm-review"
+          >
+            {savePerformancesMutation.isPending
+              ? "Saving..."
+              : `Save ${linkedCount} Result${linkedCount !== 1 ? 's' : ''}`
+            }
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,187 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatScheduledTime, toDateTimeLocalValue } from "@/lib/scheduleUtils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import type { Newsletter } from "@shared/schema";
+import { AlertCircle, CalendarClock, Clock, X } from "lucide-react";
+
+interface ScheduledNewslettersProps {
+  teamId: string;
+}
+
+const statusBadges: Record<string, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  scheduled: { label: "Scheduled", variant: "default" },
+  sending: { label: "Sending", variant: "secondary" },
+  failed: { label: "Failed", variant: "destructive" },
+};
+
+export default function ScheduledNewsletters({ teamId }: ScheduledNewslettersProps) {
+  const [reschedulingId, setReschedulingId] = useState<string>("");
+  const [rescheduleAt, setRescheduleAt] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: newsletters } = useQuery<Newsletter[]>({
+    queryKey: ["/api/teams", teamId, "newsletters"],
+    enabled: !!teamId,
+  });
+
+  const pending = (newsletters || [])
+    .filter(newsletter => newsletter.status in statusBadges)
+    .sort((a, b) => new Date(a.scheduledFor || 0).getTime() - new Date(b.scheduledFor || 0).getTime());
+
+  const scheduleMutation = useMutation({
+    mutationFn: async ({ id, scheduledFor }: { id: string; scheduledFor: string }) => {
+      return await apiRequest("PUT", `/api/newsletters/${id}/schedule`, {
+        scheduledFor: new Date(scheduledFor).toISOString(),
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Newsletter Rescheduled",
+        description: "The newsletter will be sent at the new time.",
+      });
+      setReschedulingId("");
+      queryClient.invalidateQueries({ queryKey: ["/api/teams", teamId, "newsletters"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to reschedule newsletter",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/newsletters/${id}/schedule`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Schedule Cancelled",
+        description: "The newsletter was moved back to drafts and will not be sent.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/teams", teamId, "newsletters"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to cancel scheduled newsletter",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (pending.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <CalendarClock className="mr-2 h-5 w-5" />
+          Scheduled Newsletters
+        </CardTitle>
+        <CardDescription>
+          Newsletters waiting to go out, and any scheduled sends that need attention
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {pending.map((newsletter) => {
+          const badge = statusBadges[newsletter.status];
+          return (
+            <div key={newsletter.id} className="p-4 border rounded-lg space-y-3" data-testid={`scheduled-${newsletter.id}`}>
+              <div className="flex items-start justify-between">
+                <div>
+                  <div className="flex items-center space-x-2">
+                    <h4 className="font-medium">{newsletter.subject}</h4>
+                    <Badge variant={badge.variant}>{badge.label}</Badge>
+                  </div>
+                  {newsletter.scheduledFor && (
+                    <p className="text-sm text-muted-foreground flex items-center mt-1">
+                      <Clock className="h-3 w-3 mr-1" />
+                      {formatScheduledTime(newsletter.scheduledFor)}
+                    </p>
+                  )}
+                  {newsletter.status === "failed" && newsletter.sendError && (
+                    <p className="text-sm text-destructive flex items-center mt-1">
+                      <AlertCircle className="h-3 w-3 mr-1" />
+                      {newsletter.sendError}
+                    </p>
+                  )}
+                </div>
+                {newsletter.status !== "sending" && (
+                  <div className="flex space-x-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => {
+                        setReschedulingId(newsletter.id);
+                        setRescheduleAt(toDateTimeLocalValue(
+                          newsletter.scheduledFor && new Date(newsletter.scheduledFor) > new Date()
+                            ? new Date(newsletter.scheduledFor)
+                            : new Date(Date.now() + 60 * 60 * 1000)
+                        ));
+                      }}
+                      data-testid={`button-reschedule-${newsletter.id}`}
+                    >
+                      <CalendarClock className="mr-1 h-3 w-3" />
+                      Reschedule
+                    </Button>
+                    {newsletter.status === "scheduled" && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => {
+                          if (confirm("Cancel this scheduled newsletter?")) {
+                            cancelMutation.mutate(newsletter.id);
+                          }
+                        }}
+                        disabled={cancelMutation.isPending}
+                        data-testid={`button-cancel-schedule-${newsletter.id}`}
+                      >
+                        <X className="mr-1 h-3 w-3" />
+                        Cancel
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              {reschedulingId === newsletter.id && (
+                <div className="flex items-center space-x-2">
+                  <Input
+                    type="datetime-local"
+                    value={rescheduleAt}
+                    min={toDateTimeLocalValue(new Date())}
+                    onChange={(e) => setRescheduleAt(e.target.value)}
+                    className="w-auto"
+                    data-testid={`input-reschedule-${newsletter.id}`}
+                  />
+                  <Button
+                    size="sm"
+                    onClick={() => scheduleMutation.mutate({ id: newsletter.id, scheduledFor: rescheduleAt })}
+                    disabled={!rescheduleAt || scheduleMutation.isPending}
+                    data-testid={`button-confirm-reschedule-${newsletter.id}`}
+                  >
+                    {scheduleMutation.isPending ? "Saving..." : "Save"}
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => setReschedulingId("")}>
+                    Close
+                  </Button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
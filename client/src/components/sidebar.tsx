@@ -1,4 +1,5 @@
 import { Link, useLocation } from "wouter";
+import { useAuth } from "@/hooks/useAuth";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { 
@@ -9,6 +10,7 @@ import {
   Upload, 
   Newspaper, 
   History,
+  Shield,
   Volleyball,
   User,
   MoreVertical
@@ -19,13 +21,14 @@ interface SidebarProps {
     id: string;
     name: string;
     school: string;
-    logoUrl?: string;
-    primaryColor?: string;
+    logoUrl?: string | null;
+    primaryColor?: string | null;
   };
 }
 
 export default function Sidebar({ currentTeam }: SidebarProps) {
   const [location] = useLocation();
+  const { user } = useAuth();
 
   const navigation = [
     { 
@@ -47,7 +50,7 @@ export default function Sidebar({ currentTeam }: SidebarProps) {
       current: location === "/roster"
     },
     { 
-      name: "Email Management", 
+      name: "Contacts", 
       href: "/emails", 
       icon: Mail,
       current: location === "/emails"
@@ -72,6 +75,15 @@ export default function Sidebar({ currentTeam }: SidebarProps) {
     },
   ];
 
+  if (user?.role === "system_admin" || user?.impersonator) {
+    navigation.push({
+      name: "System Admin",
+      href: "/admin",
+      icon: Shield,
+      current: location === "/admin",
+    });
+  }
+
   const handleLogout = () => {
     window.location.href = "/api/logout";
   };
@@ -0,0 +1,194 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useTeamCoaches } from "@/hooks/useTeamRole";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Mail, UserMinus, UserPlus, Users, X } from "lucide-react";
+
+interface TeamCoachesProps {
+  teamId: string;
+}
+
+const roleLabels: Record<string, string> = {
+  primary_coach: "Primary Coach",
+  super_user_coach: "Assistant Coach",
+};
+
+export default function TeamCoaches({ teamId }: TeamCoachesProps) {
+  const [inviteEmail, setInviteEmail] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useTeamCoaches(teamId);
+  const isPrimaryCoach = data?.role === "primary_coach";
+
+  const invalidateCoaches = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/teams", teamId, "coaches"] });
+  };
+
+  const inviteMutation = useMutation({
+    mutationFn: async (email: string) => {
+      const response = await apiRequest("POST", `/api/teams/${teamId}/invitations`, { email });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Invitation Sent!",
+        description: `We emailed an invitation link to ${inviteEmail}.`,
+      });
+      setInviteEmail("");
+      invalidateCoaches();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to send invitation",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (invitationId: string) => {
+      return await apiRequest("DELETE", `/api/invitations/${invitationId}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Invitation Revoked",
+        description: "The invitation link no longer works.",
+      });
+      invalidateCoaches();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to revoke invitation",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeCoachMutation = useMutation({
+    mutationFn: async (coachId: string) => {
+      return await apiRequest("DELETE", `/api/teams/${teamId}/coaches/${coachId}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Coach Removed",
+        description: "They no longer have access to this team.",
+      });
+      invalidateCoaches();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to remove coach",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const coachName = (coach: { firstName: string | null; lastName: string | null; email: string | null }) =>
+    [coach.firstName, coach.lastName].filter(Boolean).join(" ") || coach.email || "Unnamed coach";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Users className="mr-2 h-5 w-5" />
+          Coaching Staff
+        </CardTitle>
+        <CardDescription>
+          Assistant coaches can manage the roster, upload results and draft newsletters.
+          Only the primary coach can change branding or remove athletes.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="h-16 bg-muted rounded animate-pulse" />
+        ) : (
+          <div className="space-y-2">
+            {data?.coaches.map((coach) => (
+              <div key={coach.coachId} className="flex items-center justify-between p-3 border rounded-lg" data-testid={`coach-${coach.coachId}`}>
+                <div>
+                  <div className="font-medium text-sm">{coachName(coach)}</div>
+                  {coach.email && <div className="text-xs text-muted-foreground">{coach.email}</div>}
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Badge variant={coach.role === "primary_coach" ? "default" : "secondary"}>
+                    {roleLabels[coach.role]}
+                  </Badge>
+                  {isPrimaryCoach && coach.role !== "primary_coach" && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => {
+                        if (confirm(`Remove ${coachName(coach)} from the coaching staff?`)) {
+                          removeCoachMutation.mutate(coach.coachId);
+                        }
+                      }}
+                      data-testid={`button-remove-coach-${coach.coachId}`}
+                    >
+                      <UserMinus className="h-4 w-4 text-destructive" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+
+            {data?.invitations.map((invitation) => (
+              <div key={invitation.id} className="flex items-center justify-between p-3 border border-dashed rounded-lg" data-testid={`invitation-${invitation.id}`}>
+                <div className="flex items-center text-sm">
+                  <Mail className="h-4 w-4 mr-2 text-muted-foreground" />
+                  <span>{invitation.email}</span>
+                  <span className="text-xs text-muted-foreground ml-2">
+                    Invited, expires {new Date(invitation.expiresAt).toLocaleDateString()}
+                  </span>
+                </div>
+                {isPrimaryCoach && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => revokeMutation.mutate(invitation.id)}
+                    disabled={revokeMutation.isPending}
+                    data-testid={`button-revoke-invitation-${invitation.id}`}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {isPrimaryCoach && (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (inviteEmail.trim()) {
+                inviteMutation.mutate(inviteEmail.trim());
+              }
+            }}
+            className="flex space-x-2"
+          >
+            <Input
+              type="email"
+              value={inviteEmail}
+              onChange={(e) => setInviteEmail(e.target.value)}
+              placeholder="assistant@school.edu"
+              data-testid="input-invite-email"
+            />
+            <Button type="submit" disabled={!inviteEmail.trim() || inviteMutation.isPending} data-testid="button-invite-coach">
+              <UserPlus className="mr-2 h-4 w-4" />
+              {inviteMutation.isPending ? "Sending..." : "Invite Coach"}
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -13,18 +13,27 @@ import {
   DialogHeader, 
   DialogTitle 
 } from "@/components/ui/dialog";
+import ColumnMapping, { type SpreadsheetPreview } from "@/components/column-mapping";
+import type { Competition, ImportColumns } from "@shared/schema";
 import { CloudUpload, FileText, X } from "lucide-react";
 
 interface UploadModalProps {
   onClose: () => void;
+  onUploaded?: (competition: Competition) => void;
   teamId: string;
 }
 
-export default function UploadModal({ onClose, teamId }: UploadModalProps) {
+const isSpreadsheetFile = (file: File) => /\.(csv|xlsx)$/i.test(file.name);
+const isResultsFile = (file: File) =>
+  file.type === "application/pdf" || /\.pdf$/i.test(file.name) || isSpreadsheetFile(file);
+
+export default function UploadModal({ onClose, onUploaded, teamId }: UploadModalProps) {
   const [file, setFile] = useState<File | null>(null);
   const [competitionName, setCompetitionName] = useState("");
   const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
   const [dragActive, setDragActive] = useState(false);
+  const [preview, setPreview] = useState<SpreadsheetPreview | null>(null);
+  const [columns, setColumns] = useState<Partial<ImportColumns>>({});
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -42,16 +51,17 @@ export default function UploadModal({ onClose, teamId }: UploadModalProps) {
         throw new Error(`${response.status}: ${errorText}`);
       }
       
-      return response.json();
+      return response.json() as Promise<Competition>;
     },
-    onSuccess: () => {
+    onSuccess: (competition) => {
       toast({
         title: "Success",
-        description: "Competition data uploaded and processed successfully!",
+        description: "Competition data uploaded. Review the parsed results to add them to season stats.",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/teams", teamId, "competitions"] });
       queryClient.invalidateQueries({ queryKey: ["/api/teams", teamId, "stats"] });
       onClose();
+      onUploaded?.(competition);
     },
     onError: (error) => {
       toast({
@@ -62,6 +72,46 @@ export default function UploadModal({ onClose, teamId }: UploadModalProps) {
     },
   });
 
+  // Spreadsheets are read once up front so the coach can map their columns
+  const previewMutation = useMutation({
+    mutationFn: async (spreadsheet: File) => {
+      const formData = new FormData();
+      formData.append("file", spreadsheet);
+      const response = await fetch(`/api/teams/${teamId}/competitions/preview`, {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`${response.status}: ${errorText}`);
+      }
+
+      return response.json() as Promise<SpreadsheetPreview>;
+    },
+    onSuccess: (data) => {
+      setPreview(data);
+    },
+    onError: (error) => {
+      toast({
+        title: "Couldn't Read Spreadsheet",
+        description: error.message || "Failed to read the spreadsheet",
+        variant: "destructive",
+      });
+      removeFile();
+    },
+  });
+
+  const chooseFile = (selected: File) => {
+    setFile(selected);
+    setPreview(null);
+    setColumns({});
+    if (isSpreadsheetFile(selected)) {
+      previewMutation.mutate(selected);
+    }
+  };
+
   const handleDrag = (e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
@@ -78,14 +128,14 @@ export default function UploadModal({ onClose, teamId }: UploadModalProps) {
     setDragActive(false);
     
     const files = Array.from(e.dataTransfer.files);
-    const pdfFile = files.find(file => file.type === "application/pdf");
+    const resultsFile = files.find(isResultsFile);
     
-    if (pdfFile) {
-      setFile(pdfFile);
+    if (resultsFile) {
+      chooseFile(resultsFile);
     } else {
       toast({
         title: "Invalid File",
-        description: "Please select a PDF file",
+        description: "Please select a PDF, CSV or XLSX file",
         variant: "destructive",
       });
     }
@@ -94,12 +144,12 @@ export default function UploadModal({ onClose, teamId }: UploadModalProps) {
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0];
     if (selectedFile) {
-      if (selectedFile.type === "application/pdf") {
-        setFile(selectedFile);
+      if (isResultsFile(selectedFile)) {
+        chooseFile(selectedFile);
       } else {
         toast({
           title: "Invalid File",
-          description: "Please select a PDF file",
+          description: "Please select a PDF, CSV or XLSX file",
           variant: "destructive",
         });
       }
@@ -112,7 +162,7 @@ export default function UploadModal({ onClose, teamId }: UploadModalProps) {
     if (!file) {
       toast({
         title: "No File Selected",
-        description: "Please select a PDF file to upload",
+        description: "Please select a results file to upload",
         variant: "destructive",
       });
       return;
@@ -127,16 +177,30 @@ export default function UploadModal({ onClose, teamId }: UploadModalProps) {
       return;
     }
 
+    if (preview && !(columns.name && columns.weight && (columns.result || columns.placement))) {
+      toast({
+        title: "Map Your Columns",
+        description: "Choose the name and weight columns, plus a result or placement column",
+        variant: "destructive",
+      });
+      return;
+    }
+
     const formData = new FormData();
-    formData.append("pdf", file);
+    formData.append("file", file);
     formData.append("name", competitionName.trim());
     formData.append("date", date);
+    if (preview) {
+      formData.append("columns", JSON.stringify(columns));
+    }
     
     uploadMutation.mutate(formData);
   };
 
   const removeFile = () => {
     setFile(null);
+    setPreview(null);
+    setColumns({});
     if (fileInputRef.current) {
       fileInputRef.current.value = "";
     }
@@ -144,11 +208,11 @@ export default function UploadModal({ onClose, teamId }: UploadModalProps) {
 
   return (
     <Dialog open onOpenChange={onClose}>
-      <DialogContent className="sm:max-w-lg">
+      <DialogContent className={`${preview ? "sm:max-w-2xl" : "sm:max-w-lg"} max-h-[90vh] overflow-y-auto`}>
         <DialogHeader>
           <DialogTitle>Upload Competition Results</DialogTitle>
           <DialogDescription>
-            Upload PDF files containing wrestling competition results (max 10MB)
+            Upload a results PDF, or a CSV or XLSX spreadsheet of bouts (max 10MB)
           </DialogDescription>
         </DialogHeader>
         
@@ -179,7 +243,7 @@ export default function UploadModal({ onClose, teamId }: UploadModalProps) {
           </div>
 
           <div className="space-y-2">
-            <Label>PDF File</Label>
+            <Label>Results File</Label>
             <div
               className={`border-2 border-dashed rounded-lg p-8 text-center transition-colors ${
                 dragActive 
@@ -216,7 +280,7 @@ export default function UploadModal({ onClose, teamId }: UploadModalProps) {
                   <CloudUpload className="h-12 w-12 text-muted-foreground mx-auto" />
                   <div>
                     <p className="text-sm text-muted-foreground mb-2">
-                      Drag and drop your PDF file here, or
+                      Drag and drop your results file here, or
                     </p>
                     <Button
                       type="button"
@@ -228,7 +292,7 @@ export default function UploadModal({ onClose, teamId }: UploadModalProps) {
                     </Button>
                   </div>
                   <p className="text-xs text-muted-foreground">
-                    PDF files only, max 10MB
+                    PDF, CSV or XLSX, max 10MB
                   </p>
                 </div>
               )}
@@ -236,13 +300,26 @@ export default function UploadModal({ onClose, teamId }: UploadModalProps) {
             <input
               ref={fileInputRef}
               type="file"
-              accept=".pdf"
+              accept=".pdf,.csv,.xlsx"
               onChange={handleFileSelect}
               className="hidden"
               data-testid="input-file"
             />
           </div>
 
+          {previewMutation.isPending && (
+            <p className="text-sm text-muted-foreground">Reading spreadsheet...</p>
+          )}
+
+          {preview && (
+            <ColumnMapping
+              teamId={teamId}
+              preview={preview}
+              columns={columns}
+              onColumnsChange={setColumns}
+            />
+          )}
+
           <DialogFooter>
             <Button
               type="button"
@@ -254,7 +331,7 @@ export default function UploadModal({ onClose, teamId }: UploadModalProps) {
             </Button>
             <Button
               type="submit"
-              disabled={uploadMutation.isPending || !file}
+              disabled={uploadMutation.isPending || previewMutation.isPending || !file}
               data-testid="button-upload"
             >
               {uploadMutation.isPending ? "Uploading..." : "Upload & Process"}
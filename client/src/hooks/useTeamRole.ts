@@ -0,0 +1,31 @@
+import { useQuery } from "@tanstack/react-query";
+import type { TeamInvitation, TeamRole } from "@shared/schema";
+
+export interface TeamCoachesData {
+  coaches: {
+    coachId: string;
+    role: TeamRole;
+    email: string | null;
+    firstName: string | null;
+    lastName: string | null;
+  }[];
+  invitations: Omit<TeamInvitation, "token">[];
+  role: TeamRole;
+}
+
+export function useTeamCoaches(teamId: string) {
+  return useQuery<TeamCoachesData>({
+    queryKey: ["/api/teams", teamId, "coaches"],
+    enabled: !!teamId,
+  });
+}
+
+export function useTeamRole(teamId: string) {
+  const { data, isLoading } = useTeamCoaches(teamId);
+
+  return {
+    role: data?.role,
+    isPrimaryCoach: data?.role === "primary_coach",
+    isLoading,
+  };
+}
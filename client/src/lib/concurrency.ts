@@ -0,0 +1,16 @@
+// Runs worker over items with at most `limit` in flight at once. Failures are
+// left to the worker to handle so one bad item doesn't stop the rest.
+export async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  const lanes = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const item = items[next++];
+      await worker(item);
+    }
+  });
+  await Promise.all(lanes);
+}
@@ -0,0 +1,16 @@
+import type { Match, MatchResultType } from "@shared/schema";
+
+export const resultTypeLabels: Record<MatchResultType, string> = {
+  fall: "Fall",
+  tech_fall: "Tech Fall",
+  major_decision: "Major Decision",
+  decision: "Decision",
+  forfeit: "Forfeit",
+  injury_default: "Injury Default",
+  disqualification: "DQ",
+};
+
+export function formatMatchResult(match: Pick<Match, "resultType" | "score" | "fallTime">): string {
+  const detail = match.resultType === "fall" ? match.fallTime : match.score;
+  return `${resultTypeLabels[match.resultType]}${detail ? ` ${detail}` : ""}`;
+}
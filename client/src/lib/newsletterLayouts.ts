@@ -0,0 +1,25 @@
+import type { NewsletterLayout } from "@shared/schema";
+
+// Names and one-line pitches for the layouts rendered by the server's newsletter templates
+export const newsletterLayoutOptions: Record<NewsletterLayout, { label: string; description: string }> = {
+  weekly_recap: {
+    label: "Weekly Recap",
+    description: "Coach's message, athlete highlights and a support link",
+  },
+  tournament_spotlight: {
+    label: "Tournament Spotlight",
+    description: "A tournament recap that features the top performance first",
+  },
+  senior_night: {
+    label: "Senior Night",
+    description: "A tribute to the graduating class",
+  },
+  banquet: {
+    label: "Banquet",
+    description: "End-of-season awards and thank-yous",
+  },
+  fundraiser: {
+    label: "Fundraiser Push",
+    description: "Leads with the donation and team store links",
+  },
+};
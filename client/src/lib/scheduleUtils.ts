@@ -0,0 +1,26 @@
+// Formats a date for an <input type="datetime-local"> in the browser's timezone
+export function toDateTimeLocalValue(date: Date): string {
+  const offsetMs = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+}
+
+// Default send time: the coming Sunday at 6pm, after a weekend tournament wraps up
+export function nextSundayEvening(from = new Date()): Date {
+  const date = new Date(from);
+  date.setDate(date.getDate() + ((7 - date.getDay()) % 7));
+  date.setHours(18, 0, 0, 0);
+  if (date.getTime() <= from.getTime()) {
+    date.setDate(date.getDate() + 7);
+  }
+  return date;
+}
+
+export function formatScheduledTime(value: string | Date): string {
+  return new Date(value).toLocaleString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+}
@@ -0,0 +1,100 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useLocation, useParams } from "wouter";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { AlertCircle, UserPlus } from "lucide-react";
+
+interface InvitationDetails {
+  teamName?: string;
+  school?: string;
+  email: string;
+  expiresAt: string;
+  acceptedAt: string | null;
+}
+
+export default function AcceptInvitation() {
+  const { token } = useParams<{ token: string }>();
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: invitation, isLoading, error } = useQuery<InvitationDetails>({
+    queryKey: ["/api/invitations", token],
+    enabled: !!token,
+    retry: false,
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/invitations/${token}/accept`, {});
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Invitation Accepted!",
+        description: `You're now on the coaching staff for ${invitation?.teamName}.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/teams"] });
+      setLocation("/dashboard");
+    },
+    onError: (error) => {
+      toast({
+        title: "Could Not Accept",
+        description: error.message || "Failed to accept invitation",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const expired = invitation && new Date(invitation.expiresAt) < new Date();
+  const unavailable = !!error || invitation?.acceptedAt || expired;
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-background p-6">
+      <Card className="max-w-md w-full">
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <UserPlus className="mr-2 h-5 w-5" />
+            Coaching Invitation
+          </CardTitle>
+          <CardDescription>
+            {invitation?.teamName
+              ? `Join ${invitation.teamName}${invitation.school ? ` (${invitation.school})` : ""} as an assistant coach`
+              : "Join a team's coaching staff"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLoading ? (
+            <div className="h-16 bg-muted rounded animate-pulse" />
+          ) : unavailable ? (
+            <div className="flex items-start text-sm text-destructive">
+              <AlertCircle className="h-4 w-4 mr-2 mt-0.5" />
+              {error
+                ? "This invitation link is not valid."
+                : invitation?.acceptedAt
+                ? "This invitation has already been used."
+                : "This invitation has expired. Ask the primary coach to send a new one."}
+            </div>
+          ) : (
+            <>
+              <p className="text-sm text-muted-foreground">
+                This invitation was sent to <span className="font-medium text-foreground">{invitation?.email}</span>.
+                Make sure you're signed in with that address.
+              </p>
+              <Button
+                className="w-full"
+                onClick={() => acceptMutation.mutate()}
+                disabled={acceptMutation.isPending}
+                data-testid="button-accept-invitation"
+              >
+                {acceptMutation.isPending ? "Accepting..." : "Accept Invitation"}
+              </Button>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,383 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import type { AdminAuditEntry, EmailDeliveryStatus, Team, User } from "@shared/schema";
+import { Activity, Building2, Eye, Mail, Search, Shield, Users } from "lucide-react";
+
+type AdminUser = Pick<User, "id" | "email" | "firstName" | "lastName" | "role"> & {
+  createdAt: string | null;
+  teamCount: number;
+};
+
+type AdminTeam = Team & {
+  primaryCoachEmail: string | null;
+  athleteCount: number;
+};
+
+interface PlatformStats {
+  days: number;
+  newslettersSent: number;
+  deliveries: Record<EmailDeliveryStatus, number>;
+  daily: { day: string; delivered: number; failed: number }[];
+}
+
+const auditActionLabels: Record<AdminAuditEntry["action"], string> = {
+  deactivate_team: "Deactivated team",
+  activate_team: "Reactivated team",
+  reassign_primary_coach: "Reassigned primary coach",
+  impersonate_start: "Started impersonating",
+  impersonate_stop: "Stopped impersonating",
+  impersonated_request: "Acted as user",
+};
+
+const selectClassName = "flex h-9 rounded-md border border-input bg-background px-2 py-1 text-sm";
+
+export default function Admin() {
+  const [searchTerm, setSearchTerm] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: users } = useQuery<AdminUser[]>({ queryKey: ["/api/admin/users"] });
+  const { data: teams } = useQuery<AdminTeam[]>({ queryKey: ["/api/admin/teams"] });
+  const { data: stats } = useQuery<PlatformStats>({ queryKey: ["/api/admin/stats"] });
+  const { data: auditLog } = useQuery<AdminAuditEntry[]>({ queryKey: ["/api/admin/audit-log"] });
+
+  const userLabel = (userId: string | null) => {
+    const user = users?.find(u => u.id === userId);
+    return user?.email || userId || "";
+  };
+  const teamLabel = (teamId: string | null) => teams?.find(t => t.id === teamId)?.name || teamId || "";
+
+  const onError = (fallback: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const invalidateAdmin = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/teams"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/audit-log"] });
+  };
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ teamId, isActive }: { teamId: string; isActive: boolean }) => {
+      return await apiRequest("PUT", `/api/admin/teams/${teamId}/status`, { isActive });
+    },
+    onSuccess: (_data, { isActive }) => {
+      toast({
+        title: isActive ? "Team Reactivated" : "Team Deactivated",
+        description: isActive
+          ? "Coaches can access the team again."
+          : "Coaches can no longer access the team and its newsletters won't send.",
+      });
+      invalidateAdmin();
+    },
+    onError: onError("Failed to update team status"),
+  });
+
+  const reassignMutation = useMutation({
+    mutationFn: async ({ teamId, coachId }: { teamId: string; coachId: string }) => {
+      return await apiRequest("PUT", `/api/admin/teams/${teamId}/primary-coach`, { coachId });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Primary Coach Reassigned",
+        description: "The previous primary coach remains on staff as an assistant.",
+      });
+      invalidateAdmin();
+    },
+    onError: onError("Failed to reassign primary coach"),
+  });
+
+  const impersonateMutation = useMutation({
+    mutationFn: async ({ userId, reason }: { userId: string; reason: string }) => {
+      return await apiRequest("POST", `/api/admin/impersonate/${userId}`, { reason });
+    },
+    onSuccess: () => {
+      queryClient.clear();
+      window.location.href = "/dashboard";
+    },
+    onError: onError("Failed to start impersonation"),
+  });
+
+  const handleImpersonate = (user: AdminUser) => {
+    const reason = prompt(`Why are you signing in as ${user.email}? This is recorded in the audit log.`);
+    if (reason) {
+      impersonateMutation.mutate({ userId: user.id, reason });
+    }
+  };
+
+  const search = searchTerm.toLowerCase();
+  const filteredUsers = (users || []).filter(user =>
+    [user.email, user.firstName, user.lastName].some(value => value?.toLowerCase().includes(search))
+  );
+  const filteredTeams = (teams || []).filter(team =>
+    [team.name, team.school, team.primaryCoachEmail].some(value => value?.toLowerCase().includes(search))
+  );
+  const coaches = (users || []).filter(user => user.role !== "system_admin");
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="bg-card border-b border-border px-6 py-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-semibold text-foreground flex items-center">
+              <Shield className="mr-2 h-6 w-6" />
+              System Admin
+            </h1>
+            <p className="text-sm text-muted-foreground">
+              Manage every team and coach on this instance
+            </p>
+          </div>
+          <Button variant="outline" onClick={() => window.location.href = '/dashboard'} data-testid="button-back-to-app">
+            Back to App
+          </Button>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto p-6 space-y-6">
+        {/* Platform send volume */}
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+          {[
+            { label: "Teams", value: teams?.length ?? 0, icon: Building2 },
+            { label: "Users", value: users?.length ?? 0, icon: Users },
+            { label: `Newsletters (${stats?.days ?? 30}d)`, value: stats?.newslettersSent ?? 0, icon: Mail },
+            {
+              label: `Emails Delivered (${stats?.days ?? 30}d)`,
+              value: stats?.deliveries.delivered ?? 0,
+              icon: Activity,
+            },
+          ].map(({ label, value, icon: Icon }) => (
+            <Card key={label}>
+              <CardContent className="p-6">
+                <div className="flex items-center">
+                  <div className="p-2 bg-primary/10 rounded-lg">
+                    <Icon className="h-6 w-6 text-primary" />
+                  </div>
+                  <div className="ml-4">
+                    <p className="text-sm font-medium text-muted-foreground">{label}</p>
+                    <p className="text-2xl font-semibold text-foreground">{value}</p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search teams and users..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="pl-10"
+            data-testid="input-admin-search"
+          />
+        </div>
+
+        <Tabs defaultValue="teams">
+          <TabsList>
+            <TabsTrigger value="teams">Teams</TabsTrigger>
+            <TabsTrigger value="users">Users</TabsTrigger>
+            <TabsTrigger value="activity">Activity</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="teams">
+            <Card>
+              <CardContent className="p-0">
+                <table className="w-full text-sm">
+                  <thead className="bg-muted/50 text-muted-foreground">
+                    <tr>
+                      <th className="text-left p-3 font-medium">Team</th>
+                      <th className="text-left p-3 font-medium">Athletes</th>
+                      <th className="text-left p-3 font-medium">Primary Coach</th>
+                      <th className="text-right p-3 font-medium">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {filteredTeams.map((team) => (
+                      <tr key={team.id} className="border-t" data-testid={`admin-team-${team.id}`}>
+                        <td className="p-3">
+                          <div className="font-medium">{team.name}</div>
+                          <div className="text-xs text-muted-foreground">{team.school}</div>
+                        </td>
+                        <td className="p-3">{team.athleteCount}</td>
+                        <td className="p-3">
+                          <select
+                            className={selectClassName}
+                            value={team.primaryCoachId || ""}
+                            onChange={(e) => {
+                              const coach = coaches.find(c => c.id === e.target.value);
+                              if (coach && confirm(`Make ${coach.email} the primary coach of ${team.name}?`)) {
+                                reassignMutation.mutate({ teamId: team.id, coachId: coach.id });
+                              }
+                            }}
+                            disabled={reassignMutation.isPending}
+                            data-testid={`select-primary-coach-${team.id}`}
+                          >
+                            {!team.primaryCoachId && <option value="">No primary coach</option>}
+                            {coaches.map((coach) => (
+                              <option key={coach.id} value={coach.id}>{coach.email}</option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="p-3 text-right">
+                          <div className="flex items-center justify-end space-x-2">
+                            <Badge variant={team.isActive ? "default" : "secondary"}>
+                              {team.isActive ? "Active" : "Deactivated"}
+                            </Badge>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => {
+                                if (!team.isActive || confirm(`Deactivate ${team.name}? Its coaches will lose access.`)) {
+                                  statusMutation.mutate({ teamId: team.id, isActive: !team.isActive });
+                                }
+                              }}
+                              disabled={statusMutation.isPending}
+                              data-testid={`button-toggle-team-${team.id}`}
+                            >
+                              {team.isActive ? "Deactivate" : "Reactivate"}
+                            </Button>
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="users">
+            <Card>
+              <CardContent className="p-0">
+                <table className="w-full text-sm">
+                  <thead className="bg-muted/50 text-muted-foreground">
+                    <tr>
+                      <th className="text-left p-3 font-medium">User</th>
+                      <th className="text-left p-3 font-medium">Role</th>
+                      <th className="text-left p-3 font-medium">Teams</th>
+                      <th className="text-right p-3 font-medium" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {filteredUsers.map((user) => (
+                      <tr key={user.id} className="border-t" data-testid={`admin-user-${user.id}`}>
+                        <td className="p-3">
+                          <div className="font-medium">
+                            {[user.firstName, user.lastName].filter(Boolean).join(" ") || user.email}
+                          </div>
+                          <div className="text-xs text-muted-foreground">{user.email}</div>
+                        </td>
+                        <td className="p-3">
+                          <Badge variant={user.role === "system_admin" ? "default" : "secondary"}>
+                            {user.role === "system_admin" ? "System Admin" : "Coach"}
+                          </Badge>
+                        </td>
+                        <td className="p-3">{user.teamCount}</td>
+                        <td className="p-3 text-right">
+                          {user.role !== "system_admin" && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleImpersonate(user)}
+                              disabled={impersonateMutation.isPending}
+                              data-testid={`button-impersonate-${user.id}`}
+                            >
+                              <Eye className="mr-1 h-3 w-3" />
+                              View as
+                            </Button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="activity" className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Send Volume</CardTitle>
+                <CardDescription>
+                  Email deliveries across all teams over the last {stats?.days ?? 30} days
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex flex-wrap gap-2">
+                  {stats && (Object.entries(stats.deliveries) as [EmailDeliveryStatus, number][]).map(([status, total]) => (
+                    <Badge key={status} variant="outline" className="capitalize">
+                      {status}: {total}
+                    </Badge>
+                  ))}
+                </div>
+                {stats?.daily.length ? (
+                  <div className="space-y-1">
+                    {stats.daily.map((row) => {
+                      const max = Math.max(...stats.daily.map(d => d.delivered + d.failed), 1);
+                      return (
+                        <div key={row.day} className="flex items-center text-xs">
+                          <span className="w-24 text-muted-foreground">{row.day}</span>
+                          <div className="flex-1 flex h-3 bg-muted rounded overflow-hidden">
+                            <div className="bg-primary" style={{ width: `${(row.delivered / max) * 100}%` }} />
+                            <div className="bg-destructive" style={{ width: `${(row.failed / max) * 100}%` }} />
+                          </div>
+                          <span className="w-24 text-right">{row.delivered} / {row.failed} failed</span>
+                        </div>
+                      );
+                    })}
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">No emails sent in this period.</p>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Audit Log</CardTitle>
+                <CardDescription>Every admin action, including anything done while viewing as a coach</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {auditLog?.length ? auditLog.map((entry) => {
+                  const details = (entry.details || {}) as Record<string, any>;
+                  return (
+                    <div key={entry.id} className="flex items-start justify-between p-3 border rounded text-sm" data-testid={`audit-${entry.id}`}>
+                      <div>
+                        <div>
+                          <span className="font-medium">{userLabel(entry.adminId)}</span>
+                          {" "}{auditActionLabels[entry.action]}
+                          {entry.targetUserId && <> <span className="font-medium">{userLabel(entry.targetUserId)}</span></>}
+                          {entry.targetTeamId && <> on <span className="font-medium">{teamLabel(entry.targetTeamId)}</span></>}
+                        </div>
+                        {details.reason && <div className="text-xs text-muted-foreground">Reason: {details.reason}</div>}
+                        {details.path && <div className="text-xs text-muted-foreground">{details.method} {details.path}</div>}
+                      </div>
+                      <span className="text-xs text-muted-foreground whitespace-nowrap ml-4">
+                        {entry.createdAt && new Date(entry.createdAt).toLocaleString()}
+                      </span>
+                    </div>
+                  );
+                }) : (
+                  <p className="text-sm text-muted-foreground">No admin actions recorded yet.</p>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,352 @@
+import { useEffect } from "react";
+import { Link, useParams } from "wouter";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import Sidebar from "@/components/sidebar";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { formatMatchResult } from "@/lib/matchUtils";
+import type { AthleteAlias, AthleteProfile as AthleteProfileData, Team } from "@shared/schema";
+import { ArrowLeft, Calendar, FileText, Mail, MessageSquare, Phone, Scale, Trophy, User, Users, X } from "lucide-react";
+
+function ordinal(n: number): string {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? "th" : ["th", "st", "nd", "rd"][n % 10] || "th";
+  return `${n}${suffix}`;
+}
+
+export default function AthleteProfile() {
+  const { id } = useParams<{ id: string }>();
+  const { toast } = useToast();
+  const { isAuthenticated, isLoading } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: teams } = useQuery<Team[]>({
+    queryKey: ["/api/teams"],
+    enabled: isAuthenticated,
+  });
+
+  const { data: profile, isLoading: profileLoading, error } = useQuery<AthleteProfileData>({
+    queryKey: ["/api/athletes", id, "profile"],
+    enabled: isAuthenticated && !!id,
+  });
+
+  const { data: aliases } = useQuery<AthleteAlias[]>({
+    queryKey: ["/api/athletes", id, "aliases"],
+    enabled: isAuthenticated && !!id,
+  });
+
+  const removeAliasMutation = useMutation({
+    mutationFn: async (aliasId: string) => {
+      return await apiRequest("DELETE", `/api/athletes/${id}/aliases/${aliasId}`);
+    },
+    onSuccess: () => {
+      toast({ title: "Name Removed", description: "Results listing this name will no longer link automatically." });
+      queryClient.invalidateQueries({ queryKey: ["/api/athletes", id, "aliases"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to remove name",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const currentTeam = teams?.find(t => t.id === profile?.athlete.teamId) || teams?.[0];
+
+  // Redirect to home if not authenticated
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+  }, [isAuthenticated, isLoading, toast]);
+
+  if (isLoading || profileLoading) {
+    return (
+      <div className="flex h-screen items-center justify-center">
+        <div className="animate-spin w-8 h-8 border-4 border-primary border-t-transparent rounded-full" />
+      </div>
+    );
+  }
+
+  if (error || !profile) {
+    return (
+      <div className="flex h-screen bg-background">
+        <Sidebar currentTeam={currentTeam} />
+        <div className="flex-1 flex items-center justify-center">
+          <div className="text-center space-y-4">
+            <p className="text-muted-foreground">This athlete could not be found.</p>
+            <Link href="/roster">
+              <Button variant="outline">Back to Roster</Button>
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const { athlete, seasonStats, weightClasses, timeline, highlights, contacts } = profile;
+
+  return (
+    <div className="flex h-screen bg-background">
+      <Sidebar currentTeam={currentTeam} />
+
+      <div className="flex-1 flex flex-col overflow-hidden">
+        {/* Header */}
+        <header className="bg-card border-b border-border px-6 py-4">
+          <div className="flex items-center space-x-4">
+            <Link href="/roster">
+              <Button variant="ghost" size="icon" data-testid="button-back-roster">
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+            </Link>
+            <div className="w-14 h-14 bg-secondary rounded-full flex items-center justify-center overflow-hidden">
+              {athlete.profilePhotoUrl ? (
+                <img
+                  src={athlete.profilePhotoUrl}
+                  alt={`${athlete.name} photo`}
+                  className="w-full h-full object-cover"
+                />
+              ) : (
+                <User className="h-7 w-7 text-secondary-foreground" />
+              )}
+            </div>
+            <div>
+              <h1 className="text-2xl font-semibold text-foreground" data-testid="text-athlete-name">{athlete.name}</h1>
+              <p className="text-sm text-muted-foreground">
+                {athlete.grade} • {athlete.weightClass}
+              </p>
+            </div>
+          </div>
+        </header>
+
+        {/* Main Content */}
+        <main className="flex-1 overflow-y-auto bg-background p-6">
+          <div className="max-w-6xl mx-auto space-y-6">
+            {/* Season Totals */}
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+              {[
+                { label: "Record", value: `${seasonStats.wins}-${seasonStats.losses}`, testId: "stat-record" },
+                { label: "Pins", value: seasonStats.pins, testId: "stat-pins" },
+                { label: "Pin %", value: `${seasonStats.pinPercentage}%`, testId: "stat-pin-percentage" },
+                { label: "Takedowns", value: seasonStats.takedowns, testId: "stat-takedowns" },
+                { label: "Competitions", value: timeline.length, testId: "stat-competitions" },
+              ].map((stat) => (
+                <Card key={stat.label}>
+                  <CardContent className="p-4">
+                    <p className="text-sm font-medium text-muted-foreground">{stat.label}</p>
+                    <p className="text-2xl font-semibold text-foreground" data-testid={stat.testId}>{stat.value}</p>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              {/* Season Timeline */}
+              <Card className="lg:col-span-2">
+                <CardHeader>
+                  <CardTitle className="flex items-center">
+                    <Calendar className="mr-2 h-5 w-5" />
+                    Season Timeline
+                  </CardTitle>
+                  <CardDescription>Every competition this season, newest first</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {timeline.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No results recorded yet.</p>
+                  ) : (
+                    <ol className="relative border-l border-border ml-2 space-y-6">
+                      {timeline.map(({ competition, performance, matches }) => (
+                        <li key={competition.id} className="ml-6" data-testid={`timeline-${competition.id}`}>
+                          <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full bg-primary" />
+                          <div className="flex flex-wrap items-center gap-2">
+                            <Link href={`/competitions/${competition.id}`}>
+                              <span className="font-medium text-foreground hover:underline cursor-pointer">{competition.name}</span>
+                            </Link>
+                            <span className="text-xs text-muted-foreground">
+                              {new Date(competition.date).toLocaleDateString()}
+                            </span>
+                            {performance?.placement && (
+                              <Badge variant={performance.placement <= 3 ? "default" : "secondary"}>
+                                <Trophy className="mr-1 h-3 w-3" />
+                                {ordinal(performance.placement)}
+                              </Badge>
+                            )}
+                            {performance && (
+                              <Badge variant="outline">
+                                {performance.wins ?? 0}-{performance.losses ?? 0}
+                              </Badge>
+                            )}
+                          </div>
+                          {matches.length > 0 && (
+                            <ul className="mt-2 space-y-1 text-sm">
+                              {matches.map((match) => (
+                                <li key={match.id} className="flex flex-wrap items-center gap-2">
+                                  <Badge
+                                    variant={match.outcome === "win" ? "default" : "outline"}
+                                    className="w-10 justify-center"
+                                  >
+                                    {match.outcome === "win" ? "W" : "L"}
+                                  </Badge>
+                                  {match.round && <span className="text-muted-foreground">{match.round}:</span>}
+                                  <span>
+                                    {match.opponentName}
+                                    {match.opponentSchool && <span className="text-muted-foreground"> ({match.opponentSchool})</span>}
+                                  </span>
+                                  <span className="text-muted-foreground">{formatMatchResult(match)}</span>
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                          {performance?.notes && (
+                            <p className="mt-1 text-sm text-muted-foreground italic">{performance.notes}</p>
+                          )}
+                        </li>
+                      ))}
+                    </ol>
+                  )}
+                </CardContent>
+              </Card>
+
+              <div className="space-y-6">
+                {/* Weight Class History */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center">
+                      <Scale className="mr-2 h-5 w-5" />
+                      Weight Classes
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <ul className="space-y-2 text-sm" data-testid="list-weight-classes">
+                      {weightClasses.map((entry, index) => (
+                        <li key={`${entry.weightClass}-${index}`} className="flex justify-between">
+                          <span className="font-medium">{entry.weightClass}</span>
+                          <span className="text-muted-foreground">
+                            {entry.since ? `from ${new Date(entry.since).toLocaleDateString()}` : "current roster"}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </CardContent>
+                </Card>
+
+                {/* Contacts */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center">
+                      <Users className="mr-2 h-5 w-5" />
+                      Contacts
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    {contacts.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">
+                        No contacts linked. <Link href="/emails"><span className="underline cursor-pointer">Add one</span></Link>
+                      </p>
+                    ) : (
+                      <ul className="space-y-3">
+                        {contacts.map((contact) => (
+                          <li key={contact.id} className="text-sm" data-testid={`contact-${contact.id}`}>
+                            <div className="flex items-center gap-2">
+                              <span className="font-medium">{contact.name}</span>
+                              <span className="text-muted-foreground capitalize">{contact.relationship}</span>
+                              {contact.isPrimary && <Badge variant="secondary">Primary</Badge>}
+                            </div>
+                            {contact.email && (
+                              <p className="flex items-center text-muted-foreground">
+                                <Mail className="mr-1 h-3 w-3" />
+                                {contact.email}
+                              </p>
+                            )}
+                            {contact.phone && (
+                              <p className="flex items-center text-muted-foreground">
+                                <Phone className="mr-1 h-3 w-3" />
+                                {contact.phone}
+                              </p>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </CardContent>
+                </Card>
+
+                {/* Names remembered from results review */}
+                {aliases && aliases.length > 0 && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="flex items-center">
+                        <FileText className="mr-2 h-5 w-5" />
+                        Names in Results
+                      </CardTitle>
+                      <CardDescription>Other spellings linked to {athlete.name} during review</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="flex flex-wrap gap-2" data-testid="list-aliases">
+                        {aliases.map((alias) => (
+                          <Badge key={alias.id} variant="secondary" className="capitalize">
+                            {alias.alias}
+                            <button
+                              type="button"
+                              className="ml-1 rounded-full hover:text-destructive"
+                              onClick={() => removeAliasMutation.mutate(alias.id)}
+                              disabled={removeAliasMutation.isPending}
+                              aria-label={`Remove ${alias.alias}`}
+                              data-testid={`button-remove-alias-${alias.id}`}
+                            >
+                              <X className="h-3 w-3" />
+                            </button>
+                          </Badge>
+                        ))}
+                      </div>
+                    </CardContent>
+                  </Card>
+                )}
+              </div>
+            </div>
+
+            {/* Highlights */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <MessageSquare className="mr-2 h-5 w-5" />
+                  Highlights
+                </CardTitle>
+                <CardDescription>Messages about {athlete.name} in sent newsletters</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {highlights.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No newsletters have featured this athlete yet.</p>
+                ) : (
+                  <div className="space-y-4">
+                    {highlights.map((highlight) => (
+                      <div key={highlight.newsletterId} className="border-l-4 border-primary pl-4" data-testid={`highlight-${highlight.newsletterId}`}>
+                        <p className="text-sm font-medium">{highlight.subject}</p>
+                        {highlight.sentAt && (
+                          <p className="text-xs text-muted-foreground">{new Date(highlight.sentAt).toLocaleDateString()}</p>
+                        )}
+                        <p className="mt-1 text-sm text-foreground">{highlight.message}</p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import { useEffect, useState } from "react";
+import { Link } from "wouter";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
@@ -6,9 +7,12 @@ import Sidebar from "@/components/sidebar";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
 import UploadModal from "@/components/upload-modal";
+import ResultsReviewModal from "@/components/results-review-modal";
+import MatchEntryModal from "@/components/match-entry-modal";
 import { useQuery } from "@tanstack/react-query";
-import { Upload, FileText, Calendar, Users, Trophy, Eye } from "lucide-react";
+import { Upload, FileText, Calendar, Users, Trophy, Eye, ClipboardCheck, Swords } from "lucide-react";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 
 export default function CompetitionData() {
@@ -17,6 +21,8 @@ export default function CompetitionData() {
   const [currentTeamId, setCurrentTeamId] = useState<string>("");
   const [showUploadModal, setShowUploadModal] = useState(false);
   const [selectedCompetition, setSelectedCompetition] = useState<any>(null);
+  const [reviewCompetitionId, setReviewCompetitionId] = useState<string>("");
+  const [boutsCompetitionId, setBoutsCompetitionId] = useState<string>("");
 
   // Get user teams
   const { data: teams, isLoading: teamsLoading } = useQuery({
@@ -62,6 +68,12 @@ export default function CompetitionData() {
     });
   };
 
+  const getReviewStatus = (competition: any, athleteCount: number) => {
+    if (competition.reviewedAt) return { label: "Reviewed", variant: "default" as const };
+    if (athleteCount > 0) return { label: "Needs Review", variant: "outline" as const };
+    return { label: "Pending", variant: "secondary" as const };
+  };
+
   const getCompetitionStats = (parsedData: any) => {
     if (!parsedData || !parsedData.athletes) return { athleteCount: 0, totalMatches: 0 };
     
@@ -123,13 +135,13 @@ export default function CompetitionData() {
                 <Upload className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
                 <h3 className="text-lg font-medium text-foreground mb-2">Upload Competition Results</h3>
                 <p className="text-muted-foreground mb-4">
-                  Upload PDF files containing wrestling competition results to automatically extract performance data
+                  Upload results PDFs or spreadsheets of bouts to automatically extract performance data
                   and generate AI-powered athlete messages for your newsletters.
                 </p>
                 <div className="flex justify-center space-x-4 text-sm text-muted-foreground">
                   <div className="flex items-center">
                     <FileText className="h-4 w-4 mr-1" />
-                    PDF format only
+                    PDF, CSV or XLSX
                   </div>
                   <div className="flex items-center">
                     <Trophy className="h-4 w-4 mr-1" />
@@ -167,6 +179,7 @@ export default function CompetitionData() {
                 
                 {competitions.map((competition) => {
                   const stats = getCompetitionStats(competition.parsedData);
+                  const status = getReviewStatus(competition, stats.athleteCount);
                   
                   return (
                     <Card key={competition.id} className="hover:shadow-md transition-shadow">
@@ -177,9 +190,11 @@ export default function CompetitionData() {
                               <Trophy className="h-6 w-6 text-primary" />
                             </div>
                             <div>
-                              <h3 className="font-semibold text-foreground" data-testid={`competition-${competition.id}-name`}>
-                                {competition.name}
-                              </h3>
+                              <Link href={`/competitions/${competition.id}`}>
+                                <h3 className="font-semibold text-foreground hover:underline cursor-pointer" data-testid={`competition-${competition.id}-name`}>
+                                  {competition.name}
+                                </h3>
+                              </Link>
                               <div className="flex items-center space-x-4 text-sm text-muted-foreground">
                                 <div className="flex items-center">
                                   <Calendar className="h-4 w-4 mr-1" />
@@ -198,11 +213,31 @@ export default function CompetitionData() {
                           </div>
                           <div className="flex items-center space-x-2">
                             <Badge 
-                              variant={stats.athleteCount > 0 ? "default" : "secondary"}
+                              variant={status.variant}
                               data-testid={`competition-${competition.id}-status`}
                             >
-                              {stats.athleteCount > 0 ? "Processed" : "Pending"}
+                              {status.label}
                             </Badge>
+                            {stats.athleteCount > 0 && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setReviewCompetitionId(competition.id)}
+                                data-testid={`button-review-${competition.id}`}
+                              >
+                                <ClipboardCheck className="mr-1 h-3 w-3" />
+                                Review Results
+                              </Button>
+                            )}
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setBoutsCompetitionId(competition.id)}
+                              data-testid={`button-bouts-${competition.id}`}
+                            >
+                              <Swords className="mr-1 h-3 w-3" />
+                              Bouts
+                            </Button>
                             <Button
                               variant="outline"
                               size="sm"
@@ -257,6 +292,25 @@ export default function CompetitionData() {
       {showUploadModal && (
         <UploadModal 
           onClose={() => setShowUploadModal(false)}
+          onUploaded={(competition) => setReviewCompetitionId(competition.id)}
+          teamId={currentTeamId}
+        />
+      )}
+
+      {/* Results Review Modal */}
+      {reviewCompetitionId && (
+        <ResultsReviewModal
+          onClose={() => setReviewCompetitionId("")}
+          competitionId={reviewCompetitionId}
+          teamId={currentTeamId}
+        />
+      )}
+
+      {/* Bout Entry Modal */}
+      {boutsCompetitionId && (
+        <MatchEntryModal
+          onClose={() => setBoutsCompetitionId("")}
+          competitionId={boutsCompetitionId}
           teamId={currentTeamId}
         />
       )}
@@ -286,6 +340,14 @@ export default function CompetitionData() {
                     {getCompetitionStats(selectedCompetition.parsedData).athleteCount}
                   </p>
                 </div>
+                {selectedCompetition.parsedData?.format && (
+                  <div>
+                    <Label className="text-sm font-medium">Detected Format</Label>
+                    <p className="text-sm text-muted-foreground" data-testid="text-parsed-format">
+                      {selectedCompetition.parsedData.format.label} ({Math.round(selectedCompetition.parsedData.format.confidence * 100)}% confidence)
+                    </p>
+                  </div>
+                )}
               </div>
 
               {selectedCompetition.parsedData?.athletes && selectedCompetition.parsedData.athletes.length > 0 ? (
@@ -318,7 +380,7 @@ export default function CompetitionData() {
                 <div className="text-center py-8">
                   <FileText className="h-8 w-8 text-muted-foreground mx-auto mb-2" />
                   <p className="text-sm text-muted-foreground">
-                    No athlete data could be extracted from this PDF. The file may need manual review.
+                    No athlete data could be extracted from this file. The file may need manual review.
                   </p>
                 </div>
               )}
@@ -0,0 +1,520 @@
+import { useEffect, useState } from "react";
+import { Link, useLocation, useParams } from "wouter";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import Sidebar from "@/components/sidebar";
+import ResultsReviewModal from "@/components/results-review-modal";
+import MatchEntryModal from "@/components/match-entry-modal";
+import EditCompetitionModal from "@/components/edit-competition-modal";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { formatMatchResult } from "@/lib/matchUtils";
+import type { Athlete, AthletePerformance, Competition, Match, Team } from "@shared/schema";
+import { ArrowLeft, Calendar, ClipboardCheck, Edit2, FileText, RefreshCw, Swords, Trash2, Trophy } from "lucide-react";
+
+function ordinal(n: number): string {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? "th" : ["th", "st", "nd", "rd"][n % 10] || "th";
+  return `${n}${suffix}`;
+}
+
+interface WeightClassResult {
+  performance: AthletePerformance;
+  athlete: Athlete | undefined;
+  matches: Match[];
+}
+
+// Groups our results by the weight wrestled here (from the bouts), falling
+// back to the roster weight for results entered without bouts
+function groupByWeightClass(performances: AthletePerformance[], matches: Match[], athletes: Athlete[]) {
+  const groups = new Map<string, WeightClassResult[]>();
+  for (const performance of performances) {
+    const athlete = athletes.find(a => a.id === performance.athleteId);
+    const athleteMatches = matches
+      .filter(match => match.athleteId === performance.athleteId)
+      .sort((a, b) => (a.boutOrder ?? 0) - (b.boutOrder ?? 0));
+    const weightClass = athleteMatches.find(match => match.weightClass)?.weightClass || athlete?.weightClass || "Unknown";
+    groups.set(weightClass, [...(groups.get(weightClass) || []), { performance, athlete, matches: athleteMatches }]);
+  }
+  return Array.from(groups.entries()).sort(([a], [b]) => a.localeCompare(b, undefined, { numeric: true }));
+}
+
+interface EditResultDialogProps {
+  result: WeightClassResult;
+  onClose: () => void;
+  onSave: (updates: Partial<AthletePerformance>) => void;
+  isSaving: boolean;
+}
+
+function EditResultDialog({ result, onClose, onSave, isSaving }: EditResultDialogProps) {
+  const { performance, athlete, matches } = result;
+  const [placement, setPlacement] = useState(performance.placement?.toString() || "");
+  const [wins, setWins] = useState((performance.wins ?? 0).toString());
+  const [losses, setLosses] = useState((performance.losses ?? 0).toString());
+  const [pins, setPins] = useState((performance.pins ?? 0).toString());
+  const [takedowns, setTakedowns] = useState((performance.takedowns ?? 0).toString());
+  const [notes, setNotes] = useState(performance.notes || "");
+  // With bouts entered, the record is computed from them and edited there
+  const recordFromBouts = matches.length > 0;
+
+  const handleSave = () => {
+    onSave({
+      placement: placement ? parseInt(placement, 10) : null,
+      takedowns: parseInt(takedowns, 10) || 0,
+      notes: notes.trim() || null,
+      ...(recordFromBouts ? {} : {
+        wins: parseInt(wins, 10) || 0,
+        losses: parseInt(losses, 10) || 0,
+        pins: parseInt(pins, 10) || 0,
+      }),
+    });
+  };
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Edit Result</DialogTitle>
+          <DialogDescription>{athlete?.name || "Unknown athlete"}</DialogDescription>
+        </DialogHeader>
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="edit-placement">Placement</Label>
+            <Input id="edit-placement" type="number" min={1} value={placement} onChange={(e) => setPlacement(e.target.value)} data-testid="input-edit-placement" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="edit-takedowns">Takedowns</Label>
+            <Input id="edit-takedowns" type="number" min={0} value={takedowns} onChange={(e) => setTakedowns(e.target.value)} data-testid="input-edit-takedowns" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="edit-wins">Wins</Label>
+            <Input id="edit-wins" type="number" min={0} value={wins} onChange={(e) => setWins(e.target.value)} disabled={recordFromBouts} data-testid="input-edit-wins" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="edit-losses">Losses</Label>
+            <Input id="edit-losses" type="number" min={0} value={losses} onChange={(e) => setLosses(e.target.value)} disabled={recordFromBouts} data-testid="input-edit-losses" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="edit-pins">Pins</Label>
+            <Input id="edit-pins" type="number" min={0} value={pins} onChange={(e) => setPins(e.target.value)} disabled={recordFromBouts} data-testid="input-edit-pins" />
+          </div>
+        </div>
+        {recordFromBouts && (
+          <p className="text-xs text-muted-foreground">Wins, losses and pins come from the bouts below. Edit the bouts to change them.</p>
+        )}
+        <div className="space-y-2">
+          <Label htmlFor="edit-notes">Notes</Label>
+          <Textarea id="edit-notes" value={notes} onChange={(e) => setNotes(e.target.value)} data-testid="textarea-edit-notes" />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleSave} disabled={isSaving} data-testid="button-save-result">
+            {isSaving ? "Saving..." : "Save Result"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function CompetitionDetail() {
+  const { id } = useParams<{ id: string }>();
+  const { toast } = useToast();
+  const { isAuthenticated, isLoading } = useAuth();
+  const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
+  const [editing, setEditing] = useState<WeightClassResult | null>(null);
+  const [showReview, setShowReview] = useState(false);
+  const [showBouts, setShowBouts] = useState(false);
+  const [showEditCompetition, setShowEditCompetition] = useState(false);
+
+  const { data: teams } = useQuery<Team[]>({
+    queryKey: ["/api/teams"],
+    enabled: isAuthenticated,
+  });
+
+  const { data: competition, isLoading: competitionLoading, error } = useQuery<Competition>({
+    queryKey: ["/api/competitions", id],
+    enabled: isAuthenticated && !!id,
+  });
+
+  const { data: performances } = useQuery<AthletePerformance[]>({
+    queryKey: ["/api/competitions", id, "performances"],
+    enabled: !!competition,
+  });
+
+  const { data: matches } = useQuery<Match[]>({
+    queryKey: ["/api/competitions", id, "matches"],
+    enabled: !!competition,
+  });
+
+  const { data: athletes } = useQuery<Athlete[]>({
+    queryKey: ["/api/teams", competition?.teamId, "athletes"],
+    enabled: !!competition,
+  });
+
+  const currentTeam = teams?.find(t => t.id === competition?.teamId) || teams?.[0];
+
+  // Redirect to home if not authenticated
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+  }, [isAuthenticated, isLoading, toast]);
+
+  // Everything on this page hangs off the competition's queries
+  const invalidateCompetition = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/competitions", id] });
+    queryClient.invalidateQueries({ queryKey: ["/api/teams", competition?.teamId, "stats"] });
+  };
+
+  const updateResultMutation = useMutation({
+    mutationFn: async ({ performanceId, updates }: { performanceId: string; updates: Partial<AthletePerformance> }) => {
+      const response = await apiRequest("PUT", `/api/performances/${performanceId}`, updates);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Result Updated" });
+      setEditing(null);
+      invalidateCompetition();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update result",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteResultMutation = useMutation({
+    mutationFn: async (performanceId: string) => {
+      return await apiRequest("DELETE", `/api/performances/${performanceId}`);
+    },
+    onSuccess: () => {
+      toast({ title: "Result Deleted", description: "The result and its bouts were removed." });
+      invalidateCompetition();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete result",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const reparseMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/competitions/${id}/reparse`, {});
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "PDF Re-parsed",
+        description: "Review the new results before they replace the saved ones.",
+      });
+      invalidateCompetition();
+      queryClient.invalidateQueries({ queryKey: ["/api/teams", competition?.teamId, "competitions"] });
+      setShowReview(true);
+    },
+    onError: (error) => {
+      toast({
+        title: "Re-parse Failed",
+        description: error.message || "Could not re-parse the PDF",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteCompetitionMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("DELETE", `/api/competitions/${id}`);
+    },
+    onSuccess: () => {
+      toast({ title: "Competition Deleted", description: "Its results were removed from season stats." });
+      queryClient.removeQueries({ queryKey: ["/api/competitions", id] });
+      queryClient.invalidateQueries({ queryKey: ["/api/teams", competition?.teamId] });
+      setLocation("/competitions");
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete competition",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const confirmDeleteCompetition = () => {
+    const resultCount = performances?.length ?? 0;
+    const boutCount = matches?.length ?? 0;
+    const removed = resultCount || boutCount
+      ? `This removes ${resultCount} result${resultCount === 1 ? "" : "s"} and ${boutCount} bout${boutCount === 1 ? "" : "s"} from season stats.`
+      : "No saved results will be affected.";
+    if (confirm(`Delete "${competition?.name}"? ${removed} This cannot be undone.`)) {
+      deleteCompetitionMutation.mutate();
+    }
+  };
+
+  if (isLoading || competitionLoading) {
+    return (
+      <div className="flex h-screen items-center justify-center">
+        <div className="animate-spin w-8 h-8 border-4 border-primary border-t-transparent rounded-full" />
+      </div>
+    );
+  }
+
+  if (error || !competition) {
+    return (
+      <div className="flex h-screen bg-background">
+        <Sidebar currentTeam={currentTeam} />
+        <div className="flex-1 flex items-center justify-center">
+          <div className="text-center space-y-4">
+            <p className="text-muted-foreground">This competition could not be found.</p>
+            <Link href="/competitions">
+              <Button variant="outline">Back to Competitions</Button>
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const weightClasses = groupByWeightClass(performances || [], matches || [], athletes || []);
+
+  return (
+    <div className="flex h-screen bg-background">
+      <Sidebar currentTeam={currentTeam} />
+
+      <div className="flex-1 flex flex-col overflow-hidden">
+        {/* Header */}
+        <header className="bg-card border-b border-border px-6 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-4">
+              <Link href="/competitions">
+                <Button variant="ghost" size="icon" data-testid="button-back-competitions">
+                  <ArrowLeft className="h-4 w-4" />
+                </Button>
+              </Link>
+              <div>
+                <h1 className="text-2xl font-semibold text-foreground" data-testid="text-competition-name">{competition.name}</h1>
+                <p className="flex items-center text-sm text-muted-foreground">
+                  <Calendar className="h-4 w-4 mr-1" />
+                  {new Date(competition.date).toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric" })}
+                  {competition.reviewedAt ? (
+                    <Badge className="ml-3">Reviewed</Badge>
+                  ) : (
+                    <Badge variant="outline" className="ml-3">Needs Review</Badge>
+                  )}
+                </p>
+              </div>
+            </div>
+            <div className="flex space-x-2">
+              {competition.pdfUrl && (
+                <>
+                  <Button variant="outline" asChild>
+                    <a href={competition.pdfUrl} target="_blank" rel="noreferrer" data-testid="link-original-pdf">
+                      <FileText className="mr-2 h-4 w-4" />
+                      Original PDF
+                    </a>
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => reparseMutation.mutate()}
+                    disabled={reparseMutation.isPending}
+                    data-testid="button-reparse"
+                  >
+                    <RefreshCw className={`mr-2 h-4 w-4 ${reparseMutation.isPending ? "animate-spin" : ""}`} />
+                    {reparseMutation.isPending ? "Parsing..." : "Re-parse PDF"}
+                  </Button>
+                </>
+              )}
+              <Button variant="outline" onClick={() => setShowReview(true)} data-testid="button-review-results">
+                <ClipboardCheck className="mr-2 h-4 w-4" />
+                Review Results
+              </Button>
+              <Button variant="outline" onClick={() => setShowBouts(true)} data-testid="button-edit-bouts">
+                <Swords className="mr-2 h-4 w-4" />
+                Bouts
+              </Button>
+              <Button variant="outline" onClick={() => setShowEditCompetition(true)} data-testid="button-edit-competition">
+                <Edit2 className="mr-2 h-4 w-4" />
+                Edit
+              </Button>
+              <Button
+                variant="outline"
+                onClick={confirmDeleteCompetition}
+                disabled={deleteCompetitionMutation.isPending}
+                data-testid="button-delete-competition"
+              >
+                <Trash2 className="mr-2 h-4 w-4 text-destructive" />
+                Delete
+              </Button>
+            </div>
+          </div>
+        </header>
+
+        {/* Main Content */}
+        <main className="flex-1 overflow-y-auto bg-background p-6">
+          <div className="max-w-6xl mx-auto space-y-6">
+            {weightClasses.length === 0 ? (
+              <Card>
+                <CardContent className="p-12 text-center">
+                  <Trophy className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                  <h3 className="text-lg font-medium text-foreground mb-2">No Saved Results</h3>
+                  <p className="text-muted-foreground mb-4">
+                    Review the parsed results to save them for your athletes.
+                  </p>
+                  <Button onClick={() => setShowReview(true)} data-testid="button-review-empty">
+                    <ClipboardCheck className="mr-2 h-4 w-4" />
+                    Review Results
+                  </Button>
+                </CardContent>
+              </Card>
+            ) : (
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                {weightClasses.map(([weightClass, results]) => (
+                  <Card key={weightClass} data-testid={`weight-class-${weightClass}`}>
+                    <CardHeader className="pb-3">
+                      <CardTitle className="text-lg">{weightClass}</CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      {results.map((result) => {
+                        const { performance, athlete, matches: bouts } = result;
+                        return (
+                          <div key={performance.id} className="border rounded-lg p-3" data-testid={`result-${performance.id}`}>
+                            <div className="flex items-center justify-between">
+                              <div className="flex items-center gap-2">
+                                {athlete ? (
+                                  <Link href={`/athletes/${athlete.id}`}>
+                                    <span className="font-medium hover:underline cursor-pointer">{athlete.name}</span>
+                                  </Link>
+                                ) : (
+                                  <span className="font-medium">Unknown athlete</span>
+                                )}
+                                {performance.placement && (
+                                  <Badge variant={performance.placement <= 3 ? "default" : "secondary"}>
+                                    <Trophy className="mr-1 h-3 w-3" />
+                                    {ordinal(performance.placement)}
+                                  </Badge>
+                                )}
+                                <Badge variant="outline">{performance.wins ?? 0}-{performance.losses ?? 0}</Badge>
+                              </div>
+                              <div className="flex space-x-1">
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => setEditing(result)}
+                                  data-testid={`button-edit-result-${performance.id}`}
+                                >
+                                  <Edit2 className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => {
+                                    const boutNote = bouts.length ? ` and ${bouts.length} bout${bouts.length === 1 ? "" : "s"}` : "";
+                                    if (confirm(`Delete ${athlete?.name || "this athlete"}'s result${boutNote} from this competition?`)) {
+                                      deleteResultMutation.mutate(performance.id);
+                                    }
+                                  }}
+                                  data-testid={`button-delete-result-${performance.id}`}
+                                >
+                                  <Trash2 className="h-4 w-4 text-destructive" />
+                                </Button>
+                              </div>
+                            </div>
+
+                            {bouts.length > 0 ? (
+                              <ol className="mt-3 space-y-1 text-sm">
+                                {bouts.map((match) => (
+                                  <li key={match.id} className="flex items-center gap-2">
+                                    <span
+                                      className={`w-1 self-stretch rounded ${match.outcome === "win" ? "bg-primary" : "bg-muted"}`}
+                                      aria-hidden="true"
+                                    />
+                                    <span className="w-20 shrink-0 text-muted-foreground">{match.round || `Bout ${match.boutOrder ?? ""}`}</span>
+                                    <span className="flex-1">
+                                      {match.outcome === "win" ? "def." : "lost to"} {match.opponentName}
+                                      {match.opponentSchool && <span className="text-muted-foreground"> ({match.opponentSchool})</span>}
+                                    </span>
+                                    <span className="text-muted-foreground">{formatMatchResult(match)}</span>
+                                  </li>
+                                ))}
+                              </ol>
+                            ) : (
+                              <p className="mt-2 text-xs text-muted-foreground">No bouts entered.</p>
+                            )}
+                            {performance.notes && (
+                              <p className="mt-2 text-sm text-muted-foreground italic">{performance.notes}</p>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            )}
+          </div>
+        </main>
+      </div>
+
+      {editing && (
+        <EditResultDialog
+          result={editing}
+          onClose={() => setEditing(null)}
+          onSave={(updates) => updateResultMutation.mutate({ performanceId: editing.performance.id, updates })}
+          isSaving={updateResultMutation.isPending}
+        />
+      )}
+
+      {showReview && (
+        <ResultsReviewModal
+          onClose={() => {
+            setShowReview(false);
+            invalidateCompetition();
+          }}
+          competitionId={competition.id}
+          teamId={competition.teamId}
+        />
+      )}
+
+      {showEditCompetition && (
+        <EditCompetitionModal
+          competition={competition}
+          onClose={() => setShowEditCompetition(false)}
+          onSaved={(_, replacedPdf) => {
+            if (replacedPdf) setShowReview(true);
+          }}
+        />
+      )}
+
+      {showBouts && (
+        <MatchEntryModal
+          onClose={() => {
+            setShowBouts(false);
+            invalidateCompetition();
+          }}
+          competitionId={competition.id}
+          teamId={competition.teamId}
+        />
+      )}
+    </div>
+  );
+}
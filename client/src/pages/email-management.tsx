@@ -4,36 +4,73 @@ import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import Sidebar from "@/components/sidebar";
 import { Button } from "@/components/ui/button";
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { insertAthleteEmailSchema } from "@shared/schema";
+import {
+  contactFormSchema,
+  contactChannels,
+  contactRelationships,
+  type Athlete,
+  type ContactForm,
+  type ContactWithAthletes,
+  type EmailSuppression,
+  type SuppressionReason,
+  type Team,
+} from "@shared/schema";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
-import { Mail, Plus, Trash2, User, AlertCircle, Search } from "lucide-react";
-import { z } from "zod";
+import { Mail, MailX, Plus, Trash2, User, Users, AlertCircle, Search, Edit2, Phone, Star } from "lucide-react";
 
-const emailFormSchema = insertAthleteEmailSchema.omit({ athleteId: true }).extend({
-  email: z.string().email("Please enter a valid email address"),
-});
+const EMAIL_LIMIT = 256;
 
-type EmailFormData = z.infer<typeof emailFormSchema>;
+const relationshipLabels: Record<typeof contactRelationships[number], string> = {
+  athlete: "Athlete",
+  parent: "Parent",
+  guardian: "Guardian",
+  grandparent: "Grandparent",
+  booster: "Booster",
+};
+
+const channelLabels: Record<typeof contactChannels[number], string> = {
+  email: "Email",
+  sms: "Text message",
+};
+
+const suppressionLabels: Record<SuppressionReason, string> = {
+  unsubscribed: "Unsubscribed",
+  bounced: "Bounced",
+};
+
+const emptyContact: ContactForm = {
+  name: "",
+  relationship: "parent",
+  email: "",
+  phone: "",
+  preferredChannel: "email",
+  emailOptIn: true,
+  smsOptIn: false,
+  athletes: [],
+};
+
+const selectClassName = "flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2";
 
 export default function EmailManagement() {
   const { toast } = useToast();
   const { isAuthenticated, isLoading } = useAuth();
   const [currentTeamId, setCurrentTeamId] = useState<string>("");
-  const [showAddModal, setShowAddModal] = useState(false);
-  const [selectedAthleteId, setSelectedAthleteId] = useState<string>("");
+  const [editingContact, setEditingContact] = useState<ContactWithAthletes | null>(null);
+  const [showContactModal, setShowContactModal] = useState(false);
   const [searchTerm, setSearchTerm] = useState("");
   const queryClient = useQueryClient();
 
   // Get user teams
-  const { data: teams, isLoading: teamsLoading } = useQuery({
+  const { data: teams, isLoading: teamsLoading } = useQuery<Team[]>({
     queryKey: ["/api/teams"],
     enabled: isAuthenticated,
   });
@@ -46,25 +83,28 @@ export default function EmailManagement() {
   }, [teams, currentTeamId]);
 
   // Get athletes for current team
-  const { data: athletes, isLoading: athletesLoading } = useQuery({
+  const { data: athletes } = useQuery<Athlete[]>({
     queryKey: ["/api/teams", currentTeamId, "athletes"],
     enabled: !!currentTeamId,
   });
 
-  // Get email count for team
-  const { data: emailCountData } = useQuery({
-    queryKey: ["/api/teams", currentTeamId, "email-count"],
+  const { data: contacts, isLoading: contactsLoading } = useQuery<ContactWithAthletes[]>({
+    queryKey: ["/api/teams", currentTeamId, "contacts"],
+    enabled: !!currentTeamId,
+  });
+
+  const { data: suppressions } = useQuery<EmailSuppression[]>({
+    queryKey: ["/api/teams", currentTeamId, "suppressions"],
     enabled: !!currentTeamId,
   });
 
   const currentTeam = teams?.find(t => t.id === currentTeamId) || teams?.[0];
 
-  const form = useForm<EmailFormData>({
-    resolver: zodResolver(emailFormSchema),
-    defaultValues: {
-      email: "",
-    },
+  const form = useForm<ContactForm>({
+    resolver: zodResolver(contactFormSchema),
+    defaultValues: emptyContact,
   });
+  const links = form.watch("athletes");
 
   // Redirect to home if not authenticated
   useEffect(() => {
@@ -81,113 +121,128 @@ export default function EmailManagement() {
     }
   }, [isAuthenticated, isLoading, toast]);
 
-  const addEmailMutation = useMutation({
-    mutationFn: async (data: { athleteId: string; email: string }) => {
-      return await apiRequest("POST", `/api/athletes/${data.athleteId}/emails`, { email: data.email });
-    },
-    onSuccess: () => {
+  const handleMutationError = (fallback: string) => (error: Error) => {
+    if (isUnauthorizedError(error)) {
       toast({
-        title: "Email Added!",
-        description: "New email has been added to the athlete.",
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
       });
-      queryClient.invalidateQueries({ queryKey: ["/api/athletes"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/teams", currentTeamId, "email-count"] });
-      setShowAddModal(false);
-      setSelectedAthleteId("");
-      form.reset();
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const invalidateContacts = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/teams", currentTeamId, "contacts"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/teams", currentTeamId, "email-count"] });
+  };
+
+  const closeModal = () => {
+    setShowContactModal(false);
+    setEditingContact(null);
+    form.reset(emptyContact);
+  };
+
+  const saveContactMutation = useMutation({
+    mutationFn: async (data: ContactForm) => {
+      const payload = { ...data, email: data.email || null, phone: data.phone || null };
+      return editingContact
+        ? await apiRequest("PUT", `/api/contacts/${editingContact.id}`, payload)
+        : await apiRequest("POST", `/api/teams/${currentTeamId}/contacts`, payload);
     },
-    onError: (error) => {
-      if (isUnauthorizedError(error)) {
-        toast({
-          title: "Unauthorized",
-          description: "You are logged out. Logging in again...",
-          variant: "destructive",
-        });
-        setTimeout(() => {
-          window.location.href = "/api/login";
-        }, 500);
-        return;
-      }
+    onSuccess: () => {
       toast({
-        title: "Error",
-        description: error.message || "Failed to add email",
-        variant: "destructive",
+        title: editingContact ? "Contact Updated!" : "Contact Added!",
+        description: "Contact details have been saved.",
       });
+      invalidateContacts();
+      closeModal();
     },
+    onError: handleMutationError("Failed to save contact"),
   });
 
-  const deleteEmailMutation = useMutation({
-    mutationFn: async (emailId: string) => {
-      return await apiRequest("DELETE", `/api/emails/${emailId}`, {});
+  const deleteContactMutation = useMutation({
+    mutationFn: async (contactId: string) => {
+      return await apiRequest("DELETE", `/api/contacts/${contactId}`, {});
     },
     onSuccess: () => {
       toast({
-        title: "Email Removed",
-        description: "Email has been removed from the athlete.",
-      });
-      queryClient.invalidateQueries({ queryKey: ["/api/athletes"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/teams", currentTeamId, "email-count"] });
-    },
-    onError: (error) => {
-      if (isUnauthorizedError(error)) {
-        toast({
-          title: "Unauthorized",
-          description: "You are logged out. Logging in again...",
-          variant: "destructive",
-        });
-        setTimeout(() => {
-          window.location.href = "/api/login";
-        }, 500);
-        return;
-      }
-      toast({
-        title: "Error",
-        description: error.message || "Failed to remove email",
-        variant: "destructive",
+        title: "Contact Removed",
+        description: "The contact will no longer receive team communications.",
       });
+      invalidateContacts();
     },
+    onError: handleMutationError("Failed to remove contact"),
   });
 
-  // Get emails for each athlete
-  const athletesWithEmails = athletes?.map(athlete => {
-    const { data: emails } = useQuery({
-      queryKey: ["/api/athletes", athlete.id, "emails"],
-      enabled: !!athlete.id,
+  const openAddModal = (athleteId?: string) => {
+    setEditingContact(null);
+    form.reset({ ...emptyContact, athletes: athleteId ? [{ athleteId, isPrimary: false }] : [] });
+    setShowContactModal(true);
+  };
+
+  const openEditModal = (contact: ContactWithAthletes) => {
+    setEditingContact(contact);
+    form.reset({
+      name: contact.name,
+      relationship: contact.relationship,
+      email: contact.email || "",
+      phone: contact.phone || "",
+      preferredChannel: contact.preferredChannel,
+      emailOptIn: contact.emailOptIn,
+      smsOptIn: contact.smsOptIn,
+      athletes: contact.athletes,
     });
-    return { ...athlete, emails: emails || [] };
-  }) || [];
+    setShowContactModal(true);
+  };
 
-  const handleSubmit = (data: EmailFormData) => {
-    if (!selectedAthleteId) {
-      toast({
-        title: "No Athlete Selected",
-        description: "Please select an athlete to add the email to.",
-        variant: "destructive",
-      });
-      return;
-    }
+  const toggleAthlete = (athleteId: string, linked: boolean) => {
+    form.setValue(
+      "athletes",
+      linked ? [...links, { athleteId, isPrimary: false }] : links.filter(link => link.athleteId !== athleteId),
+    );
+  };
+
+  const togglePrimary = (athleteId: string, isPrimary: boolean) => {
+    form.setValue("athletes", links.map(link => link.athleteId === athleteId ? { ...link, isPrimary } : link));
+  };
 
-    const emailCount = emailCountData?.count || 0;
-    if (emailCount >= 256) {
+  const suppressionByEmail = new Map((suppressions || []).map(suppression => [suppression.email, suppression]));
+  const emailCount = contacts?.filter(contact => contact.email).length || 0;
+  const emailsRemaining = EMAIL_LIMIT - emailCount;
+  const athleteName = (athleteId: string) => athletes?.find(athlete => athlete.id === athleteId)?.name || "Unknown athlete";
+  const uncoveredAthletes = (athletes || []).filter(athlete =>
+    !contacts?.some(contact => contact.athletes.some(link => link.athleteId === athlete.id))
+  );
+
+  const search = searchTerm.toLowerCase();
+  const filteredContacts = (contacts || []).filter(contact =>
+    contact.name.toLowerCase().includes(search) ||
+    contact.email?.toLowerCase().includes(search) ||
+    contact.athletes.some(link => athleteName(link.athleteId).toLowerCase().includes(search))
+  );
+
+  const handleSubmit = (data: ContactForm) => {
+    const addsEmail = !!data.email && !editingContact?.email;
+    if (addsEmail && emailCount >= EMAIL_LIMIT) {
       toast({
         title: "Email Limit Reached",
-        description: "Your team has reached the maximum limit of 256 emails.",
+        description: `Your team has reached the maximum limit of ${EMAIL_LIMIT} emails.`,
         variant: "destructive",
       });
       return;
     }
-
-    addEmailMutation.mutate({ athleteId: selectedAthleteId, email: data.email });
+    saveContactMutation.mutate(data);
   };
 
-  const filteredAthletes = athletesWithEmails.filter(athlete =>
-    athlete.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    athlete.emails.some(email => email.email.toLowerCase().includes(searchTerm.toLowerCase()))
-  );
-
-  const emailCount = emailCountData?.count || 0;
-  const emailsRemaining = 256 - emailCount;
-
   if (isLoading || teamsLoading) {
     return (
       <div className="flex h-screen">
@@ -205,24 +260,23 @@ export default function EmailManagement() {
   return (
     <div className="flex h-screen bg-background">
       <Sidebar currentTeam={currentTeam} />
-      
+
       <div className="flex-1 flex flex-col overflow-hidden">
         {/* Header */}
         <header className="bg-card border-b border-border px-6 py-4">
           <div className="flex items-center justify-between">
             <div>
-              <h1 className="text-2xl font-semibold text-foreground">Email Management</h1>
+              <h1 className="text-2xl font-semibold text-foreground">Contacts</h1>
               <p className="text-sm text-muted-foreground">
-                Manage email addresses for your team newsletter distribution
+                Manage the parents, guardians and supporters who receive your newsletters
               </p>
             </div>
-            <Button 
-              onClick={() => setShowAddModal(true)}
-              disabled={emailCount >= 256}
-              data-testid="button-add-email"
+            <Button
+              onClick={() => openAddModal()}
+              data-testid="button-add-contact"
             >
               <Plus className="mr-2 h-4 w-4" />
-              Add Email
+              Add Contact
             </Button>
           </div>
         </header>
@@ -230,18 +284,18 @@ export default function EmailManagement() {
         {/* Main Content */}
         <main className="flex-1 overflow-y-auto bg-background p-6">
           <div className="max-w-6xl mx-auto space-y-6">
-            {/* Email Statistics */}
+            {/* Contact Statistics */}
             <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
               <Card>
                 <CardContent className="p-6">
                   <div className="flex items-center">
                     <div className="p-2 bg-primary/10 rounded-lg">
-                      <Mail className="h-6 w-6 text-primary" />
+                      <Users className="h-6 w-6 text-primary" />
                     </div>
                     <div className="ml-4">
-                      <p className="text-sm font-medium text-muted-foreground">Total Emails</p>
-                      <p className="text-2xl font-semibold text-foreground" data-testid="stat-total-emails">
-                        {emailCount}
+                      <p className="text-sm font-medium text-muted-foreground">Contacts</p>
+                      <p className="text-2xl font-semibold text-foreground" data-testid="stat-total-contacts">
+                        {contacts?.length || 0}
                       </p>
                     </div>
                   </div>
@@ -252,12 +306,12 @@ export default function EmailManagement() {
                 <CardContent className="p-6">
                   <div className="flex items-center">
                     <div className="p-2 bg-primary/10 rounded-lg">
-                      <User className="h-6 w-6 text-primary" />
+                      <Mail className="h-6 w-6 text-primary" />
                     </div>
                     <div className="ml-4">
-                      <p className="text-sm font-medium text-muted-foreground">Athletes</p>
-                      <p className="text-2xl font-semibold text-foreground" data-testid="stat-athletes">
-                        {athletes?.length || 0}
+                      <p className="text-sm font-medium text-muted-foreground">Email Addresses</p>
+                      <p className="text-2xl font-semibold text-foreground" data-testid="stat-total-emails">
+                        {emailCount}
                       </p>
                     </div>
                   </div>
@@ -287,25 +341,25 @@ export default function EmailManagement() {
                 <div className="relative">
                   <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
                   <Input
-                    placeholder="Search athletes or email addresses..."
+                    placeholder="Search contacts, emails or athletes..."
                     value={searchTerm}
                     onChange={(e) => setSearchTerm(e.target.value)}
                     className="pl-10"
-                    data-testid="input-search-emails"
+                    data-testid="input-search-contacts"
                   />
                 </div>
               </CardContent>
             </Card>
 
             {/* Email Limit Warning */}
-            {emailCount >= 240 && (
+            {emailCount >= EMAIL_LIMIT - 16 && (
               <Card className="border-amber-200 bg-amber-50">
                 <CardContent className="p-4">
                   <div className="flex items-center">
                     <AlertCircle className="h-5 w-5 text-amber-600 mr-2" />
                     <p className="text-sm text-amber-800">
-                      {emailCount >= 256 
-                        ? "You have reached the maximum limit of 256 emails per team."
+                      {emailCount >= EMAIL_LIMIT
+                        ? `You have reached the maximum limit of ${EMAIL_LIMIT} emails per team.`
                         : `You are approaching the email limit. Only ${emailsRemaining} emails remaining.`
                       }
                     </p>
@@ -314,195 +368,284 @@ export default function EmailManagement() {
               </Card>
             )}
 
-            {/* Athletes and Their Emails */}
-            {athletesLoading ? (
+            {/* Athletes nobody will hear about */}
+            {uncoveredAthletes.length > 0 && (
+              <Card>
+                <CardContent className="p-4">
+                  <p className="text-sm font-medium mb-2">Athletes without a contact</p>
+                  <div className="flex flex-wrap gap-2">
+                    {uncoveredAthletes.map((athlete) => (
+                      <Button
+                        key={athlete.id}
+                        variant="outline"
+                        size="sm"
+                        onClick={() => openAddModal(athlete.id)}
+                        data-testid={`button-add-contact-${athlete.id}`}
+                      >
+                        <Plus className="mr-1 h-3 w-3" />
+                        {athlete.name}
+                      </Button>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Contacts */}
+            {contactsLoading ? (
               <div className="space-y-4">
                 {[...Array(3)].map((_, i) => (
                   <Card key={i} className="animate-pulse">
                     <CardContent className="p-6">
-                      <div className="flex items-center space-x-4">
-                        <div className="w-12 h-12 bg-muted rounded-full" />
-                        <div className="space-y-2">
-                          <div className="h-4 bg-muted rounded w-32" />
-                          <div className="h-3 bg-muted rounded w-24" />
-                        </div>
+                      <div className="space-y-2">
+                        <div className="h-4 bg-muted rounded w-32" />
+                        <div className="h-3 bg-muted rounded w-24" />
                       </div>
                     </CardContent>
                   </Card>
                 ))}
               </div>
-            ) : filteredAthletes.length === 0 ? (
+            ) : filteredContacts.length === 0 ? (
               <Card>
                 <CardContent className="p-12 text-center">
                   <Mail className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
-                  <h3 className="text-lg font-medium text-foreground mb-2">No Athletes Found</h3>
+                  <h3 className="text-lg font-medium text-foreground mb-2">No Contacts Found</h3>
                   <p className="text-muted-foreground mb-4">
-                    {searchTerm 
-                      ? "No athletes or emails match your search criteria."
-                      : "You need to add athletes to your roster before managing emails."
+                    {searchTerm
+                      ? "No contacts match your search criteria."
+                      : "Add the parents, guardians and boosters who should receive your newsletters."
                     }
                   </p>
                   {!searchTerm && (
-                    <Button 
-                      onClick={() => window.location.href = '/roster'}
-                      data-testid="button-manage-roster"
-                    >
-                      <User className="mr-2 h-4 w-4" />
-                      Manage Roster
+                    <Button onClick={() => openAddModal()} data-testid="button-add-first-contact">
+                      <Plus className="mr-2 h-4 w-4" />
+                      Add Contact
                     </Button>
                   )}
                 </CardContent>
               </Card>
             ) : (
-              <div className="space-y-4">
-                {filteredAthletes.map((athlete) => (
-                  <Card key={athlete.id}>
-                    <CardHeader className="pb-3">
-                      <div className="flex items-center justify-between">
-                        <div className="flex items-center space-x-3">
-                          <div className="w-12 h-12 bg-secondary rounded-full flex items-center justify-center">
-                            {athlete.profilePhotoUrl ? (
-                              <img 
-                                src={athlete.profilePhotoUrl}
-                                alt={`${athlete.name} photo`}
-                                className="w-full h-full object-cover rounded-full"
-                              />
-                            ) : (
-                              <User className="h-6 w-6 text-secondary-foreground" />
-                            )}
+              <div className="space-y-3">
+                {filteredContacts.map((contact) => (
+                  <Card key={contact.id} data-testid={`contact-${contact.id}`}>
+                    <CardContent className="p-4">
+                      <div className="flex items-start justify-between">
+                        <div className="flex items-start space-x-3">
+                          <div className="w-10 h-10 bg-secondary rounded-full flex items-center justify-center">
+                            <User className="h-5 w-5 text-secondary-foreground" />
                           </div>
-                          <div>
-                            <CardTitle className="text-lg" data-testid={`athlete-${athlete.id}-name`}>
-                              {athlete.name}
-                            </CardTitle>
-                            <CardDescription>
-                              {athlete.grade} • {athlete.weightClass}
-                            </CardDescription>
+                          <div className="space-y-1">
+                            <div className="flex items-center space-x-2">
+                              <span className="font-medium" data-testid={`contact-${contact.id}-name`}>{contact.name}</span>
+                              <Badge variant="secondary">{relationshipLabels[contact.relationship]}</Badge>
+                              {!contact.emailOptIn && <Badge variant="outline">Opted out</Badge>}
+                              {contact.email && suppressionByEmail.has(contact.email) && (
+                                <Badge variant="destructive" data-testid={`contact-${contact.id}-suppressed`}>
+                                  {suppressionLabels[suppressionByEmail.get(contact.email)!.reason]}
+                                </Badge>
+                              )}
+                            </div>
+                            <div className="flex flex-wrap items-center gap-x-4 text-sm text-muted-foreground">
+                              {contact.email && (
+                                <span className="flex items-center">
+                                  <Mail className="h-3 w-3 mr-1" />
+                                  {contact.email}
+                                </span>
+                              )}
+                              {contact.phone && (
+                                <span className="flex items-center">
+                                  <Phone className="h-3 w-3 mr-1" />
+                                  {contact.phone}
+                                </span>
+                              )}
+                              <span>Prefers {channelLabels[contact.preferredChannel].toLowerCase()}</span>
+                            </div>
+                            {contact.athletes.length > 0 && (
+                              <div className="flex flex-wrap gap-1 pt-1">
+                                {contact.athletes.map((link) => (
+                                  <Badge key={link.athleteId} variant="outline" className="font-normal">
+                                    {link.isPrimary && <Star className="h-3 w-3 mr-1 fill-current" />}
+                                    {athleteName(link.athleteId)}
+                                  </Badge>
+                                ))}
+                              </div>
+                            )}
                           </div>
                         </div>
-                        <div className="flex items-center space-x-2">
-                          <Badge variant="secondary" data-testid={`athlete-${athlete.id}-email-count`}>
-                            {athlete.emails.length} email{athlete.emails.length !== 1 ? 's' : ''}
-                          </Badge>
+                        <div className="flex space-x-1">
                           <Button
-                            variant="outline"
-                            size="sm"
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => openEditModal(contact)}
+                            data-testid={`button-edit-contact-${contact.id}`}
+                          >
+                            <Edit2 className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
                             onClick={() => {
-                              setSelectedAthleteId(athlete.id);
-                              setShowAddModal(true);
+                              if (confirm(`Are you sure you want to remove ${contact.name}?`)) {
+                                deleteContactMutation.mutate(contact.id);
+                              }
                             }}
-                            disabled={emailCount >= 256}
-                            data-testid={`button-add-email-${athlete.id}`}
+                            data-testid={`button-delete-contact-${contact.id}`}
                           >
-                            <Plus className="mr-1 h-3 w-3" />
-                            Add Email
+                            <Trash2 className="h-4 w-4 text-destructive" />
                           </Button>
                         </div>
                       </div>
-                    </CardHeader>
-                    <CardContent>
-                      {athlete.emails.length === 0 ? (
-                        <p className="text-sm text-muted-foreground italic">
-                          No email addresses added yet
-                        </p>
-                      ) : (
-                        <div className="space-y-2">
-                          {athlete.emails.map((emailObj) => (
-                            <div 
-                              key={emailObj.id} 
-                              className="flex items-center justify-between p-2 bg-muted/30 rounded border"
-                            >
-                              <span className="text-sm" data-testid={`email-${emailObj.id}`}>
-                                {emailObj.email}
-                              </span>
-                              <Button
-                                variant="ghost"
-                                size="icon"
-                                onClick={() => {
-                                  if (confirm("Are you sure you want to remove this email address?")) {
-                                    deleteEmailMutation.mutate(emailObj.id);
-                                  }
-                                }}
-                                data-testid={`button-delete-email-${emailObj.id}`}
-                              >
-                                <Trash2 className="h-4 w-4 text-destructive" />
-                              </Button>
-                            </div>
-                          ))}
-                        </div>
-                      )}
                     </CardContent>
                   </Card>
                 ))}
               </div>
             )}
+
+            {/* Suppression list */}
+            {suppressions && suppressions.length > 0 && (
+              <Card>
+                <CardContent className="p-4">
+                  <div className="flex items-center mb-1">
+                    <MailX className="h-4 w-4 mr-2 text-muted-foreground" />
+                    <p className="text-sm font-medium">Opted Out ({suppressions.length})</p>
+                  </div>
+                  <p className="text-xs text-muted-foreground mb-3">
+                    These addresses are skipped by every send, even if a contact still lists them.
+                  </p>
+                  <div className="space-y-2">
+                    {suppressions.map((suppression) => (
+                      <div
+                        key={suppression.id}
+                        className="flex items-center justify-between text-sm"
+                        data-testid={`suppression-${suppression.id}`}
+                      >
+                        <span>{suppression.email}</span>
+                        <div className="flex items-center space-x-2 text-xs text-muted-foreground">
+                          <Badge variant="outline">{suppressionLabels[suppression.reason]}</Badge>
+                          {suppression.createdAt && <span>{new Date(suppression.createdAt).toLocaleDateString()}</span>}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
           </div>
         </main>
       </div>
 
-      {/* Add Email Modal */}
-      <Dialog open={showAddModal} onOpenChange={setShowAddModal}>
-        <DialogContent className="sm:max-w-md">
+      {/* Add / Edit Contact Modal */}
+      <Dialog open={showContactModal} onOpenChange={(open) => !open && closeModal()}>
+        <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
           <DialogHeader>
-            <DialogTitle>Add Email Address</DialogTitle>
+            <DialogTitle>{editingContact ? "Edit Contact" : "Add Contact"}</DialogTitle>
             <DialogDescription>
-              Add a new email address for newsletter distribution
+              Link a contact to every athlete in their family so they get one newsletter, not one per athlete
             </DialogDescription>
           </DialogHeader>
-          
+
           <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="athlete">Select Athlete</Label>
-              <select
-                className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
-                value={selectedAthleteId}
-                onChange={(e) => setSelectedAthleteId(e.target.value)}
-                data-testid="select-athlete"
-              >
-                <option value="">Choose an athlete...</option>
-                {athletes?.map((athlete) => (
-                  <option key={athlete.id} value={athlete.id}>
-                    {athlete.name} ({athlete.grade}, {athlete.weightClass})
-                  </option>
-                ))}
-              </select>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="contact-name">Name *</Label>
+                <Input id="contact-name" {...form.register("name")} placeholder="e.g., Maria Lopez" data-testid="input-contact-name" />
+                {form.formState.errors.name && (
+                  <p className="text-sm text-destructive">{form.formState.errors.name.message}</p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="contact-relationship">Relationship</Label>
+                <select id="contact-relationship" className={selectClassName} {...form.register("relationship")} data-testid="select-contact-relationship">
+                  {contactRelationships.map((relationship) => (
+                    <option key={relationship} value={relationship}>{relationshipLabels[relationship]}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="contact-email">Email</Label>
+                <Input id="contact-email" type="email" {...form.register("email")} placeholder="parent@example.com" data-testid="input-contact-email" />
+                {form.formState.errors.email && (
+                  <p className="text-sm text-destructive">{form.formState.errors.email.message}</p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="contact-phone">Phone</Label>
+                <Input id="contact-phone" type="tel" {...form.register("phone")} placeholder="(555) 555-0100" data-testid="input-contact-phone" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="contact-channel">Preferred Channel</Label>
+                <select id="contact-channel" className={selectClassName} {...form.register("preferredChannel")} data-testid="select-contact-channel">
+                  {contactChannels.map((channel) => (
+                    <option key={channel} value={channel}>{channelLabels[channel]}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-2 pt-6">
+                <label className="flex items-center space-x-2 text-sm">
+                  <Checkbox
+                    checked={form.watch("emailOptIn")}
+                    onCheckedChange={(checked) => form.setValue("emailOptIn", checked === true)}
+                    data-testid="checkbox-email-opt-in"
+                  />
+                  <span>Receives newsletters by email</span>
+                </label>
+                <label className="flex items-center space-x-2 text-sm">
+                  <Checkbox
+                    checked={form.watch("smsOptIn")}
+                    onCheckedChange={(checked) => form.setValue("smsOptIn", checked === true)}
+                    data-testid="checkbox-sms-opt-in"
+                  />
+                  <span>OK to text</span>
+                </label>
+              </div>
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="email">Email Address *</Label>
-              <Input
-                id="email"
-                type="email"
-                {...form.register("email")}
-                placeholder="e.g., parent@example.com"
-                data-testid="input-email-address"
-              />
-              {form.formState.errors.email && (
-                <p className="text-sm text-destructive">
-                  {form.formState.errors.email.message}
-                </p>
-              )}
+              <Label>Athletes</Label>
+              <div className="border rounded-md max-h-48 overflow-y-auto divide-y">
+                {athletes?.map((athlete) => {
+                  const link = links.find(l => l.athleteId === athlete.id);
+                  return (
+                    <div key={athlete.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                      <label className="flex items-center space-x-2">
+                        <Checkbox
+                          checked={!!link}
+                          onCheckedChange={(checked) => toggleAthlete(athlete.id, checked === true)}
+                          data-testid={`checkbox-contact-athlete-${athlete.id}`}
+                        />
+                        <span>{athlete.name}</span>
+                      </label>
+                      {link && (
+                        <label className="flex items-center space-x-1 text-xs text-muted-foreground">
+                          <Checkbox
+                            checked={link.isPrimary}
+                            onCheckedChange={(checked) => togglePrimary(athlete.id, checked === true)}
+                            data-testid={`checkbox-contact-primary-${athlete.id}`}
+                          />
+                          <span>Primary contact</span>
+                        </label>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
             </div>
 
             <DialogFooter>
               <Button
                 type="button"
                 variant="outline"
-                onClick={() => {
-                  setShowAddModal(false);
-                  setSelectedAthleteId("");
-                  form.reset();
-                }}
-                data-testid="button-cancel-email"
+                onClick={closeModal}
+                data-testid="button-cancel-contact"
               >
                 Cancel
               </Button>
               <Button
                 type="submit"
-                disabled={addEmailMutation.isPending || !selectedAthleteId}
-                data-testid="button-save-email"
+                disabled={saveContactMutation.isPending}
+                data-testid="button-save-contact"
               >
-                {addEmailMutation.isPending ? "Adding..." : "Add Email"}
+                {saveContactMutation.isPending ? "Saving..." : editingContact ? "Save Changes" : "Add Contact"}
               </Button>
             </DialogFooter>
           </form>
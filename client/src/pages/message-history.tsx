@@ -18,9 +18,11 @@ import {
   Newspaper,
   MessageSquare,
   Filter,
-  Download
+  Download,
+  Sparkles
 } from "lucide-react";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import DeliveryStatusList, { DeliveryCountsSummary, type DeliveryCounts } from "@/components/delivery-status";
 
 export default function MessageHistory() {
   const { toast } = useToast();
@@ -55,6 +57,18 @@ export default function MessageHistory() {
     enabled: !!currentTeamId,
   });
 
+  // Per-recipient delivery counts, keyed by newsletter id
+  const { data: deliveryStats } = useQuery<Record<string, DeliveryCounts>>({
+    queryKey: ["/api/teams", currentTeamId, "delivery-stats"],
+    enabled: !!currentTeamId,
+  });
+
+  // How much coaches rewrite AI drafts before sending them
+  const { data: generationStats } = useQuery<{ used: number; heavilyRewritten: number; averageRewrite: number }>({
+    queryKey: ["/api/teams", currentTeamId, "generation-stats"],
+    enabled: !!currentTeamId,
+  });
+
   const currentTeam = teams?.find(t => t.id === currentTeamId) || teams?.[0];
 
   // Redirect to home if not authenticated
@@ -157,7 +171,7 @@ export default function MessageHistory() {
         <main className="flex-1 overflow-y-auto bg-background p-6">
           <div className="max-w-6xl mx-auto space-y-6">
             {/* Statistics */}
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
               <Card>
                 <CardContent className="p-6">
                   <div className="flex items-center">
@@ -205,6 +219,27 @@ export default function MessageHistory() {
                   </div>
                 </CardContent>
               </Card>
+
+              <Card>
+                <CardContent className="p-6">
+                  <div className="flex items-center">
+                    <div className="p-2 bg-primary/10 rounded-lg">
+                      <Sparkles className="h-6 w-6 text-primary" />
+                    </div>
+                    <div className="ml-4">
+                      <p className="text-sm font-medium text-muted-foreground">AI Drafts Rewritten</p>
+                      <p className="text-2xl font-semibold text-foreground" data-testid="stat-ai-rewritten">
+                        {generationStats?.heavilyRewritten ?? 0} of {generationStats?.used ?? 0}
+                      </p>
+                      {!!generationStats?.used && (
+                        <p className="text-xs text-muted-foreground">
+                          {Math.round(generationStats.averageRewrite * 100)}% of words changed on average
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
             </div>
 
             {/* Search and Filter */}
@@ -318,6 +353,14 @@ export default function MessageHistory() {
                                 {message.recipientCount || 0} recipient{(message.recipientCount || 0) !== 1 ? 's' : ''}
                               </div>
                             </div>
+                            {message.type === 'newsletter' && deliveryStats?.[message.id] && (
+                              <div className="mt-2">
+                                <DeliveryCountsSummary
+                                  counts={deliveryStats[message.id]}
+                                  testId={`message-${message.id}-deliveries`}
+                                />
+                              </div>
+                            )}
                           </div>
                         </div>
                         <div className="flex space-x-2">
@@ -387,6 +430,16 @@ export default function MessageHistory() {
                 </div>
               )}
 
+              {selectedMessage.type === 'newsletter' && deliveryStats?.[selectedMessage.id] && (
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <h4 className="font-medium">Delivery Status</h4>
+                    <DeliveryCountsSummary counts={deliveryStats[selectedMessage.id]} />
+                  </div>
+                  <DeliveryStatusList newsletterId={selectedMessage.id} />
+                </div>
+              )}
+
               <div className="flex justify-end">
                 <Button
                   variant="outline"
@@ -10,9 +10,11 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import NewsletterPreview from "@/components/newsletter-preview";
+import ScheduledNewsletters from "@/components/scheduled-newsletters";
 import { useForm } from "react-hook-form";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
+import { formatScheduledTime, nextSundayEvening, toDateTimeLocalValue } from "@/lib/scheduleUtils";
 import { 
   Newspaper, 
   Send, 
@@ -22,7 +24,8 @@ import {
   Mail, 
   Calendar,
   FileText,
-  Settings
+  Settings,
+  Clock
 } from "lucide-react";
 
 interface CustomNewsletterForm {
@@ -36,6 +39,7 @@ export default function NewsletterCreation() {
   const [currentTeamId, setCurrentTeamId] = useState<string>("");
   const [showPreview, setShowPreview] = useState(false);
   const [newsletterType, setNewsletterType] = useState<"ai" | "custom">("ai");
+  const [customScheduleAt, setCustomScheduleAt] = useState<string>("");
   const queryClient = useQueryClient();
 
   // Get user teams
@@ -92,23 +96,33 @@ export default function NewsletterCreation() {
   }, [isAuthenticated, isLoading, toast]);
 
   const sendCustomNewsletterMutation = useMutation({
-    mutationFn: async (data: { subject: string; content: string }) => {
-      // Create and send custom newsletter
-      const newsletter = await apiRequest("POST", `/api/teams/${currentTeamId}/newsletters`, {
+    mutationFn: async (data: { subject: string; content: string; scheduledFor?: string }) => {
+      // Create the custom newsletter, then send it now or hand it to the scheduler
+      const response = await apiRequest("POST", `/api/teams/${currentTeamId}/newsletters`, {
         subject: data.subject,
         teamMessage: data.content,
         athleteMessages: [],
       });
+      const newsletter = await response.json();
       
-      await apiRequest("POST", `/api/newsletters/${newsletter.id}/send`, {});
+      if (data.scheduledFor) {
+        await apiRequest("PUT", `/api/newsletters/${newsletter.id}/schedule`, {
+          scheduledFor: new Date(data.scheduledFor).toISOString(),
+        });
+      } else {
+        await apiRequest("POST", `/api/newsletters/${newsletter.id}/send`, {});
+      }
       return newsletter;
     },
-    onSuccess: () => {
+    onSuccess: (_newsletter, variables) => {
       toast({
-        title: "Newsletter Sent!",
-        description: "Your custom newsletter has been sent successfully.",
+        title: variables.scheduledFor ? "Newsletter Scheduled!" : "Newsletter Sent!",
+        description: variables.scheduledFor
+          ? `Your custom newsletter will be sent ${formatScheduledTime(variables.scheduledFor)}.`
+          : "Your custom newsletter has been sent successfully.",
       });
       form.reset();
+      setCustomScheduleAt("");
       queryClient.invalidateQueries({ queryKey: ["/api/teams", currentTeamId, "newsletters"] });
     },
     onError: (error) => {
@@ -160,7 +174,7 @@ export default function NewsletterCreation() {
       return;
     }
 
-    sendCustomNewsletterMutation.mutate(data);
+    sendCustomNewsletterMutation.mutate({ ...data, scheduledFor: customScheduleAt || undefined });
   };
 
   const emailCount = emailCountData?.count || 0;
@@ -312,6 +326,8 @@ export default function NewsletterCreation() {
               </Card>
             </div>
 
+            <ScheduledNewsletters teamId={currentTeamId} />
+
             {/* AI Newsletter Section */}
             {newsletterType === "ai" && (
               <Card>
@@ -376,7 +392,7 @@ export default function NewsletterCreation() {
                   {(emailCount === 0 || athleteCount === 0) && (
                     <div className="text-sm text-muted-foreground">
                       {emailCount === 0 && (
-                        <p>• Add email addresses in <a href="/emails" className="text-primary hover:underline">Email Management</a></p>
+                        <p>• Add email addresses in <a href="/emails" className="text-primary hover:underline">Contacts</a></p>
                       )}
                       {athleteCount === 0 && (
                         <p>• Add athletes in <a href="/roster" className="text-primary hover:underline">Roster Management</a></p>
@@ -425,6 +441,46 @@ export default function NewsletterCreation() {
                       </p>
                     </div>
 
+                    <div className="space-y-2">
+                      <Label htmlFor="custom-schedule">Send Time</Label>
+                      <div className="flex items-center space-x-2">
+                        <Input
+                          id="custom-schedule"
+                          type="datetime-local"
+                          value={customScheduleAt}
+                          min={toDateTimeLocalValue(new Date())}
+                          onChange={(e) => setCustomScheduleAt(e.target.value)}
+                          className="w-auto"
+                          data-testid="input-custom-schedule"
+                        />
+                        {customScheduleAt ? (
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setCustomScheduleAt("")}
+                            data-testid="button-clear-custom-schedule"
+                          >
+                            Send now instead
+                          </Button>
+                        ) : (
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setCustomScheduleAt(toDateTimeLocalValue(nextSundayEvening()))}
+                            data-testid="button-schedule-sunday"
+                          >
+                            <Clock className="mr-1 h-3 w-3" />
+                            Sunday evening
+                          </Button>
+                        )}
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        Leave empty to send immediately.
+                      </p>
+                    </div>
+
                     <div className="flex justify-end space-x-3">
                       <Button
                         type="button"
@@ -441,7 +497,9 @@ export default function NewsletterCreation() {
                       >
                         <Send className="mr-2 h-4 w-4" />
                         {sendCustomNewsletterMutation.isPending 
-                          ? "Sending..." 
+                          ? (customScheduleAt ? "Scheduling..." : "Sending...")
+                          : customScheduleAt
+                          ? `Schedule for ${formatScheduledTime(customScheduleAt)}`
                           : `Send to ${emailCount} subscriber${emailCount !== 1 ? 's' : ''}`
                         }
                       </Button>
@@ -450,7 +508,7 @@ export default function NewsletterCreation() {
                     {emailCount === 0 && (
                       <div className="text-sm text-destructive">
                         You need to add email addresses before sending newsletters. 
-                        Go to <a href="/emails" className="underline">Email Management</a> to add them.
+                        Go to <a href="/emails" className="underline">Contacts</a> to add them.
                       </div>
                     )}
                   </form>
@@ -1,8 +1,10 @@
 import { useEffect, useState } from "react";
+import { Link } from "wouter";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import Sidebar from "@/components/sidebar";
+import { useTeamRole } from "@/hooks/useTeamRole";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -50,6 +52,7 @@ export default function RosterManagement() {
   });
 
   const currentTeam = teams?.find(t => t.id === currentTeamId) || teams?.[0];
+  const { isPrimaryCoach } = useTeamRole(currentTeam?.id || "");
 
   const form = useForm<AthleteFormData>({
     resolver: zodResolver(athleteFormSchema),
@@ -369,9 +372,11 @@ export default function RosterManagement() {
                             )}
                           </div>
                           <div>
-                            <h3 className="font-semibold text-foreground" data-testid={`athlete-${athlete.id}-name`}>
-                              {athlete.name}
-                            </h3>
+                            <Link href={`/athletes/${athlete.id}`}>
+                              <h3 className="font-semibold text-foreground hover:underline cursor-pointer" data-testid={`athlete-${athlete.id}-name`}>
+                                {athlete.name}
+                              </h3>
+                            </Link>
                             <p className="text-sm text-muted-foreground" data-testid={`athlete-${athlete.id}-grade`}>
                               {athlete.grade}
                             </p>
@@ -389,18 +394,20 @@ export default function RosterManagement() {
                           >
                             <Edit2 className="h-4 w-4" />
                           </Button>
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            onClick={() => {
-                              if (confirm("Are you sure you want to remove this athlete from the roster?")) {
-                                deleteAthleteMutation.mutate(athlete.id);
-                              }
-                            }}
-                            data-testid={`button-delete-${athlete.id}`}
-                          >
-                            <Trash2 className="h-4 w-4 text-destructive" />
-                          </Button>
+                          {isPrimaryCoach && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => {
+                                if (confirm("Are you sure you want to remove this athlete from the roster?")) {
+                                  deleteAthleteMutation.mutate(athlete.id);
+                                }
+                              }}
+                              data-testid={`button-delete-${athlete.id}`}
+                            >
+                              <Trash2 className="h-4 w-4 text-destructive" />
+                            </Button>
+                          )}
                         </div>
                       </div>
                       
@@ -3,6 +3,9 @@ import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import Sidebar from "@/components/sidebar";
+import TeamCoaches from "@/components/team-coaches";
+import MessageSettings from "@/components/message-settings";
+import { useTeamRole } from "@/hooks/useTeamRole";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -10,19 +13,29 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { insertTeamSchema } from "@shared/schema";
+import { insertTeamSchema, newsletterLayouts, type NewsletterLayout } from "@shared/schema";
+import { newsletterLayoutOptions } from "@/lib/newsletterLayouts";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { Upload, Palette, Save } from "lucide-react";
 import { z } from "zod";
 
+// School aliases are edited as one comma-separated field
 const teamFormSchema = insertTeamSchema.extend({
   primaryColor: z.string().regex(/^#[0-9A-F]{6}$/i, "Invalid color format"),
   secondaryColor: z.string().regex(/^#[0-9A-F]{6}$/i, "Invalid color format"),
+  schoolAliases: z.string().optional(),
 });
 
 type TeamFormData = z.infer<typeof teamFormSchema>;
 
+function toTeamPayload({ schoolAliases, ...data }: TeamFormData) {
+  return {
+    ...data,
+    schoolAliases: (schoolAliases || "").split(",").map(alias => alias.trim()).filter(Boolean),
+  };
+}
+
 export default function TeamSetup() {
   const { toast } = useToast();
   const { isAuthenticated, isLoading } = useAuth();
@@ -45,15 +58,21 @@ export default function TeamSetup() {
 
   const currentTeam = teams?.find(t => t.id === currentTeamId) || teams?.[0];
 
+  // Assistant coaches can view the team's settings but only the primary coach can change them
+  const { isPrimaryCoach } = useTeamRole(currentTeam?.id || "");
+  const canEditTeam = !currentTeam || isPrimaryCoach;
+
   const form = useForm<TeamFormData>({
     resolver: zodResolver(teamFormSchema),
     defaultValues: {
       name: "",
       school: "",
+      schoolAliases: "",
       primaryColor: "#3B82F6",
       secondaryColor: "#1E40AF",
       brandVoice: "",
       teamStoreUrl: "",
+      defaultLayout: "weekly_recap",
     },
   });
 
@@ -63,10 +82,12 @@ export default function TeamSetup() {
       form.reset({
         name: currentTeam.name || "",
         school: currentTeam.school || "",
+        schoolAliases: (currentTeam.schoolAliases || []).join(", "),
         primaryColor: currentTeam.primaryColor || "#3B82F6",
         secondaryColor: currentTeam.secondaryColor || "#1E40AF",
         brandVoice: currentTeam.brandVoice || "",
         teamStoreUrl: currentTeam.teamStoreUrl || "",
+        defaultLayout: currentTeam.defaultLayout || "weekly_recap",
       });
     }
   }, [currentTeam, form]);
@@ -88,7 +109,7 @@ export default function TeamSetup() {
 
   const createTeamMutation = useMutation({
     mutationFn: async (data: TeamFormData) => {
-      return await apiRequest("POST", "/api/teams", data);
+      return await apiRequest("POST", "/api/teams", toTeamPayload(data));
     },
     onSuccess: (newTeam) => {
       toast({
@@ -120,7 +141,7 @@ export default function TeamSetup() {
 
   const updateTeamMutation = useMutation({
     mutationFn: async (data: TeamFormData) => {
-      return await apiRequest("PUT", `/api/teams/${currentTeamId}`, data);
+      return await apiRequest("PUT", `/api/teams/${currentTeamId}`, toTeamPayload(data));
     },
     onSuccess: () => {
       toast({
@@ -259,10 +280,11 @@ export default function TeamSetup() {
                       type="file"
                       accept="image/*"
                       onChange={(e) => setLogoFile(e.target.files?.[0] || null)}
+                      disabled={!canEditTeam}
                       className="text-sm"
                       data-testid="input-logo"
                     />
-                    {logoFile && (
+                    {logoFile && canEditTeam && (
                       <Button
                         onClick={handleLogoUpload}
                         disabled={uploadLogoMutation.isPending}
@@ -287,6 +309,7 @@ export default function TeamSetup() {
               </CardHeader>
               <CardContent>
                 <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
+                  <fieldset disabled={!canEditTeam} className="space-y-6">
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                     <div className="space-y-2">
                       <Label htmlFor="name">Team Name *</Label>
@@ -319,6 +342,19 @@ export default function TeamSetup() {
                     </div>
                   </div>
 
+                  <div className="space-y-2">
+                    <Label htmlFor="schoolAliases">School Abbreviations (Optional)</Label>
+                    <Input
+                      id="schoolAliases"
+                      {...form.register("schoolAliases")}
+                      placeholder="e.g., LHS, LINC, Lincoln"
+                      data-testid="input-school-aliases"
+                    />
+                    <p className="text-sm text-muted-foreground">
+                      Separate with commas. Results PDFs are narrowed to wrestlers listed under your school name or one of these.
+                    </p>
+                  </div>
+
                   <div className="space-y-2">
                     <Label htmlFor="teamStoreUrl">Team Store URL (Optional)</Label>
                     <Input
@@ -329,6 +365,24 @@ export default function TeamSetup() {
                     />
                   </div>
 
+                  <div className="space-y-2">
+                    <Label htmlFor="defaultLayout">Default Newsletter Layout</Label>
+                    <select
+                      id="defaultLayout"
+                      {...form.register("defaultLayout")}
+                      className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+                      data-testid="select-default-layout"
+                    >
+                      {newsletterLayouts.map((layout) => (
+                        <option key={layout} value={layout}>{newsletterLayoutOptions[layout].label}</option>
+                      ))}
+                    </select>
+                    <p className="text-sm text-muted-foreground">
+                      {newsletterLayoutOptions[(form.watch("defaultLayout") || "weekly_recap") as NewsletterLayout].description}.
+                      Coaches can pick a different layout for each newsletter.
+                    </p>
+                  </div>
+
                   <div className="space-y-2">
                     <Label htmlFor="brandVoice">Brand Voice / Description</Label>
                     <Textarea
@@ -389,10 +443,18 @@ export default function TeamSetup() {
                     </div>
                   </div>
 
+                  </fieldset>
+
+                  {!canEditTeam && (
+                    <p className="text-sm text-muted-foreground">
+                      Only the primary coach can change team information and branding.
+                    </p>
+                  )}
+
                   <div className="flex justify-end">
                     <Button
                       type="submit"
-                      disabled={createTeamMutation.isPending || updateTeamMutation.isPending}
+                      disabled={!canEditTeam || createTeamMutation.isPending || updateTeamMutation.isPending}
                       data-testid="button-save-team"
                     >
                       <Save className="mr-2 h-4 w-4" />
@@ -407,6 +469,10 @@ export default function TeamSetup() {
                 </form>
               </CardContent>
             </Card>
+
+            {currentTeam && <MessageSettings teamId={currentTeam.id} canEdit={canEditTeam} />}
+
+            {currentTeam && <TeamCoaches teamId={currentTeam.id} />}
           </div>
         </main>
       </div>
@@ -0,0 +1,89 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useParams } from "wouter";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { AlertCircle, CheckCircle2, MailX } from "lucide-react";
+
+interface UnsubscribeDetails {
+  teamName?: string;
+  school?: string;
+  email: string;
+  unsubscribed: boolean;
+}
+
+export default function Unsubscribe() {
+  const { token } = useParams<{ token: string }>();
+  const queryClient = useQueryClient();
+
+  const { data: details, isLoading, error } = useQuery<UnsubscribeDetails>({
+    queryKey: ["/api/unsubscribe", token],
+    enabled: !!token,
+    retry: false,
+  });
+
+  const unsubscribeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/unsubscribe/${token}`, {});
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/unsubscribe", token] });
+    },
+  });
+
+  const teamName = details?.teamName || "this team";
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-background p-6">
+      <Card className="max-w-md w-full">
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <MailX className="mr-2 h-5 w-5" />
+            Unsubscribe
+          </CardTitle>
+          <CardDescription>
+            {details?.teamName
+              ? `Emails from ${details.teamName}${details.school ? ` (${details.school})` : ""}`
+              : "Team newsletter emails"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLoading ? (
+            <div className="h-16 bg-muted rounded animate-pulse" />
+          ) : error || !details ? (
+            <div className="flex items-start text-sm text-destructive">
+              <AlertCircle className="h-4 w-4 mr-2 mt-0.5" />
+              This unsubscribe link is not valid.
+            </div>
+          ) : details.unsubscribed ? (
+            <div className="flex items-start text-sm" data-testid="text-unsubscribed">
+              <CheckCircle2 className="h-4 w-4 mr-2 mt-0.5 text-green-600" />
+              <span>
+                <span className="font-medium">{details.email}</span> will no longer receive emails from {teamName}.
+              </span>
+            </div>
+          ) : (
+            <>
+              <p className="text-sm text-muted-foreground">
+                Stop sending newsletters and team emails from {teamName} to{" "}
+                <span className="font-medium text-foreground">{details.email}</span>?
+              </p>
+              {unsubscribeMutation.isError && (
+                <p className="text-sm text-destructive">Something went wrong. Please try again.</p>
+              )}
+              <Button
+                className="w-full"
+                onClick={() => unsubscribeMutation.mutate()}
+                disabled={unsubscribeMutation.isPending}
+                data-testid="button-unsubscribe"
+              >
+                {unsubscribeMutation.isPending ? "Unsubscribing..." : "Unsubscribe"}
+              </Button>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -2,7 +2,14 @@ import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
 import { storage } from "./storage";
 import bcrypt from "bcrypt";
-import { type User } from "@shared/schema";
+import { type User, type TeamRole } from "@shared/schema";
+import type { NextFunction, Request, Response } from "express";
+
+declare module "express-session" {
+  interface SessionData {
+    impersonatedUserId?: string;
+  }
+}
 
 console.log("Setting up passport authentication");
 
@@ -90,4 +97,123 @@ export const isAuthenticated = (req, res, next) => {
   res.status(401).json({ message: "Unauthorized" });
 };
 
+// The signed-in admin, when a system admin is viewing the app as another user
+export const getImpersonator = (req: Request): User | undefined => (req as any).impersonator;
+
+// Swaps req.user for the impersonated coach while a system admin has an
+// impersonation session open, and audits everything the admin changes as them
+export const applyImpersonation = async (req: Request, res: Response, next: NextFunction) => {
+  const targetId = req.session?.impersonatedUserId;
+  if (!targetId || !req.user) {
+    return next();
+  }
+
+  const admin = req.user as User;
+  if (admin.role !== "system_admin") {
+    delete req.session.impersonatedUserId;
+    return next();
+  }
+
+  try {
+    const target = await storage.getUser(targetId);
+    if (!target) {
+      delete req.session.impersonatedUserId;
+      return next();
+    }
+
+    (req as any).impersonator = admin;
+    req.user = target;
+
+    if (req.method !== "GET" && !req.path.startsWith("/api/admin/")) {
+      await storage.createAuditEntry({
+        adminId: admin.id,
+        action: "impersonated_request",
+        targetUserId: target.id,
+        details: { method: req.method, path: req.path },
+      });
+    }
+    next();
+  } catch (error) {
+    console.error("Error applying impersonation:", error);
+    res.status(500).json({ message: "Failed to load impersonated user" });
+  }
+};
+
+// Must run after isAuthenticated. Checks the real signed-in user, so an admin
+// who is impersonating a coach can still reach the admin routes.
+export const requireSystemAdmin = (req: Request, res: Response, next: NextFunction) => {
+  const user = getImpersonator(req) ?? (req.user as User);
+  if (user?.role !== "system_admin") {
+    return res.status(403).json({ message: "Forbidden" });
+  }
+  next();
+};
+
+// Resolves the id of the team that owns the resource a request targets
+type TeamResolver = (req: Request) => Promise<string | undefined>;
+
+export const teamFromParam = (param: string): TeamResolver =>
+  async (req) => req.params[param];
+
+export const teamFromAthlete = (param: string): TeamResolver =>
+  async (req) => (await storage.getAthlete(req.params[param]))?.teamId;
+
+export const teamFromContact = (param: string): TeamResolver =>
+  async (req) => (await storage.getContact(req.params[param]))?.teamId;
+
+export const teamFromCompetition = (param: string): TeamResolver =>
+  async (req) => (await storage.getCompetition(req.params[param]))?.teamId;
+
+export const teamFromMatch = (param: string): TeamResolver =>
+  async (req) => {
+    const match = await storage.getMatch(req.params[param]);
+    return match ? (await storage.getCompetition(match.competitionId))?.teamId : undefined;
+  };
+
+export const teamFromPerformance = (param: string): TeamResolver =>
+  async (req) => {
+    const performance = await storage.getPerformance(req.params[param]);
+    return performance ? (await storage.getCompetition(performance.competitionId))?.teamId : undefined;
+  };
+
+export const teamFromNewsletter = (param: string): TeamResolver =>
+  async (req) => (await storage.getNewsletter(req.params[param]))?.teamId;
+
+export const teamFromInvitation = (param: string): TeamResolver =>
+  async (req) => (await storage.getTeamInvitation(req.params[param]))?.teamId;
+
+// Must run after isAuthenticated. Lets the request through only when the user
+// coaches the owning team (in one of `roles`, if given), and exposes the team
+// and the user's role on it as res.locals.teamId / res.locals.teamRole.
+export const requireTeamAccess = (resolveTeamId: TeamResolver, roles?: TeamRole[]) => async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const teamId = await resolveTeamId(req);
+    if (!teamId) {
+      return res.status(404).json({ message: "Not found" });
+    }
+
+    const team = await storage.getTeam(teamId);
+    if (team && !team.isActive) {
+      return res.status(403).json({ message: "This team has been deactivated" });
+    }
+
+    const userId = (req.user as any).id;
+    const role = await storage.getTeamRole(teamId, userId);
+    if (!role) {
+      console.log(`requireTeamAccess: User ${userId} denied access to team ${teamId}`);
+      return res.status(403).json({ message: "Forbidden" });
+    }
+    if (roles && !roles.includes(role)) {
+      return res.status(403).json({ message: "Only the primary coach can do this" });
+    }
+
+    res.locals.teamId = teamId;
+    res.locals.teamRole = role;
+    next();
+  } catch (error) {
+    console.error("Error checking team access:", error);
+    res.status(500).json({ message: "Failed to check team access" });
+  }
+};
+
 export default passport;
@@ -1,6 +1,10 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startNewsletterScheduler } from "./services/newsletterScheduler";
+import { startEmailQueue } from "./services/emailQueue";
+import { storage } from "./storage";
+import { getAiProvider } from "./services/ai";
 import listEndpoints from "express-list-endpoints";
 
 const app = express();
@@ -69,5 +73,12 @@ app.use((req, res, next) => {
   host: "0.0.0.0",
 }, () => {
   log(`serving on port ${port}`);
+  // Resolved now so a misconfigured AI_PROVIDER is reported at startup
+  log(`using the ${getAiProvider().id} AI provider`);
+  storage.migrateLegacyAthleteEmails()
+    .then(moved => moved > 0 && log(`migrated ${moved} legacy athlete email(s) to contacts`))
+    .catch(error => console.error("Error migrating legacy athlete emails:", error));
+  void startNewsletterScheduler();
+  void startEmailQueue();
 });
 })();
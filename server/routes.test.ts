@@ -0,0 +1,167 @@
+import express from "express";
+import request from "supertest";
+import bcrypt from "bcrypt";
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+// Two coaches, each on their own team, plus a deactivated team coached by the
+// first. Every resource below belongs to the other coach's team.
+const { fakeStorage } = vi.hoisted(() => {
+  const coaches: Record<string, { id: string; email: string; role: "primary_coach" }> = {
+    "coach-a": { id: "coach-a", email: "a@example.com", role: "primary_coach" },
+    "coach-b": { id: "coach-b", email: "b@example.com", role: "primary_coach" },
+  };
+  const teams: Record<string, { id: string; primaryCoachId: string; isActive: boolean }> = {
+    "team-a": { id: "team-a", primaryCoachId: "coach-a", isActive: true },
+    "team-b": { id: "team-b", primaryCoachId: "coach-b", isActive: true },
+    "team-inactive": { id: "team-inactive", primaryCoachId: "coach-a", isActive: false },
+  };
+  const byTeam = (teamId: string) => (id: string) => ({ id, teamId });
+
+  const implemented: Record<string, (...args: any[]) => any> = {
+    getUser: async (id: string) => coaches[id],
+    getUserByEmail: async (email: string) => {
+      const coach = Object.values(coaches).find(candidate => candidate.email === email);
+      return coach && { ...coach, password: bcrypt.hashSync("password", 4) };
+    },
+    getTeam: async (id: string) => teams[id],
+    getTeamRole: async (teamId: string, userId: string) =>
+      teams[teamId]?.primaryCoachId === userId ? "primary_coach" : undefined,
+    getAthlete: async (id: string) => (id === "athlete-a" ? byTeam("team-a")(id) : byTeam("team-b")(id)),
+    getContact: async (id: string) => byTeam("team-b")(id),
+    getCompetition: async (id: string) => (id === "competition-a" ? byTeam("team-a")(id) : byTeam("team-b")(id)),
+    getMatch: async (id: string) => ({ id, competitionId: "competition-b" }),
+    getPerformance: async (id: string) =>
+      id === "performance-a" ? { id, competitionId: "competition-a", athleteId: "athlete-a" } : { id, competitionId: "competition-b" },
+    getMatchesByCompetition: async () => [{ id: "match-a", competitionId: "competition-a", athleteId: "athlete-a" }],
+    getNewsletter: async (id: string) => byTeam("team-b")(id),
+    getTeamInvitation: async (id: string) => byTeam("team-b")(id),
+    getAthletesByTeam: async () => [],
+    getAliasesByAthlete: async () => [],
+    createTeamInvitation: async (invitation: object) => ({ id: "invitation-new", ...invitation }),
+  };
+
+  // Anything a handler would call past the access check is a spy, so the
+  // tests can show it never ran
+  const spies = new Map<string, ReturnType<typeof vi.fn>>();
+  const fakeStorage = new Proxy({} as Record<string, ReturnType<typeof vi.fn>>, {
+    get(_target, name: string) {
+      if (!spies.has(name)) spies.set(name, vi.fn(implemented[name]));
+      return spies.get(name);
+    },
+  });
+  return { fakeStorage };
+});
+
+vi.mock("./storage", () => ({ storage: fakeStorage }));
+vi.mock("./services/emailService", async (importOriginal) => ({
+  ...await importOriginal<typeof import("./services/emailService")>(),
+  sendCoachInvitation: vi.fn().mockRejectedValue(new Error("SMTP connection refused")),
+}));
+
+const { registerRoutes } = await import("./routes");
+
+let app: express.Express;
+
+beforeAll(async () => {
+  app = express();
+  app.use(express.json());
+  await registerRoutes(app);
+});
+
+async function signIn(email: string) {
+  const agent = request.agent(app);
+  await agent.post("/api/login").send({ email, password: "password" }).expect(200);
+  return agent;
+}
+
+// One route per resolver, each aimed at a resource on coach B's team
+const foreignRoutes: { resolver: string; method: "get" | "put" | "post" | "delete"; path: string; handler: string }[] = [
+  { resolver: "teamFromParam", method: "get", path: "/api/teams/team-b/athletes", handler: "getAthletesByTeam" },
+  { resolver: "teamFromAthlete", method: "delete", path: "/api/athletes/athlete-b", handler: "deleteAthlete" },
+  { resolver: "teamFromContact", method: "delete", path: "/api/contacts/contact-b", handler: "deleteContact" },
+  { resolver: "teamFromCompetition", method: "delete", path: "/api/competitions/competition-b", handler: "deleteCompetition" },
+  { resolver: "teamFromMatch", method: "delete", path: "/api/matches/match-b", handler: "deleteMatch" },
+  { resolver: "teamFromPerformance", method: "delete", path: "/api/performances/performance-b", handler: "deletePerformance" },
+  { resolver: "teamFromNewsletter", method: "post", path: "/api/newsletters/newsletter-b/send", handler: "claimNewsletterForSending" },
+  { resolver: "teamFromInvitation", method: "delete", path: "/api/invitations/invitation-b", handler: "deleteTeamInvitation" },
+];
+
+describe("team access", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("rejects requests without a session", async () => {
+    await request(app).get("/api/athletes/athlete-a/aliases").expect(401);
+  });
+
+  it("lets a coach reach their own team's athletes", async () => {
+    const agent = await signIn("a@example.com");
+    await agent.get("/api/athletes/athlete-a/aliases").expect(200);
+    expect(fakeStorage.getAliasesByAthlete).toHaveBeenCalledWith("athlete-a");
+  });
+
+  it.each(foreignRoutes)("$resolver: a coach gets 403 on another team's resource", async ({ method, path, handler }) => {
+    const agent = await signIn("a@example.com");
+    const response = await agent[method](path).send({});
+    expect(response.status).toBe(403);
+    expect(response.body).toEqual({ message: "Forbidden" });
+    expect(fakeStorage[handler]).not.toHaveBeenCalled();
+  });
+
+  it("rejects the owning coach once their team is deactivated", async () => {
+    const agent = await signIn("a@example.com");
+    const response = await agent.get("/api/teams/team-inactive/athletes");
+    expect(response.status).toBe(403);
+    expect(response.body).toEqual({ message: "This team has been deactivated" });
+    expect(fakeStorage.getAthletesByTeam).not.toHaveBeenCalled();
+  });
+});
+
+describe("newsletter creation", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("rejects a layout that isn't one of the newsletter layouts", async () => {
+    const agent = await signIn("a@example.com");
+    const response = await agent.post("/api/teams/team-a/newsletters").send({ subject: "Weekly Recap", layout: "poster" });
+    expect(response.status).toBe(400);
+    expect(response.body.message).toBe("Invalid newsletter");
+    expect(fakeStorage.createNewsletter).not.toHaveBeenCalled();
+  });
+});
+
+describe("coach invitations", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("removes the invitation when its email can't be sent", async () => {
+    const agent = await signIn("a@example.com");
+    const response = await agent.post("/api/teams/team-a/invitations").send({ email: "new.coach@example.com" });
+    expect(response.status).toBe(500);
+    expect(response.body.message).toBe("Failed to send the invitation email");
+    expect(fakeStorage.deleteTeamInvitation).toHaveBeenCalledWith("invitation-new");
+  });
+});
+
+describe("result edits", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("refuses a record edit for a result whose record comes from its bouts", async () => {
+    const agent = await signIn("a@example.com");
+    const response = await agent.put("/api/performances/performance-a").send({ wins: 5, losses: 0 });
+    expect(response.status).toBe(409);
+    expect(response.body.message).toContain("Edit the bouts");
+    expect(fakeStorage.updatePerformance).not.toHaveBeenCalled();
+  });
+
+  it("still saves the fields the bouts don't cover", async () => {
+    const agent = await signIn("a@example.com");
+    await agent.put("/api/performances/performance-a").send({ placement: 2, notes: "Seeded fourth" }).expect(200);
+    expect(fakeStorage.updatePerformance).toHaveBeenCalledWith("performance-a", { placement: 2, notes: "Seeded fourth" });
+  });
+});
@@ -3,13 +3,39 @@ import express from "express";
 import { createServer, type Server } from "http";
 import multer from "multer";
 import path from "path";
+import fs from "fs";
 import { storage } from "./storage";
-import passport, { isAuthenticated } from "./auth";
-import { insertTeamSchema, insertAthleteSchema, insertAthleteEmailSchema, insertCompetitionSchema, insertUserSchema } from "@shared/schema";
-import { generateAthleteMessage, generateTeamMessage } from "./services/openai";
-import { sendNewsletter } from "./services/emailService";
-import { parsePDF } from "./services/pdfParser";
+import passport, {
+  isAuthenticated,
+  requireTeamAccess,
+  teamFromParam,
+  teamFromAthlete,
+  teamFromContact,
+  teamFromCompetition,
+  teamFromMatch,
+  teamFromPerformance,
+  teamFromNewsletter,
+  teamFromInvitation,
+  applyImpersonation,
+  requireSystemAdmin,
+  getImpersonator,
+} from "./auth";
+import { insertTeamSchema, insertAthleteSchema, contactFormSchema, insertCompetitionSchema, insertAthletePerformanceSchema, insertUserSchema, inviteCoachSchema, updateTeamStatusSchema, reassignPrimaryCoachSchema, competitionReviewSchema, insertMatchSchema, createNewsletterSchema, scheduleNewsletterSchema, newsletterPreviewSchema, insertPromptSettingsSchema, updateCompetitionSchema, importColumnsSchema, insertImportMappingSchema } from "@shared/schema";
+import { defaultPromptSettings, generateAthleteMessage, generateTeamMessage } from "./services/ai";
+import { deliverNewsletter } from "./services/newsletterScheduler";
+import { cleanupFile, parsePDF, type ParsedCompetitionData } from "./services/pdfParser";
+import { isSpreadsheet, parseSpreadsheetResults, previewSpreadsheet, readSpreadsheet } from "./services/spreadsheetImport";
+import { reconcileParsedAthletes, matchesFromBouts, manualAliases, keepOwnSchool, teamSchoolNames } from "./services/resultsReconciliation";
+import { buildTeamSummary } from "./services/teamSummary";
+import { buildAthleteProfile } from "./services/athleteProfile";
+import { uploadPath } from "./services/uploads";
+import { summarizeGenerations } from "./services/ai/history";
+import { sendCoachInvitation } from "./services/emailService";
+import { verifyUnsubscribeToken } from "./services/unsubscribe";
+import { renderNewsletter } from "./services/newsletterRenderer";
+import { brandContrastWarnings } from "@shared/contrast";
 import session from "express-session";
+import crypto from "crypto";
 
 // Configure multer for file uploads
 const upload = multer({
@@ -26,6 +52,21 @@ const upload = multer({
   },
 });
 
+// Results can also come from a spreadsheet (CSV or XLSX) instead of a PDF
+const uploadResults = multer({
+  dest: 'uploads/',
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB limit
+  },
+  fileFilter: (req, file, cb) => {
+    if (file.mimetype === 'application/pdf' || file.originalname.toLowerCase().endsWith('.pdf') || isSpreadsheet(file.originalname)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only PDF, CSV and XLSX files are allowed'));
+    }
+  },
+});
+
 const uploadImage = multer({
   dest: 'uploads/',
   limits: {
@@ -40,6 +81,19 @@ const uploadImage = multer({
   },
 });
 
+// Returns the first id that isn't on the team's roster, if any
+async function findForeignAthlete(athleteIds: string[], teamId: string): Promise<string | undefined> {
+  if (athleteIds.length === 0) return undefined;
+  const roster = new Set((await storage.getAthletesByTeam(teamId)).map(athlete => athlete.id));
+  return athleteIds.find(id => !roster.has(id));
+}
+
+// Parses a results PDF down to the team's own wrestlers and their bouts
+async function parseTeamResults(filePath: string, teamId: string): Promise<ParsedCompetitionData> {
+  const [parsedData, team] = await Promise.all([parsePDF(filePath), storage.getTeam(teamId)]);
+  return keepOwnSchool(parsedData, teamSchoolNames(team));
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   app.use(
     session({
@@ -50,6 +104,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   );
   app.use(passport.initialize());
   app.use(passport.session());
+  app.use(applyImpersonation);
 
   // Auth routes
   app.post("/api/register", async (req, res) => {
@@ -81,6 +136,151 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
 
+  app.get("/api/auth/user", isAuthenticated, (req, res) => {
+    const impersonator = getImpersonator(req);
+    res.json({
+      ...req.user,
+      impersonator: impersonator ? { id: impersonator.id, email: impersonator.email } : null,
+    });
+  });
+
+  // System admin routes
+  app.get('/api/admin/users', isAuthenticated, requireSystemAdmin, async (req, res) => {
+    try {
+      const users = await storage.getAllUsers();
+      res.json(users);
+    } catch (error) {
+      console.error("Error fetching users:", error);
+      res.status(500).json({ message: "Failed to fetch users" });
+    }
+  });
+
+  app.get('/api/admin/teams', isAuthenticated, requireSystemAdmin, async (req, res) => {
+    try {
+      const teams = await storage.getAllTeams();
+      res.json(teams);
+    } catch (error) {
+      console.error("Error fetching teams:", error);
+      res.status(500).json({ message: "Failed to fetch teams" });
+    }
+  });
+
+  app.put('/api/admin/teams/:id/status', isAuthenticated, requireSystemAdmin, async (req, res) => {
+    try {
+      const { isActive } = updateTeamStatusSchema.parse(req.body);
+      const existing = await storage.getTeam(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+
+      const team = await storage.updateTeam(existing.id, { isActive });
+      await storage.createAuditEntry({
+        adminId: (getImpersonator(req) ?? (req.user as any)).id,
+        action: isActive ? "activate_team" : "deactivate_team",
+        targetTeamId: team.id,
+      });
+      res.json(team);
+    } catch (error) {
+      console.error("Error updating team status:", error);
+      res.status(400).json({ message: "Failed to update team status", error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  app.put('/api/admin/teams/:id/primary-coach', isAuthenticated, requireSystemAdmin, async (req, res) => {
+    try {
+      const { coachId } = reassignPrimaryCoachSchema.parse(req.body);
+      const existing = await storage.getTeam(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      const coach = await storage.getUser(coachId);
+      if (!coach) {
+        return res.status(400).json({ message: "Coach not found" });
+      }
+
+      const team = await storage.reassignPrimaryCoach(existing.id, coach.id);
+      await storage.createAuditEntry({
+        adminId: (getImpersonator(req) ?? (req.user as any)).id,
+        action: "reassign_primary_coach",
+        targetTeamId: team.id,
+        targetUserId: coach.id,
+        details: { previousCoachId: existing.primaryCoachId },
+      });
+      res.json(team);
+    } catch (error) {
+      console.error("Error reassigning primary coach:", error);
+      res.status(400).json({ message: "Failed to reassign primary coach", error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  app.post('/api/admin/impersonate/stop', isAuthenticated, requireSystemAdmin, async (req, res) => {
+    try {
+      const impersonator = getImpersonator(req);
+      if (!impersonator) {
+        return res.status(400).json({ message: "Not currently impersonating" });
+      }
+
+      await storage.createAuditEntry({
+        adminId: impersonator.id,
+        action: "impersonate_stop",
+        targetUserId: (req.user as any).id,
+      });
+      delete req.session.impersonatedUserId;
+      res.json({ message: "Impersonation ended" });
+    } catch (error) {
+      console.error("Error ending impersonation:", error);
+      res.status(500).json({ message: "Failed to end impersonation" });
+    }
+  });
+
+  app.post('/api/admin/impersonate/:userId', isAuthenticated, requireSystemAdmin, async (req, res) => {
+    try {
+      if (getImpersonator(req)) {
+        return res.status(409).json({ message: "Stop the current impersonation first" });
+      }
+      const target = await storage.getUser(req.params.userId);
+      if (!target) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (target.role === "system_admin") {
+        return res.status(400).json({ message: "System admins can't be impersonated" });
+      }
+
+      await storage.createAuditEntry({
+        adminId: (req.user as any).id,
+        action: "impersonate_start",
+        targetUserId: target.id,
+        details: { reason: typeof req.body?.reason === "string" ? req.body.reason : null },
+      });
+      req.session.impersonatedUserId = target.id;
+      res.json({ message: "Impersonation started" });
+    } catch (error) {
+      console.error("Error starting impersonation:", error);
+      res.status(500).json({ message: "Failed to start impersonation" });
+    }
+  });
+
+  app.get('/api/admin/audit-log', isAuthenticated, requireSystemAdmin, async (req, res) => {
+    try {
+      const entries = await storage.getAuditLog(200);
+      res.json(entries);
+    } catch (error) {
+      console.error("Error fetching audit log:", error);
+      res.status(500).json({ message: "Failed to fetch audit log" });
+    }
+  });
+
+  app.get('/api/admin/stats', isAuthenticated, requireSystemAdmin, async (req, res) => {
+    try {
+      const days = Math.min(parseInt(String(req.query.days || "30"), 10) || 30, 365);
+      const stats = await storage.getPlatformSendStats(new Date(Date.now() - days * 24 * 60 * 60 * 1000));
+      res.json({ days, ...stats });
+    } catch (error) {
+      console.error("Error fetching platform stats:", error);
+      res.status(500).json({ message: "Failed to fetch platform stats" });
+    }
+  });
+
   // Team routes
   app.post('/api/teams', isAuthenticated, async (req: any, res) => {
     try {
@@ -109,7 +309,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/teams/:id', isAuthenticated, async (req, res) => {
+  app.get('/api/teams/:id', isAuthenticated, requireTeamAccess(teamFromParam('id')), async (req, res) => {
     try {
       const team = await storage.getTeam(req.params.id);
       if (!team) {
@@ -122,9 +322,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put('/api/teams/:id', isAuthenticated, async (req, res) => {
+  app.put('/api/teams/:id', isAuthenticated, requireTeamAccess(teamFromParam('id'), ["primary_coach"]), async (req, res) => {
     try {
-      const validatedData = insertTeamSchema.partial().parse(req.body);
+      const validatedData = insertTeamSchema.omit({ primaryCoachId: true, isActive: true }).partial().parse(req.body);
       const team = await storage.updateTeam(req.params.id, validatedData);
       res.json(team);
     } catch (error) {
@@ -133,7 +333,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/teams/:id/stats', isAuthenticated, async (req, res) => {
+  // Teams that never saved settings get the defaults, so the form always has values
+  app.get('/api/teams/:id/prompt-settings', isAuthenticated, requireTeamAccess(teamFromParam('id')), async (req, res) => {
+    try {
+      const settings = await storage.getPromptSettings(req.params.id);
+      res.json(settings || { ...defaultPromptSettings, teamId: req.params.id });
+    } catch (error) {
+      console.error("Error fetching prompt settings:", error);
+      res.status(500).json({ message: "Failed to fetch message settings" });
+    }
+  });
+
+  app.put('/api/teams/:id/prompt-settings', isAuthenticated, requireTeamAccess(teamFromParam('id'), ["primary_coach"]), async (req, res) => {
+    try {
+      const validatedData = insertPromptSettingsSchema.parse(req.body);
+      const settings = await storage.upsertPromptSettings(req.params.id, validatedData);
+      res.json(settings);
+    } catch (error) {
+      console.error("Error updating prompt settings:", error);
+      res.status(400).json({ message: "Failed to update message settings", error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  app.get('/api/teams/:id/stats', isAuthenticated, requireTeamAccess(teamFromParam('id')), async (req, res) => {
     try {
       const stats = await storage.getTeamStats(req.params.id);
       res.json(stats);
@@ -144,7 +366,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Upload team logo
-  app.post('/api/teams/:id/logo', isAuthenticated, uploadImage.single('logo'), async (req, res) => {
+  app.post('/api/teams/:id/logo', isAuthenticated, requireTeamAccess(teamFromParam('id'), ["primary_coach"]), uploadImage.single('logo'), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ message: "No file uploaded" });
@@ -161,8 +383,121 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Coach routes
+  app.get('/api/teams/:teamId/coaches', isAuthenticated, requireTeamAccess(teamFromParam('teamId')), async (req, res) => {
+    try {
+      const coaches = await storage.getTeamCoaches(req.params.teamId);
+      const invitations = await storage.getPendingInvitations(req.params.teamId);
+      res.json({ coaches, invitations, role: res.locals.teamRole });
+    } catch (error) {
+      console.error("Error fetching coaches:", error);
+      res.status(500).json({ message: "Failed to fetch coaches" });
+    }
+  });
+
+  app.post('/api/teams/:teamId/invitations', isAuthenticated, requireTeamAccess(teamFromParam('teamId'), ["primary_coach"]), async (req: any, res) => {
+    try {
+      const { email } = inviteCoachSchema.parse(req.body);
+      const team = await storage.getTeam(req.params.teamId);
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+
+      const invitation = await storage.createTeamInvitation({
+        teamId: team.id,
+        email: email.toLowerCase(),
+        role: "super_user_coach",
+        token: crypto.randomBytes(32).toString("hex"),
+        invitedBy: req.user.id,
+        expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+      });
+
+      const inviterName = [req.user.firstName, req.user.lastName].filter(Boolean).join(" ") || req.user.email;
+      const acceptUrl = `${req.protocol}://${req.get("host")}/invite/${invitation.token}`;
+      try {
+        await sendCoachInvitation(invitation, team, inviterName, acceptUrl);
+      } catch (error) {
+        // Nobody got the link, so don't leave a pending invitation behind
+        console.error("Error sending coach invitation:", error);
+        await storage.deleteTeamInvitation(invitation.id);
+        return res.status(500).json({ message: "Failed to send the invitation email", error: error instanceof Error ? error.message : String(error) });
+      }
+
+      const { token: _, ...pending } = invitation;
+      res.json(pending);
+    } catch (error) {
+      console.error("Error inviting coach:", error);
+      res.status(400).json({ message: "Failed to invite coach", error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  app.delete('/api/invitations/:id', isAuthenticated, requireTeamAccess(teamFromInvitation('id'), ["primary_coach"]), async (req, res) => {
+    try {
+      await storage.deleteTeamInvitation(req.params.id);
+      res.json({ message: "Invitation revoked" });
+    } catch (error) {
+      console.error("Error revoking invitation:", error);
+      res.status(500).json({ message: "Failed to revoke invitation" });
+    }
+  });
+
+  app.delete('/api/teams/:teamId/coaches/:coachId', isAuthenticated, requireTeamAccess(teamFromParam('teamId'), ["primary_coach"]), async (req: any, res) => {
+    try {
+      if (req.params.coachId === req.user.id) {
+        return res.status(400).json({ message: "You can't remove yourself from the team" });
+      }
+      await storage.removeTeamCoach(req.params.teamId, req.params.coachId);
+      res.json({ message: "Coach removed" });
+    } catch (error) {
+      console.error("Error removing coach:", error);
+      res.status(500).json({ message: "Failed to remove coach" });
+    }
+  });
+
+  // Invitation links are opened by the invitee, who has no team access yet
+  app.get('/api/invitations/:token', isAuthenticated, async (req, res) => {
+    try {
+      const invitation = await storage.getTeamInvitationByToken(req.params.token);
+      if (!invitation) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      const team = await storage.getTeam(invitation.teamId);
+      res.json({
+        teamName: team?.name,
+        school: team?.school,
+        email: invitation.email,
+        expiresAt: invitation.expiresAt,
+        acceptedAt: invitation.acceptedAt,
+      });
+    } catch (error) {
+      console.error("Error fetching invitation:", error);
+      res.status(500).json({ message: "Failed to fetch invitation" });
+    }
+  });
+
+  app.post('/api/invitations/:token/accept', isAuthenticated, async (req: any, res) => {
+    try {
+      const invitation = await storage.getTeamInvitationByToken(req.params.token);
+      if (!invitation) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      if (invitation.email !== req.user.email?.toLowerCase()) {
+        return res.status(403).json({ message: `This invitation was sent to ${invitation.email}` });
+      }
+
+      const accepted = await storage.acceptTeamInvitation(invitation.id, req.user.id);
+      if (!accepted) {
+        return res.status(409).json({ message: "This invitation has expired or was already used" });
+      }
+      res.json({ teamId: accepted.teamId });
+    } catch (error) {
+      console.error("Error accepting invitation:", error);
+      res.status(500).json({ message: "Failed to accept invitation" });
+    }
+  });
+
   // Athlete routes
-  app.post('/api/teams/:teamId/athletes', isAuthenticated, async (req, res) => {
+  app.post('/api/teams/:teamId/athletes', isAuthenticated, requireTeamAccess(teamFromParam('teamId')), async (req, res) => {
     try {
       const validatedData = insertAthleteSchema.parse({
         ...req.body,
@@ -177,7 +512,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/teams/:teamId/athletes', isAuthenticated, async (req, res) => {
+  app.get('/api/teams/:teamId/athletes', isAuthenticated, requireTeamAccess(teamFromParam('teamId')), async (req, res) => {
     try {
       const athletes = await storage.getAthletesByTeam(req.params.teamId);
       res.json(athletes);
@@ -187,9 +522,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put('/api/athletes/:id', isAuthenticated, async (req, res) => {
+  app.get('/api/athletes/:id/profile', isAuthenticated, requireTeamAccess(teamFromAthlete('id')), async (req, res) => {
     try {
-      const validatedData = insertAthleteSchema.partial().parse(req.body);
+      const athlete = await storage.getAthlete(req.params.id);
+      if (!athlete) {
+        return res.status(404).json({ message: "Athlete not found" });
+      }
+
+      const [seasonStats, competitions, performances, athleteMatches, newsletters, contacts] = await Promise.all([
+        storage.getAthleteSeasonStats(athlete.id),
+        storage.getCompetitionsByTeam(athlete.teamId),
+        storage.getPerformancesByAthlete(athlete.id),
+        storage.getMatchesByAthlete(athlete.id),
+        storage.getNewslettersByTeam(athlete.teamId),
+        storage.getContactsByTeam(athlete.teamId),
+      ]);
+
+      res.json(buildAthleteProfile({
+        athlete,
+        seasonStats,
+        competitions,
+        performances,
+        matches: athleteMatches,
+        newsletters,
+        contacts,
+      }));
+    } catch (error) {
+      console.error("Error fetching athlete profile:", error);
+      res.status(500).json({ message: "Failed to fetch athlete profile" });
+    }
+  });
+
+  app.put('/api/athletes/:id', isAuthenticated, requireTeamAccess(teamFromAthlete('id')), async (req, res) => {
+    try {
+      const validatedData = insertAthleteSchema.omit({ teamId: true }).partial().parse(req.body);
       const athlete = await storage.updateAthlete(req.params.id, validatedData);
       res.json(athlete);
     } catch (error) {
@@ -198,7 +564,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/athletes/:id', isAuthenticated, async (req, res) => {
+  app.delete('/api/athletes/:id', isAuthenticated, requireTeamAccess(teamFromAthlete('id'), ["primary_coach"]), async (req, res) => {
     try {
       await storage.deleteAthlete(req.params.id);
       res.json({ message: "Athlete deleted successfully" });
@@ -208,8 +574,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get('/api/athletes/:id/aliases', isAuthenticated, requireTeamAccess(teamFromAthlete('id')), async (req, res) => {
+    try {
+      const aliases = await storage.getAliasesByAthlete(req.params.id);
+      res.json(aliases);
+    } catch (error) {
+      console.error("Error fetching athlete aliases:", error);
+      res.status(500).json({ message: "Failed to fetch athlete aliases" });
+    }
+  });
+
+  app.delete('/api/athletes/:id/aliases/:aliasId', isAuthenticated, requireTeamAccess(teamFromAthlete('id')), async (req, res) => {
+    try {
+      await storage.deleteAthleteAlias(req.params.id, req.params.aliasId);
+      res.json({ message: "Alias removed" });
+    } catch (error) {
+      console.error("Error deleting athlete alias:", error);
+      res.status(500).json({ message: "Failed to remove alias" });
+    }
+  });
+
   // Upload athlete photo
-  app.post('/api/athletes/:id/photo', isAuthenticated, uploadImage.single('photo'), async (req, res) => {
+  app.post('/api/athletes/:id/photo', isAuthenticated, requireTeamAccess(teamFromAthlete('id')), uploadImage.single('photo'), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ message: "No file uploaded" });
@@ -225,43 +611,68 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Email routes
-  app.post('/api/athletes/:athleteId/emails', isAuthenticated, async (req, res) => {
+  // Contact routes
+  app.get('/api/teams/:teamId/contacts', isAuthenticated, requireTeamAccess(teamFromParam('teamId')), async (req, res) => {
     try {
-      const validatedData = insertAthleteEmailSchema.parse({
-        ...req.body,
-        athleteId: req.params.athleteId
-      });
-      
-      const email = await storage.addAthleteEmail(validatedData);
-      res.json(email);
+      const contacts = await storage.getContactsByTeam(req.params.teamId);
+      res.json(contacts);
     } catch (error) {
-      console.error("Error adding email:", error);
-      res.status(400).json({ message: "Failed to add email", error: error instanceof Error ? error.message : String(error) });
+      console.error("Error fetching contacts:", error);
+      res.status(500).json({ message: "Failed to fetch contacts" });
     }
   });
 
-  app.get('/api/athletes/:athleteId/emails', isAuthenticated, async (req, res) => {
+  app.post('/api/teams/:teamId/contacts', isAuthenticated, requireTeamAccess(teamFromParam('teamId')), async (req, res) => {
     try {
-      const emails = await storage.getAthleteEmails(req.params.athleteId);
-      res.json(emails);
+      const { athletes: links, ...contact } = contactFormSchema.parse(req.body);
+      const invalid = await findForeignAthlete(links.map(link => link.athleteId), req.params.teamId);
+      if (invalid) {
+        return res.status(400).json({ message: "Contact references an athlete outside this team's roster" });
+      }
+      if (contact.email && await storage.getContactByEmail(req.params.teamId, contact.email)) {
+        return res.status(409).json({ message: "A contact with this email already exists. Link them to more athletes instead." });
+      }
+
+      const created = await storage.createContact(req.params.teamId, contact, links);
+      res.json(created);
     } catch (error) {
-      console.error("Error fetching emails:", error);
-      res.status(500).json({ message: "Failed to fetch emails" });
+      console.error("Error creating contact:", error);
+      res.status(400).json({ message: "Failed to create contact", error: error instanceof Error ? error.message : String(error) });
     }
   });
 
-  app.delete('/api/emails/:id', isAuthenticated, async (req, res) => {
+  app.put('/api/contacts/:id', isAuthenticated, requireTeamAccess(teamFromContact('id')), async (req, res) => {
     try {
-      await storage.deleteAthleteEmail(req.params.id);
-      res.json({ message: "Email deleted successfully" });
+      const { athletes: links, ...contact } = contactFormSchema.parse(req.body);
+      const teamId = res.locals.teamId;
+      const invalid = await findForeignAthlete(links.map(link => link.athleteId), teamId);
+      if (invalid) {
+        return res.status(400).json({ message: "Contact references an athlete outside this team's roster" });
+      }
+      const duplicate = contact.email ? await storage.getContactByEmail(teamId, contact.email) : undefined;
+      if (duplicate && duplicate.id !== req.params.id) {
+        return res.status(409).json({ message: "Another contact already uses this email" });
+      }
+
+      const updated = await storage.updateContact(req.params.id, contact, links);
+      res.json(updated);
     } catch (error) {
-      console.error("Error deleting email:", error);
-      res.status(500).json({ message: "Failed to delete email" });
+      console.error("Error updating contact:", error);
+      res.status(400).json({ message: "Failed to update contact", error: error instanceof Error ? error.message : String(error) });
     }
   });
 
-  app.get('/api/teams/:teamId/email-count', isAuthenticated, async (req, res) => {
+  app.delete('/api/contacts/:id', isAuthenticated, requireTeamAccess(teamFromContact('id')), async (req, res) => {
+    try {
+      await storage.deleteContact(req.params.id);
+      res.json({ message: "Contact deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting contact:", error);
+      res.status(500).json({ message: "Failed to delete contact" });
+    }
+  });
+
+  app.get('/api/teams/:teamId/email-count', isAuthenticated, requireTeamAccess(teamFromParam('teamId')), async (req, res) => {
     try {
       const count = await storage.getTeamEmailCount(req.params.teamId);
       res.json({ count });
@@ -271,23 +682,84 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get('/api/teams/:teamId/suppressions', isAuthenticated, requireTeamAccess(teamFromParam('teamId')), async (req, res) => {
+    try {
+      const suppressions = await storage.getSuppressionsByTeam(req.params.teamId);
+      res.json(suppressions);
+    } catch (error) {
+      console.error("Error fetching suppressions:", error);
+      res.status(500).json({ message: "Failed to fetch opted-out addresses" });
+    }
+  });
+
+  // Unsubscribe links are public: recipients have no account, so the signed
+  // token is the only proof of which address and team they belong to
+  app.get('/api/unsubscribe/:token', async (req, res) => {
+    try {
+      const target = verifyUnsubscribeToken(req.params.token);
+      if (!target) {
+        return res.status(404).json({ message: "Unsubscribe link is not valid" });
+      }
+      const team = await storage.getTeam(target.teamId);
+      res.json({
+        teamName: team?.name,
+        school: team?.school,
+        email: target.email,
+        unsubscribed: await storage.isEmailSuppressed(target.teamId, target.email),
+      });
+    } catch (error) {
+      console.error("Error fetching unsubscribe link:", error);
+      res.status(500).json({ message: "Failed to load unsubscribe link" });
+    }
+  });
+
+  // Also the RFC 8058 one-click target, which mail clients POST to directly
+  app.post('/api/unsubscribe/:token', async (req, res) => {
+    try {
+      const target = verifyUnsubscribeToken(req.params.token);
+      if (!target) {
+        return res.status(404).json({ message: "Unsubscribe link is not valid" });
+      }
+      await storage.suppressEmail(target.teamId, target.email, "unsubscribed");
+      res.json({ message: "Unsubscribed", email: target.email });
+    } catch (error) {
+      console.error("Error unsubscribing:", error);
+      res.status(500).json({ message: "Failed to unsubscribe" });
+    }
+  });
+
   // Competition routes
-  app.post('/api/teams/:teamId/competitions', isAuthenticated, upload.single('pdf'), async (req, res) => {
+  // Spreadsheets come with the coach's column mapping and aren't kept once
+  // read; PDFs are stored so they can be re-parsed later
+  app.post('/api/teams/:teamId/competitions', isAuthenticated, requireTeamAccess(teamFromParam('teamId')), uploadResults.single('file'), async (req, res) => {
     try {
       if (!req.file) {
-        return res.status(400).json({ message: "No PDF file uploaded" });
+        return res.status(400).json({ message: "No results file uploaded" });
       }
-      
-      // Parse PDF
-      const parsedData = await parsePDF(req.file.path);
-      
+
+      const file = req.file;
+      const { columns, ...fields } = req.body;
+      let parsedData: ParsedCompetitionData;
+      let pdfUrl: string | null = null;
+      if (isSpreadsheet(file.originalname)) {
+        const rows = await readSpreadsheet(file.path, file.originalname).finally(() => cleanupFile(file.path));
+        parsedData = parseSpreadsheetResults(rows, importColumnsSchema.parse(JSON.parse(columns || "{}")));
+        if (parsedData.athletes.length === 0) {
+          return res.status(400).json({ message: "No results were found with this column mapping" });
+        }
+      } else {
+        // Parse PDF
+        parsedData = await parseTeamResults(file.path, req.params.teamId);
+        pdfUrl = `/uploads/${file.filename}`;
+      }
+
       const validatedData = insertCompetitionSchema.parse({
-        ...req.body,
+        ...fields,
         teamId: req.params.teamId,
-        pdfUrl: `/uploads/${req.file.filename}`,
+        pdfUrl,
         parsedData
       });
-      
+
       const competition = await storage.createCompetition(validatedData);
       res.json(competition);
     } catch (error) {
@@ -296,7 +768,58 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/teams/:teamId/competitions', isAuthenticated, async (req, res) => {
+  // Headers and a few rows of an uploaded spreadsheet, for the column mapping step
+  app.post('/api/teams/:teamId/competitions/preview', isAuthenticated, requireTeamAccess(teamFromParam('teamId')), uploadResults.single('file'), async (req, res) => {
+    try {
+      if (!req.file || !isSpreadsheet(req.file.originalname)) {
+        if (req.file) cleanupFile(req.file.path);
+        return res.status(400).json({ message: "Upload a CSV or XLSX file to preview" });
+      }
+
+      const file = req.file;
+      const rows = await readSpreadsheet(file.path, file.originalname).finally(() => cleanupFile(file.path));
+      if (rows.length < 2) {
+        return res.status(400).json({ message: "The spreadsheet needs a header row and at least one result" });
+      }
+      res.json(previewSpreadsheet(rows));
+    } catch (error) {
+      console.error("Error previewing spreadsheet:", error);
+      res.status(400).json({ message: "Failed to read spreadsheet", error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  app.get('/api/teams/:teamId/import-mappings', isAuthenticated, requireTeamAccess(teamFromParam('teamId')), async (req, res) => {
+    try {
+      const mappings = await storage.getImportMappingsByTeam(req.params.teamId);
+      res.json(mappings);
+    } catch (error) {
+      console.error("Error fetching import mappings:", error);
+      res.status(500).json({ message: "Failed to fetch column mappings" });
+    }
+  });
+
+  app.post('/api/teams/:teamId/import-mappings', isAuthenticated, requireTeamAccess(teamFromParam('teamId')), async (req, res) => {
+    try {
+      const validatedData = insertImportMappingSchema.parse(req.body);
+      const mapping = await storage.saveImportMapping(req.params.teamId, validatedData);
+      res.json(mapping);
+    } catch (error) {
+      console.error("Error saving import mapping:", error);
+      res.status(400).json({ message: "Failed to save column mapping", error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  app.delete('/api/teams/:teamId/import-mappings/:id', isAuthenticated, requireTeamAccess(teamFromParam('teamId')), async (req, res) => {
+    try {
+      await storage.deleteImportMapping(req.params.teamId, req.params.id);
+      res.json({ message: "Column mapping deleted" });
+    } catch (error) {
+      console.error("Error deleting import mapping:", error);
+      res.status(500).json({ message: "Failed to delete column mapping" });
+    }
+  });
+
+  app.get('/api/teams/:teamId/competitions', isAuthenticated, requireTeamAccess(teamFromParam('teamId')), async (req, res) => {
     try {
       const competitions = await storage.getCompetitionsByTeam(req.params.teamId);
       res.json(competitions);
@@ -306,37 +829,424 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get('/api/competitions/:id', isAuthenticated, requireTeamAccess(teamFromCompetition('id')), async (req, res) => {
+    try {
+      const competition = await storage.getCompetition(req.params.id);
+      if (!competition) {
+        return res.status(404).json({ message: "Competition not found" });
+      }
+      res.json(competition);
+    } catch (error) {
+      console.error("Error fetching competition:", error);
+      res.status(500).json({ message: "Failed to fetch competition" });
+    }
+  });
+
+  // Renames or re-dates a competition. A replacement PDF is parsed straight
+  // away and, like a re-parse, waits for review before saved results change.
+  app.put('/api/competitions/:id', isAuthenticated, requireTeamAccess(teamFromCompetition('id')), upload.single('pdf'), async (req, res) => {
+    try {
+      const competition = await storage.getCompetition(req.params.id);
+      if (!competition) {
+        if (req.file) cleanupFile(req.file.path);
+        return res.status(404).json({ message: "Competition not found" });
+      }
+
+      const updates = updateCompetitionSchema.parse(req.body);
+      if (!req.file) {
+        return res.json(await storage.updateCompetition(competition.id, updates));
+      }
+
+      const parsedData = await parseTeamResults(req.file.path, competition.teamId);
+      const updated = await storage.updateCompetition(competition.id, {
+        ...updates,
+        pdfUrl: `/uploads/${req.file.filename}`,
+        parsedData,
+        reviewedAt: null,
+      });
+      const previousFile = competition.pdfUrl ? uploadPath(competition.pdfUrl) : undefined;
+      if (previousFile) cleanupFile(previousFile);
+      res.json(updated);
+    } catch (error) {
+      if (req.file) cleanupFile(req.file.path);
+      console.error("Error updating competition:", error);
+      res.status(400).json({ message: "Failed to update competition", error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  // Team stats are computed from performances, so they drop the deleted
+  // results on the next read
+  app.delete('/api/competitions/:id', isAuthenticated, requireTeamAccess(teamFromCompetition('id')), async (req, res) => {
+    try {
+      const competition = await storage.getCompetition(req.params.id);
+      if (!competition) {
+        return res.status(404).json({ message: "Competition not found" });
+      }
+
+      await storage.deleteCompetition(competition.id);
+      const filePath = competition.pdfUrl ? uploadPath(competition.pdfUrl) : undefined;
+      if (filePath) cleanupFile(filePath);
+      res.json({ message: "Competition deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting competition:", error);
+      res.status(500).json({ message: "Failed to delete competition" });
+    }
+  });
+
+  // Parses the stored PDF again (e.g. after a parser fix). Saved results are
+  // left alone until the coach reviews the new parse.
+  app.post('/api/competitions/:id/reparse', isAuthenticated, requireTeamAccess(teamFromCompetition('id')), async (req, res) => {
+    try {
+      const competition = await storage.getCompetition(req.params.id);
+      if (!competition) {
+        return res.status(404).json({ message: "Competition not found" });
+      }
+
+      const filePath = competition.pdfUrl ? uploadPath(competition.pdfUrl) : undefined;
+      if (!filePath || !fs.existsSync(filePath)) {
+        return res.status(400).json({ message: "This competition has no stored PDF to re-parse" });
+      }
+
+      const parsedData = await parseTeamResults(filePath, competition.teamId);
+      const updated = await storage.updateCompetition(competition.id, { parsedData, reviewedAt: null });
+      res.json(updated);
+    } catch (error) {
+      console.error("Error re-parsing competition:", error);
+      res.status(500).json({ message: "Failed to re-parse competition", error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  // Results review routes
+  app.get('/api/competitions/:id/review', isAuthenticated, requireTeamAccess(teamFromCompetition('id')), async (req, res) => {
+    try {
+      const competition = await storage.getCompetition(req.params.id);
+      if (!competition) {
+        return res.status(404).json({ message: "Competition not found" });
+      }
+
+      const [team, roster, aliases, performances] = await Promise.all([
+        storage.getTeam(competition.teamId),
+        storage.getAthletesByTeam(competition.teamId),
+        storage.getAliasesByTeam(competition.teamId),
+        storage.getPerformancesByCompetition(competition.id),
+      ]);
+      const rows = reconcileParsedAthletes(competition.parsedData as ParsedCompetitionData | null, roster, {
+        schools: teamSchoolNames(team),
+        aliases,
+      });
+
+      res.json({ competition, roster, rows, performances });
+    } catch (error) {
+      console.error("Error building results review:", error);
+      res.status(500).json({ message: "Failed to load results review" });
+    }
+  });
+
+  app.get('/api/competitions/:id/performances', isAuthenticated, requireTeamAccess(teamFromCompetition('id')), async (req, res) => {
+    try {
+      const performances = await storage.getPerformancesByCompetition(req.params.id);
+      res.json(performances);
+    } catch (error) {
+      console.error("Error fetching performances:", error);
+      res.status(500).json({ message: "Failed to fetch performances" });
+    }
+  });
+
+  app.post('/api/competitions/:id/performances', isAuthenticated, requireTeamAccess(teamFromCompetition('id')), async (req, res) => {
+    try {
+      const competition = await storage.getCompetition(req.params.id);
+      if (!competition) {
+        return res.status(404).json({ message: "Competition not found" });
+      }
+
+      const { performances } = competitionReviewSchema.parse(req.body);
+      const [team, roster, aliases] = await Promise.all([
+        storage.getTeam(competition.teamId),
+        storage.getAthletesByTeam(competition.teamId),
+        storage.getAliasesByTeam(competition.teamId),
+      ]);
+      const rosterIds = new Set(roster.map(athlete => athlete.id));
+      const foreign = performances.find(perf => !rosterIds.has(perf.athleteId));
+      if (foreign) {
+        return res.status(400).json({ message: "Performance references an athlete outside this team's roster" });
+      }
+
+      // Rows linked to a parsed athlete carry their bouts over as individual matches
+      const parsedData = competition.parsedData as ParsedCompetitionData | null;
+      const matchRows = performances.flatMap(({ parsedIndex, athleteId }) => {
+        const parsed = parsedIndex !== undefined ? parsedData?.athletes[parsedIndex] : undefined;
+        return parsed ? matchesFromBouts(parsedData, parsed, competition.id, athleteId) : [];
+      });
+
+      const saved = await storage.replaceCompetitionPerformances(
+        competition.id,
+        performances.map(({ parsedIndex, ...perf }) => ({ ...perf, competitionId: competition.id })),
+        matchRows
+      );
+
+      // Links the coach had to make by hand are remembered for next time
+      const rows = reconcileParsedAthletes(parsedData, roster, { schools: teamSchoolNames(team), aliases });
+      await storage.addAthleteAliases(manualAliases(rows, performances, roster));
+      res.json(saved);
+    } catch (error) {
+      console.error("Error saving performances:", error);
+      res.status(400).json({ message: "Failed to save performances", error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  app.put('/api/performances/:id', isAuthenticated, requireTeamAccess(teamFromPerformance('id')), async (req, res) => {
+    try {
+      const validatedData = insertAthletePerformanceSchema
+        .pick({ placement: true, wins: true, losses: true, pins: true, takedowns: true, notes: true })
+        .partial()
+        .parse(req.body);
+
+      // With bouts recorded, the record is recomputed from them on every bout change
+      const { wins, losses, pins } = validatedData;
+      if (wins !== undefined || losses !== undefined || pins !== undefined) {
+        const existing = await storage.getPerformance(req.params.id);
+        const bouts = existing ? await storage.getMatchesByCompetition(existing.competitionId) : [];
+        if (existing && bouts.some(match => match.athleteId === existing.athleteId)) {
+          return res.status(409).json({ message: "Wins, losses and pins for this result come from its bouts. Edit the bouts to change them." });
+        }
+      }
+
+      const performance = await storage.updatePerformance(req.params.id, validatedData);
+      res.json(performance);
+    } catch (error) {
+      console.error("Error updating performance:", error);
+      res.status(400).json({ message: "Failed to update result", error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  app.delete('/api/performances/:id', isAuthenticated, requireTeamAccess(teamFromPerformance('id')), async (req, res) => {
+    try {
+      await storage.deletePerformance(req.params.id);
+      res.json({ message: "Result deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting performance:", error);
+      res.status(500).json({ message: "Failed to delete result" });
+    }
+  });
+
+  // Match routes
+  app.get('/api/competitions/:id/matches', isAuthenticated, requireTeamAccess(teamFromCompetition('id')), async (req, res) => {
+    try {
+      const matches = await storage.getMatchesByCompetition(req.params.id);
+      res.json(matches);
+    } catch (error) {
+      console.error("Error fetching matches:", error);
+      res.status(500).json({ message: "Failed to fetch matches" });
+    }
+  });
+
+  app.get('/api/athletes/:athleteId/matches', isAuthenticated, requireTeamAccess(teamFromAthlete('athleteId')), async (req, res) => {
+    try {
+      const matches = await storage.getMatchesByAthlete(req.params.athleteId);
+      res.json(matches);
+    } catch (error) {
+      console.error("Error fetching matches:", error);
+      res.status(500).json({ message: "Failed to fetch matches" });
+    }
+  });
+
+  app.post('/api/competitions/:id/matches', isAuthenticated, requireTeamAccess(teamFromCompetition('id')), async (req, res) => {
+    try {
+      const validatedData = insertMatchSchema.parse({
+        ...req.body,
+        competitionId: req.params.id
+      });
+
+      const athlete = await storage.getAthlete(validatedData.athleteId);
+      if (athlete?.teamId !== res.locals.teamId) {
+        return res.status(400).json({ message: "Match references an athlete outside this team's roster" });
+      }
+
+      const match = await storage.createMatch(validatedData);
+      await storage.syncPerformanceFromMatches(match.competitionId, match.athleteId);
+      res.json(match);
+    } catch (error) {
+      console.error("Error creating match:", error);
+      res.status(400).json({ message: "Failed to create match", error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  app.put('/api/matches/:id', isAuthenticated, requireTeamAccess(teamFromMatch('id')), async (req, res) => {
+    try {
+      const existing = await storage.getMatch(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Match not found" });
+      }
+
+      const validatedData = insertMatchSchema.omit({ competitionId: true }).partial().parse(req.body);
+      if (validatedData.athleteId) {
+        const athlete = await storage.getAthlete(validatedData.athleteId);
+        if (athlete?.teamId !== res.locals.teamId) {
+          return res.status(400).json({ message: "Match references an athlete outside this team's roster" });
+        }
+      }
+      const match = await storage.updateMatch(req.params.id, validatedData);
+      await storage.syncPerformanceFromMatches(match.competitionId, match.athleteId);
+      if (existing.athleteId !== match.athleteId) {
+        await storage.syncPerformanceFromMatches(existing.competitionId, existing.athleteId);
+      }
+      res.json(match);
+    } catch (error) {
+      console.error("Error updating match:", error);
+      res.status(400).json({ message: "Failed to update match", error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  app.delete('/api/matches/:id', isAuthenticated, requireTeamAccess(teamFromMatch('id')), async (req, res) => {
+    try {
+      const existing = await storage.getMatch(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Match not found" });
+      }
+
+      await storage.deleteMatch(existing.id);
+      await storage.syncPerformanceFromMatches(existing.competitionId, existing.athleteId);
+      res.json({ message: "Match deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting match:", error);
+      res.status(500).json({ message: "Failed to delete match" });
+    }
+  });
+
   // AI content generation routes
-  app.post('/api/athletes/:athleteId/generate-message', isAuthenticated, async (req, res) => {
+  app.post('/api/athletes/:athleteId/generate-message', isAuthenticated, requireTeamAccess(teamFromAthlete('athleteId')), async (req: any, res) => {
     try {
-      const { teamBrandVoice, recentPerformance } = req.body;
+      const { teamBrandVoice, competitionId } = req.body;
+      let { recentPerformance } = req.body;
       const athlete = await storage.getAthlete(req.params.athleteId);
       
       if (!athlete) {
         return res.status(404).json({ message: "Athlete not found" });
       }
+
+      // With a competition, the athlete's saved results there are the source of truth
+      if (competitionId) {
+        const competition = await storage.getCompetition(competitionId);
+        if (!competition || competition.teamId !== athlete.teamId) {
+          return res.status(404).json({ message: "Competition not found" });
+        }
+        const performance = (await storage.getPerformancesByCompetition(competition.id))
+          .find(perf => perf.athleteId === athlete.id);
+        recentPerformance = {
+          competitionName: competition.name,
+          placement: performance?.placement,
+          wins: performance?.wins,
+          losses: performance?.losses,
+          pins: performance?.pins,
+          takedowns: performance?.takedowns,
+          notes: performance?.notes,
+        };
+      }
       
       const seasonStats = await storage.getAthleteSeasonStats(req.params.athleteId);
-      const message = await generateAthleteMessage(athlete, recentPerformance, seasonStats, teamBrandVoice);
+      const team = await storage.getTeam(athlete.teamId);
+      const settings = await storage.getPromptSettings(athlete.teamId) || defaultPromptSettings;
+      const generated = await generateAthleteMessage({
+        athlete,
+        recentPerformance,
+        seasonStats,
+        brandVoice: teamBrandVoice || team?.brandVoice || undefined,
+        settings,
+      });
+
+      const generation = await storage.createAiGeneration({
+        teamId: athlete.teamId,
+        kind: "athlete",
+        athleteId: athlete.id,
+        competitionId: competitionId || null,
+        input: { recentPerformance, seasonStats, settings },
+        promptVersion: generated.promptVersion,
+        provider: generated.provider,
+        fallback: generated.fallback,
+        output: generated.message,
+        violations: generated.violations,
+        createdBy: (req.user as any).id,
+      });
       
-      res.json({ message });
+      res.json({ ...generated, generationId: generation.id });
     } catch (error) {
       console.error("Error generating athlete message:", error);
       res.status(500).json({ message: "Failed to generate message", error: error instanceof Error ? error.message : String(error) });
     }
   });
 
-  app.post('/api/teams/:teamId/generate-team-message', isAuthenticated, async (req, res) => {
+  // Past drafts for one athlete, newest first, so coaches can reuse them
+  app.get('/api/athletes/:athleteId/generations', isAuthenticated, requireTeamAccess(teamFromAthlete('athleteId')), async (req, res) => {
     try {
-      const { competitionName, teamPerformance } = req.body;
+      const generations = await storage.getAiGenerationsByAthlete(req.params.athleteId);
+      res.json(generations);
+    } catch (error) {
+      console.error("Error fetching generation history:", error);
+      res.status(500).json({ message: "Failed to fetch generation history" });
+    }
+  });
+
+  app.get('/api/teams/:teamId/generation-stats', isAuthenticated, requireTeamAccess(teamFromParam('teamId')), async (req, res) => {
+    try {
+      const generations = await storage.getAiGenerationsByTeam(req.params.teamId);
+      res.json(summarizeGenerations(generations));
+    } catch (error) {
+      console.error("Error fetching generation stats:", error);
+      res.status(500).json({ message: "Failed to fetch generation stats" });
+    }
+  });
+
+  app.post('/api/teams/:teamId/generate-team-message', isAuthenticated, requireTeamAccess(teamFromParam('teamId')), async (req: any, res) => {
+    try {
+      const { competitionId } = req.body;
       const team = await storage.getTeam(req.params.teamId);
       
       if (!team) {
         return res.status(404).json({ message: "Team not found" });
       }
-      
-      const message = await generateTeamMessage(team, competitionName, teamPerformance);
-      res.json({ message });
+      if (!competitionId) {
+        return res.status(400).json({ message: "competitionId is required" });
+      }
+
+      const competition = await storage.getCompetition(competitionId);
+      if (!competition || competition.teamId !== team.id) {
+        return res.status(404).json({ message: "Competition not found" });
+      }
+
+      // The summary is built from saved results so the AI only sees real outcomes
+      const [athletes, performances, competitionMatches, priorPerformances, priorMatches] = await Promise.all([
+        storage.getAthletesByTeam(team.id),
+        storage.getPerformancesByCompetition(competition.id),
+        storage.getMatchesByCompetition(competition.id),
+        storage.getTeamPerformancesBefore(team.id, competition.date),
+        storage.getTeamMatchesBefore(team.id, competition.date),
+      ]);
+      const summary = buildTeamSummary({
+        competition,
+        athletes,
+        performances,
+        matches: competitionMatches,
+        priorPerformances,
+        priorMatches,
+      });
+
+      const settings = await storage.getPromptSettings(team.id) || defaultPromptSettings;
+      const generated = await generateTeamMessage({ team, summary, settings });
+
+      const generation = await storage.createAiGeneration({
+        teamId: team.id,
+        kind: "team",
+        competitionId: competition.id,
+        input: { summary, settings },
+        promptVersion: generated.promptVersion,
+        provider: generated.provider,
+        fallback: generated.fallback,
+        output: generated.message,
+        violations: generated.violations,
+        createdBy: (req.user as any).id,
+      });
+
+      res.json({ ...generated, summary, generationId: generation.id });
     } catch (error) {
       console.error("Error generating team message:", error);
       res.status(500).json({ message: "Failed to generate message", error: error instanceof Error ? error.message : String(error) });
@@ -344,16 +1254,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Newsletter routes
-  app.post('/api/teams/:teamId/newsletters', isAuthenticated, async (req: any, res) => {
+  app.post('/api/teams/:teamId/newsletters', isAuthenticated, requireTeamAccess(teamFromParam('teamId')), async (req: any, res) => {
     try {
+      const parsed = createNewsletterSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid newsletter", error: parsed.error.message });
+      }
       const userId = (req.user as any).id;
+      const team = await storage.getTeam(req.params.teamId);
+      const { teamMessageGenerationId, ...content } = parsed.data;
       const validatedData = {
-        ...req.body,
+        ...content,
+        layout: content.layout || team?.defaultLayout,
         teamId: req.params.teamId,
-        createdBy: userId
+        createdBy: userId,
+        status: "draft" as const,
+        sentAt: null,
       };
-      
+
       const newsletter = await storage.createNewsletter(validatedData);
+
+      // Link the AI drafts to what the coach actually kept, edits included
+      const usages = (Array.isArray(content.athleteMessages) ? content.athleteMessages : [])
+        .filter((entry: any) => typeof entry?.generationId === "string" && typeof entry.message === "string")
+        .map((entry: any) => ({ generationId: entry.generationId, finalText: entry.message }));
+      if (typeof teamMessageGenerationId === "string" && typeof content.teamMessage === "string") {
+        usages.push({ generationId: teamMessageGenerationId, finalText: content.teamMessage });
+      }
+      await storage.recordGenerationUsage(req.params.teamId, newsletter.id, usages);
+
       res.json(newsletter);
     } catch (error) {
       console.error("Error creating newsletter:", error);
@@ -361,7 +1290,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/teams/:teamId/newsletters', isAuthenticated, async (req, res) => {
+  // Renders unsaved content with the same templates the email queue sends
+  app.post('/api/teams/:teamId/newsletters/preview', isAuthenticated, requireTeamAccess(teamFromParam('teamId')), async (req, res) => {
+    try {
+      const parsed = newsletterPreviewSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid preview", error: parsed.error.message });
+      }
+      const team = await storage.getTeam(req.params.teamId);
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      const athletes = await storage.getAthletesByTeam(team.id);
+      const athletePhotos = Object.fromEntries(
+        athletes.filter(athlete => athlete.profilePhotoUrl).map(athlete => [athlete.id, athlete.profilePhotoUrl!])
+      );
+      const { html, text } = renderNewsletter(parsed.data, team, { logo: team.logoUrl || undefined, athletePhotos });
+      res.json({ html, text, warnings: brandContrastWarnings(team.primaryColor || "#3B82F6") });
+    } catch (error) {
+      console.error("Error rendering newsletter preview:", error);
+      res.status(500).json({ message: "Failed to render preview" });
+    }
+  });
+
+  app.get('/api/teams/:teamId/newsletters', isAuthenticated, requireTeamAccess(teamFromParam('teamId')), async (req, res) => {
     try {
       const newsletters = await storage.getNewslettersByTeam(req.params.teamId);
       res.json(newsletters);
@@ -371,24 +1323,52 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/newsletters/:id/send', isAuthenticated, async (req, res) => {
+  app.post('/api/newsletters/:id/send', isAuthenticated, requireTeamAccess(teamFromNewsletter('id')), async (req, res) => {
     try {
-      const newsletter = await storage.updateNewsletter(req.params.id, {
-        sentAt: new Date(),
-      });
+      const newsletter = await storage.claimNewsletterForSending(req.params.id);
+      if (!newsletter) {
+        return res.status(409).json({ message: "Newsletter has already been sent or is currently sending" });
+      }
       
       // Send email newsletter
-      await sendNewsletter(newsletter);
+      await deliverNewsletter(newsletter);
       
-      res.json({ message: "Newsletter sent successfully" });
+      res.json({ message: "Newsletter queued for delivery" });
     } catch (error) {
       console.error("Error sending newsletter:", error);
       res.status(500).json({ message: "Failed to send newsletter", error: error instanceof Error ? error.message : String(error) });
     }
   });
 
+  app.put('/api/newsletters/:id/schedule', isAuthenticated, requireTeamAccess(teamFromNewsletter('id')), async (req, res) => {
+    try {
+      const { scheduledFor } = scheduleNewsletterSchema.parse(req.body);
+      const newsletter = await storage.scheduleNewsletter(req.params.id, scheduledFor);
+      if (!newsletter) {
+        return res.status(409).json({ message: "Newsletter is already sending, sent or queued for delivery and can't be rescheduled" });
+      }
+      res.json(newsletter);
+    } catch (error) {
+      console.error("Error scheduling newsletter:", error);
+      res.status(400).json({ message: "Failed to schedule newsletter", error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  app.delete('/api/newsletters/:id/schedule', isAuthenticated, requireTeamAccess(teamFromNewsletter('id')), async (req, res) => {
+    try {
+      const newsletter = await storage.cancelNewsletterSchedule(req.params.id);
+      if (!newsletter) {
+        return res.status(409).json({ message: "Newsletter is not scheduled" });
+      }
+      res.json(newsletter);
+    } catch (error) {
+      console.error("Error cancelling newsletter schedule:", error);
+      res.status(500).json({ message: "Failed to cancel scheduled newsletter" });
+    }
+  });
+
   // Message history routes
-  app.get('/api/teams/:teamId/message-history', isAuthenticated, async (req, res) => {
+  app.get('/api/teams/:teamId/message-history', isAuthenticated, requireTeamAccess(teamFromParam('teamId')), async (req, res) => {
     try {
       const history = await storage.getMessageHistory(req.params.teamId);
       res.json(history);
@@ -398,6 +1378,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Delivery status routes
+  app.get('/api/newsletters/:id/deliveries', isAuthenticated, requireTeamAccess(teamFromNewsletter('id')), async (req, res) => {
+    try {
+      const deliveries = await storage.getDeliveriesByNewsletter(req.params.id);
+      res.json(deliveries);
+    } catch (error) {
+      console.error("Error fetching newsletter deliveries:", error);
+      res.status(500).json({ message: "Failed to fetch newsletter deliveries" });
+    }
+  });
+
+  app.get('/api/teams/:teamId/delivery-stats', isAuthenticated, requireTeamAccess(teamFromParam('teamId')), async (req, res) => {
+    try {
+      const stats = await storage.getDeliveryCountsByTeam(req.params.teamId);
+      res.json(stats);
+    } catch (error) {
+      console.error("Error fetching delivery stats:", error);
+      res.status(500).json({ message: "Failed to fetch delivery stats" });
+    }
+  });
+
   // Serve uploaded files
   app.use('/uploads', express.static('uploads'));
 
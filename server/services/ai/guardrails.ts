@@ -0,0 +1,86 @@
+import type { Athlete, InsertPromptSettings, MessageLength } from "@shared/schema";
+
+export const defaultPromptSettings: InsertPromptSettings = {
+  messageLength: "medium",
+  motto: null,
+  requiredPhrases: [],
+  bannedPhrases: [],
+  hideLossesForGrades: [],
+};
+
+// Target word counts handed to the model
+export const WORD_RANGES: Record<"athlete" | "team", Record<MessageLength, [number, number]>> = {
+  athlete: { short: [30, 50], medium: [50, 100], long: [100, 150] },
+  team: { short: [60, 100], medium: [100, 150], long: [150, 220] },
+};
+
+// Models drift from word targets; only flag clear misses. A short message is
+// less of a problem than a rambling one, so that side gets more slack.
+const MAX_LENGTH_FACTOR = 1.25;
+const MIN_LENGTH_FACTOR = 0.5;
+
+const LOSS_PATTERN = /\b(loss|losses|lost|losing|defeat|defeated|fell to)\b/i;
+
+export interface MessageRules {
+  wordRange: [number, number];
+  requiredPhrases: string[];
+  bannedPhrases: string[];
+  hideLosses: boolean;
+}
+
+function normalizeGrade(grade: string): string {
+  return grade.trim().toLowerCase();
+}
+
+export function hidesLosses(settings: InsertPromptSettings, athlete: Pick<Athlete, "grade">): boolean {
+  const grade = normalizeGrade(athlete.grade);
+  return settings.hideLossesForGrades.some(hidden => normalizeGrade(hidden) === grade);
+}
+
+export function athleteMessageRules(settings: InsertPromptSettings, athlete: Pick<Athlete, "grade">): MessageRules {
+  return {
+    wordRange: WORD_RANGES.athlete[settings.messageLength ?? "medium"],
+    requiredPhrases: settings.requiredPhrases,
+    bannedPhrases: settings.bannedPhrases,
+    hideLosses: hidesLosses(settings, athlete),
+  };
+}
+
+export function teamMessageRules(settings: InsertPromptSettings): MessageRules {
+  return {
+    wordRange: WORD_RANGES.team[settings.messageLength ?? "medium"],
+    requiredPhrases: settings.requiredPhrases,
+    bannedPhrases: settings.bannedPhrases,
+    hideLosses: false,
+  };
+}
+
+// Returns one human-readable line per broken rule; empty means the message passes
+export function checkMessage(message: string, rules: MessageRules): string[] {
+  const violations: string[] = [];
+  const lower = message.toLowerCase();
+
+  for (const phrase of rules.bannedPhrases) {
+    if (lower.includes(phrase.toLowerCase())) {
+      violations.push(`Uses the banned phrase "${phrase}"`);
+    }
+  }
+  for (const phrase of rules.requiredPhrases) {
+    if (!lower.includes(phrase.toLowerCase())) {
+      violations.push(`Is missing the required phrase "${phrase}"`);
+    }
+  }
+  if (rules.hideLosses && LOSS_PATTERN.test(message)) {
+    violations.push("Mentions a loss for an athlete whose losses should not be mentioned");
+  }
+
+  const words = message.split(/\s+/).filter(Boolean).length;
+  const [min, max] = rules.wordRange;
+  if (words > max * MAX_LENGTH_FACTOR) {
+    violations.push(`Is ${words} words long (target ${min}-${max})`);
+  } else if (words < min * MIN_LENGTH_FACTOR) {
+    violations.push(`Is only ${words} words long (target ${min}-${max})`);
+  }
+
+  return violations;
+}
@@ -0,0 +1,54 @@
+import type { AiGeneration } from "@shared/schema";
+
+// A draft counts as heavily rewritten once at least half its words changed
+export const HEAVY_REWRITE_THRESHOLD = 0.5;
+
+export interface GenerationStats {
+  total: number;
+  used: number;
+  sent: number;
+  edited: number;
+  heavilyRewritten: number;
+  // Mean rewrite ratio across used drafts, 0 (untouched) to 1 (replaced)
+  averageRewrite: number;
+}
+
+function words(text: string): string[] {
+  return text.toLowerCase().split(/\s+/).filter(Boolean);
+}
+
+// Word-level edit distance over the longer text's length: 0 when the coach
+// sent the draft as-is, 1 when nothing of it survived
+export function rewriteRatio(output: string, finalText: string): number {
+  const a = words(output);
+  const b = words(finalText);
+  if (a.length === 0 && b.length === 0) return 0;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length] / Math.max(a.length, b.length);
+}
+
+export function summarizeGenerations(generations: AiGeneration[]): GenerationStats {
+  const used = generations.filter(generation => generation.finalText !== null);
+  const ratios = used.map(generation => rewriteRatio(generation.output, generation.finalText!));
+
+  return {
+    total: generations.length,
+    used: used.length,
+    sent: generations.filter(generation => generation.sentAt).length,
+    edited: ratios.filter(ratio => ratio > 0).length,
+    heavilyRewritten: ratios.filter(ratio => ratio >= HEAVY_REWRITE_THRESHOLD).length,
+    averageRewrite: ratios.length ? ratios.reduce((sum, ratio) => sum + ratio, 0) / ratios.length : 0,
+  };
+}
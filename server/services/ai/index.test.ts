@@ -0,0 +1,160 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Athlete } from "@shared/schema";
+import { defaultPromptSettings, generateAthleteMessage, getAiProvider, type AthleteMessageInput } from "./index";
+import { checkMessage, WORD_RANGES } from "./guardrails";
+import { openAiProvider } from "./openai";
+import { stubProvider } from "./stub";
+
+const athlete: Athlete = {
+  id: "athlete-1",
+  teamId: "team-1",
+  name: "Jack Smith",
+  grade: "9th",
+  weightClass: "106",
+  profilePhotoUrl: null,
+  createdAt: null,
+  updatedAt: null,
+};
+
+function input(overrides: Partial<AthleteMessageInput> = {}): AthleteMessageInput {
+  return {
+    athlete,
+    recentPerformance: { competitionName: "County Open", placement: 2, wins: 3, losses: 1 },
+    seasonStats: { wins: 10, losses: 2, pins: 4 },
+    settings: defaultPromptSettings,
+    ...overrides,
+  };
+}
+
+// A message inside the medium athlete word range
+function message(extra = ""): string {
+  return `${"Great tournament for Jack this weekend. ".repeat(10)}${extra}`.trim();
+}
+
+describe("getAiProvider", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it("uses the provider named by AI_PROVIDER", () => {
+    vi.stubEnv("AI_PROVIDER", " OpenAI ");
+    expect(getAiProvider()).toBe(openAiProvider);
+    vi.stubEnv("AI_PROVIDER", "stub");
+    expect(getAiProvider()).toBe(stubProvider);
+  });
+
+  it("uses OpenAI when a key is configured and the stub otherwise", () => {
+    vi.stubEnv("AI_PROVIDER", "");
+    vi.stubEnv("OPENAI_API_KEY_ENV_VAR", "");
+    vi.stubEnv("OPENAI_API_KEY", "sk-test");
+    expect(getAiProvider()).toBe(openAiProvider);
+    vi.stubEnv("OPENAI_API_KEY", "");
+    expect(getAiProvider()).toBe(stubProvider);
+  });
+
+  it("falls back to the stub for an unknown AI_PROVIDER and warns once", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.stubEnv("AI_PROVIDER", "opnai");
+    expect(getAiProvider()).toBe(stubProvider);
+    expect(getAiProvider()).toBe(stubProvider);
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][0]).toContain('Unknown AI_PROVIDER "opnai"');
+  });
+});
+
+describe("generateAthleteMessage guardrails", () => {
+  beforeEach(() => {
+    vi.stubEnv("AI_PROVIDER", "openai");
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it("returns a message that follows the team rules as is", async () => {
+    const generate = vi.spyOn(openAiProvider, "generateAthleteMessage").mockResolvedValue(message());
+
+    const result = await generateAthleteMessage(input());
+
+    expect(generate).toHaveBeenCalledTimes(1);
+    expect(result).toMatchObject({ message: message(), provider: "openai", fallback: false, violations: [] });
+    expect(result.promptVersion).toEqual(expect.any(String));
+  });
+
+  it("retries once with the broken rules spelled out", async () => {
+    const settings = { ...defaultPromptSettings, bannedPhrases: ["crushed"], requiredPhrases: ["Go Wildcats"] };
+    const generate = vi.spyOn(openAiProvider, "generateAthleteMessage")
+      .mockResolvedValueOnce(message("He crushed it."))
+      .mockResolvedValueOnce(message("Go Wildcats!"));
+
+    const result = await generateAthleteMessage(input({ settings }));
+
+    expect(generate).toHaveBeenCalledTimes(2);
+    expect(generate.mock.calls[1][0].previousViolations).toEqual([
+      'Uses the banned phrase "crushed"',
+      'Is missing the required phrase "Go Wildcats"',
+    ]);
+    expect(result.violations).toEqual([]);
+    expect(result.message).toContain("Go Wildcats!");
+  });
+
+  it("reports rules still broken after the retry as warnings", async () => {
+    const settings = { ...defaultPromptSettings, bannedPhrases: ["crushed"] };
+    const generate = vi.spyOn(openAiProvider, "generateAthleteMessage").mockResolvedValue(message("He crushed it."));
+
+    const result = await generateAthleteMessage(input({ settings }));
+
+    expect(generate).toHaveBeenCalledTimes(2);
+    expect(result.violations).toEqual(['Uses the banned phrase "crushed"']);
+  });
+
+  it("keeps hidden losses out of the provider's input", async () => {
+    const settings = { ...defaultPromptSettings, hideLossesForGrades: ["9TH"] };
+    const generate = vi.spyOn(openAiProvider, "generateAthleteMessage").mockResolvedValue(message());
+
+    await generateAthleteMessage(input({ settings }));
+
+    const sent = generate.mock.calls[0][0].recentPerformance;
+    expect(sent.losses).toBeUndefined();
+    expect(sent.wins).toBe(3);
+  });
+
+  it("flags a mentioned loss when losses are hidden", async () => {
+    const settings = { ...defaultPromptSettings, hideLossesForGrades: ["9th"] };
+    vi.spyOn(openAiProvider, "generateAthleteMessage").mockResolvedValue(message("He lost in the final."));
+
+    const result = await generateAthleteMessage(input({ settings }));
+
+    expect(result.violations).toEqual(["Mentions a loss for an athlete whose losses should not be mentioned"]);
+  });
+
+  it("writes the message with the stub when the provider fails", async () => {
+    vi.spyOn(openAiProvider, "generateAthleteMessage").mockRejectedValue(new Error("rate limited"));
+
+    const result = await generateAthleteMessage(input());
+
+    expect(result.provider).toBe("stub");
+    expect(result.fallback).toBe(true);
+    expect(result.message).toContain("Jack Smith");
+  });
+});
+
+describe("checkMessage", () => {
+  const rules = { wordRange: WORD_RANGES.athlete.medium, requiredPhrases: [], bannedPhrases: [], hideLosses: false };
+
+  it("matches phrases regardless of case", () => {
+    expect(checkMessage(message("GO WILDCATS"), { ...rules, requiredPhrases: ["go wildcats"] })).toEqual([]);
+    expect(checkMessage(message("What a BEAST"), { ...rules, bannedPhrases: ["beast"] })).toEqual(['Uses the banned phrase "beast"']);
+  });
+
+  it("only flags clear misses of the word target", () => {
+    const words = (count: number) => Array(count).fill("pin").join(" ");
+    expect(checkMessage(words(125), rules)).toEqual([]);
+    expect(checkMessage(words(126), rules)).toEqual(["Is 126 words long (target 50-100)"]);
+    expect(checkMessage(words(25), rules)).toEqual([]);
+    expect(checkMessage(words(24), rules)).toEqual(["Is only 24 words long (target 50-100)"]);
+  });
+});
@@ -0,0 +1,98 @@
+import type { AiProvider, AthleteMessageInput, TeamMessageInput } from "./types";
+import { openAiProvider } from "./openai";
+import { stubProvider } from "./stub";
+import { PROMPT_VERSION } from "./prompts";
+import { athleteMessageRules, checkMessage, teamMessageRules, type MessageRules } from "./guardrails";
+
+export type { AiProvider, AthleteMessageInput, TeamMessageInput, SeasonStats } from "./types";
+export { defaultPromptSettings } from "./guardrails";
+
+// To add a provider, implement AiProvider and register it here
+const providers: Record<string, AiProvider> = {
+  [openAiProvider.id]: openAiProvider,
+  [stubProvider.id]: stubProvider,
+};
+
+export interface GeneratedMessage {
+  message: string;
+  provider: string;
+  // True when the configured provider failed and the stub wrote the message
+  fallback: boolean;
+  // Team rules the message still breaks after the retry; shown to the coach as warnings
+  violations: string[];
+  promptVersion: string;
+}
+
+// One retry with the broken rules spelled out usually fixes a draft
+const MAX_ATTEMPTS = 2;
+
+// Unknown AI_PROVIDER values already warned about, so the log isn't flooded
+const warnedProviders = new Set<string>();
+
+// AI_PROVIDER picks the provider; without it, OpenAI is used when a key is
+// configured and the offline stub otherwise. A misspelt AI_PROVIDER falls back
+// to the stub with a warning rather than failing every generation.
+export function getAiProvider(): AiProvider {
+  const configured = process.env.AI_PROVIDER?.trim().toLowerCase();
+  if (configured) {
+    const provider = providers[configured];
+    if (!provider) {
+      if (!warnedProviders.has(configured)) {
+        warnedProviders.add(configured);
+        console.warn(`Unknown AI_PROVIDER "${configured}"; using the stub. Expected one of: ${Object.keys(providers).join(", ")}`);
+      }
+      return stubProvider;
+    }
+    return provider;
+  }
+  return process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY_ENV_VAR ? openAiProvider : stubProvider;
+}
+
+async function withFallback(
+  kind: string,
+  generate: (provider: AiProvider) => Promise<string>
+): Promise<Omit<GeneratedMessage, "violations" | "promptVersion">> {
+  const provider = getAiProvider();
+  try {
+    return { message: await generate(provider), provider: provider.id, fallback: false };
+  } catch (error) {
+    if (provider === stubProvider) throw error;
+    console.warn(`AI provider "${provider.id}" failed to generate ${kind}; using the stub instead:`, error);
+    return { message: await generate(stubProvider), provider: stubProvider.id, fallback: true };
+  }
+}
+
+async function withGuardrails(
+  kind: string,
+  rules: MessageRules,
+  generate: (provider: AiProvider, previousViolations: string[]) => Promise<string>
+): Promise<GeneratedMessage> {
+  let previousViolations: string[] = [];
+  for (let attempt = 1; ; attempt++) {
+    const result = await withFallback(kind, provider => generate(provider, previousViolations));
+    const violations = checkMessage(result.message, rules);
+    if (violations.length === 0 || attempt >= MAX_ATTEMPTS) {
+      return { ...result, violations, promptVersion: PROMPT_VERSION };
+    }
+    console.warn(`Generated ${kind} broke team rules; retrying:`, violations);
+    previousViolations = violations;
+  }
+}
+
+export function generateAthleteMessage(input: AthleteMessageInput): Promise<GeneratedMessage> {
+  const rules = athleteMessageRules(input.settings, input.athlete);
+  // Keep hidden losses out of the data entirely rather than trusting the prompt
+  const recentPerformance = rules.hideLosses && input.recentPerformance && typeof input.recentPerformance === "object"
+    ? { ...input.recentPerformance, losses: undefined }
+    : input.recentPerformance;
+
+  return withGuardrails("an athlete message", rules, (provider, previousViolations) =>
+    provider.generateAthleteMessage({ ...input, recentPerformance, previousViolations })
+  );
+}
+
+export function generateTeamMessage(input: TeamMessageInput): Promise<GeneratedMessage> {
+  return withGuardrails("a team message", teamMessageRules(input.settings), (provider, previousViolations) =>
+    provider.generateTeamMessage({ ...input, previousViolations })
+  );
+}
@@ -0,0 +1,48 @@
+import OpenAI from "openai";
+import type { AiProvider } from "./types";
+import { ATHLETE_SYSTEM_PROMPT, TEAM_SYSTEM_PROMPT, athleteMessagePrompt, teamMessagePrompt } from "./prompts";
+
+const OPENAI_MODEL = process.env.OPENAI_MODEL || "gpt-5";
+
+let client: OpenAI | undefined;
+
+// Created on first use so the server starts, and the stub works, without a key
+function getClient(): OpenAI {
+  if (!client) {
+    const apiKey = process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY_ENV_VAR;
+    if (!apiKey) {
+      throw new Error("OPENAI_API_KEY is not set");
+    }
+    client = new OpenAI({ apiKey });
+  }
+  return client;
+}
+
+async function complete(system: string, prompt: string): Promise<string> {
+  const response = await getClient().chat.completions.create({
+    model: OPENAI_MODEL,
+    messages: [
+      { role: "system", content: system },
+      { role: "user", content: prompt },
+    ],
+    response_format: { type: "json_object" },
+  });
+
+  const result = JSON.parse(response.choices[0].message.content || "{}");
+  if (typeof result.message !== "string" || !result.message.trim()) {
+    throw new Error("OpenAI response did not include a message");
+  }
+  return result.message.trim();
+}
+
+export const openAiProvider: AiProvider = {
+  id: "openai",
+
+  generateAthleteMessage(input) {
+    return complete(ATHLETE_SYSTEM_PROMPT, athleteMessagePrompt(input));
+  },
+
+  generateTeamMessage(input) {
+    return complete(TEAM_SYSTEM_PROMPT, teamMessagePrompt(input));
+  },
+};
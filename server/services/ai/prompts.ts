@@ -0,0 +1,86 @@
+import type { InsertPromptSettings } from "@shared/schema";
+import type { AthleteMessageInput, TeamMessageInput } from "./types";
+import { WORD_RANGES, hidesLosses } from "./guardrails";
+
+// Stored with every generation. Bump whenever the prompt text changes so
+// rewrite rates can be compared across versions.
+export const PROMPT_VERSION = "3";
+
+export const ATHLETE_SYSTEM_PROMPT =
+  "You are an experienced wrestling coach who writes personalized, encouraging messages for athletes. Your messages are always positive, specific, and motivational.";
+
+export const TEAM_SYSTEM_PROMPT =
+  "You are an experienced wrestling coach who writes inspiring team messages. Your messages celebrate achievements, build team spirit, and motivate continued excellence.";
+
+// The coach's own rules, plus what the last draft got wrong on a retry
+function teamRules(settings: InsertPromptSettings, previousViolations: string[] = []): string {
+  const rules = [
+    settings.motto ? `- Work in the team motto naturally: "${settings.motto}"` : "",
+    ...settings.requiredPhrases.map(phrase => `- Include this exact phrase: "${phrase}"`),
+    settings.bannedPhrases.length ? `- Never use these words or phrases: ${settings.bannedPhrases.map(phrase => `"${phrase}"`).join(", ")}` : "",
+  ].filter(Boolean);
+
+  const retry = previousViolations.length
+    ? `\n\nYour previous draft broke these rules and was rejected. Fix all of them:\n${previousViolations.map(v => `- ${v}`).join("\n")}`
+    : "";
+
+  return (rules.length ? `\n\nTeam Rules:\n${rules.join("\n")}` : "") + retry;
+}
+
+export function athleteMessagePrompt({ athlete, recentPerformance, seasonStats, brandVoice, settings, previousViolations }: AthleteMessageInput): string {
+  const [minWords, maxWords] = WORD_RANGES.athlete[settings.messageLength ?? "medium"];
+  const hideLosses = hidesLosses(settings, athlete);
+
+  return `Generate a personalized, encouraging message for a wrestling athlete based on their recent performance and season statistics. The message should be positive, supportive, and highlight their achievements while encouraging continued improvement.
+
+Athlete Information:
+- Name: ${athlete.name}
+- Grade: ${athlete.grade}
+- Weight Class: ${athlete.weightClass}
+
+Recent Performance:
+${JSON.stringify(recentPerformance)}
+
+Season Statistics:
+- Wins: ${seasonStats.wins}${hideLosses ? "" : `\n- Losses: ${seasonStats.losses}`}
+- Pins: ${seasonStats.pins}
+
+Team Brand Voice: ${brandVoice || "Encouraging and supportive"}
+
+Requirements:
+- Keep the message between ${minWords}-${maxWords} words
+- Focus on positive aspects and achievements
+- ${hideLosses ? "Never mention losses, defeats, or the athlete's record" : "Minimize focus on losses"}
+- Include specific performance details when available
+- Match the team's brand voice
+- Be encouraging and motivational${teamRules(settings, previousViolations)}
+
+Respond with JSON in this format: { "message": "your generated message" }`;
+}
+
+export function teamMessagePrompt({ team, summary, settings, previousViolations }: TeamMessageInput): string {
+  const [minWords, maxWords] = WORD_RANGES.team[settings.messageLength ?? "medium"];
+  return `Generate an inspiring team message for a wrestling team based on their recent competition performance. The message should celebrate the team's efforts, highlight key achievements, and motivate continued excellence.
+
+Team Information:
+- Team Name: ${team.name}
+- School: ${team.school}
+- Brand Voice: ${team.brandVoice || "Encouraging and supportive"}
+
+Competition: ${summary.competitionName} (${summary.date})
+
+Team Performance Summary:
+${JSON.stringify(summary)}
+
+Requirements:
+- Keep the message between ${minWords}-${maxWords} words
+- Celebrate team effort and individual achievements
+- Maintain an encouraging and positive tone
+- Highlight specific accomplishments when available
+- Name champions, notable upsets, and first-time winners when the summary lists them
+- Only mention results that appear in the summary
+- Match the team's brand voice
+- Include a motivational call to action for future competitions${teamRules(settings, previousViolations)}
+
+Respond with JSON in this format: { "message": "your generated message" }`;
+}
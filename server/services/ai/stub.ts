@@ -0,0 +1,120 @@
+import type { InsertPromptSettings } from "@shared/schema";
+import type { AiProvider, SeasonStats } from "./types";
+import { hidesLosses } from "./guardrails";
+
+// Offline provider: builds messages from the stats with fixed templates, so
+// the same input always produces the same text. Used in development, tests,
+// and whenever the configured provider fails.
+
+function plural(count: number, word: string): string {
+  if (count === 1) return `${count} ${word}`;
+  return `${count} ${word}${/(s|x|ch|sh)$/.test(word) ? "es" : "s"}`;
+}
+
+function ordinal(n: number): string {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? "th" : ["th", "st", "nd", "rd"][n % 10] || "th";
+  return `${n}${suffix}`;
+}
+
+// Picks a phrase by a stable hash of the seed so different athletes read
+// differently while any one athlete's message never changes
+function pick<T>(options: T[], seed: string): T {
+  let hash = 0;
+  for (const char of seed) {
+    hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  }
+  return options[hash % options.length];
+}
+
+function listPhrase(items: string[]): string {
+  if (items.length <= 1) return items.join("");
+  return `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}`;
+}
+
+function numberOrUndefined(value: unknown): number | undefined {
+  const number = typeof value === "string" ? parseInt(value, 10) : value;
+  return typeof number === "number" && Number.isFinite(number) ? number : undefined;
+}
+
+function recentSentence(name: string, recent: any): string | undefined {
+  if (!recent || typeof recent !== "object") return undefined;
+
+  const event = typeof recent.competitionName === "string" ? ` at ${recent.competitionName}` : "";
+  const placement = numberOrUndefined(recent.placement);
+  const wins = numberOrUndefined(recent.wins) ?? 0;
+  const pins = numberOrUndefined(recent.pins) ?? 0;
+
+  if (placement && placement <= 3) {
+    return `${name} earned a ${ordinal(placement)}-place finish${event}${wins ? `, winning ${plural(wins, "match")}` : ""}.`;
+  }
+  if (pins > 0) {
+    return `${name} recorded ${plural(pins, "pin")}${event} and showed real finishing ability.`;
+  }
+  if (wins > 0) {
+    return `${name} picked up ${plural(wins, "win")}${event}.`;
+  }
+  return event ? `${name} competed hard${event} and gained valuable mat time.` : undefined;
+}
+
+function seasonSentence({ wins, losses, pins }: SeasonStats, hideLosses: boolean): string {
+  if (wins + losses === 0) {
+    return "The season is just getting started, and every practice is building toward the first big win.";
+  }
+  const record = hideLosses ? plural(wins, "win") : `a ${wins}-${losses} record`;
+  return pins > 0
+    ? `That brings the season to ${record} with ${plural(pins, "pin")}.`
+    : `That brings the season to ${record}.`;
+}
+
+// Drops sentences with banned phrases and adds the motto and required phrases,
+// so offline messages follow the same team rules the guardrails check
+function applyTeamRules(sentences: (string | undefined)[], settings: InsertPromptSettings): string {
+  const banned = settings.bannedPhrases.map(phrase => phrase.toLowerCase());
+  const kept = sentences.filter((sentence): sentence is string =>
+    !!sentence && !banned.some(phrase => sentence.toLowerCase().includes(phrase))
+  );
+  const extras = [settings.motto, ...settings.requiredPhrases]
+    .filter((phrase): phrase is string => !!phrase && !kept.some(sentence => sentence.toLowerCase().includes(phrase.toLowerCase())))
+    .map(phrase => (/[.!?]$/.test(phrase) ? phrase : `${phrase}!`));
+  return [...kept, ...extras].join(" ");
+}
+
+export const stubProvider: AiProvider = {
+  id: "stub",
+
+  async generateAthleteMessage({ athlete, recentPerformance, seasonStats, settings }) {
+    const opening = pick([
+      `Great work this week, ${athlete.name}!`,
+      `Way to compete, ${athlete.name}!`,
+      `Proud of your effort, ${athlete.name}!`,
+    ], athlete.id || athlete.name);
+    const closing = pick([
+      `Keep pushing in the ${athlete.weightClass} weight class.`,
+      "Stay focused in the practice room and keep building.",
+      "Keep up the hard work; the best is still ahead.",
+    ], athlete.name);
+
+    const sentences = [opening, recentSentence(athlete.name, recentPerformance), seasonSentence(seasonStats, hidesLosses(settings, athlete))];
+    if (settings.messageLength === "long") {
+      sentences.push("Every rep in the practice room and every minute on the mat is adding up, and your teammates and coaches see the work you are putting in each day.");
+    }
+    return applyTeamRules([...sentences, closing], settings);
+  },
+
+  async generateTeamMessage({ team, summary, settings }) {
+    const champions = summary.champions.map(champion => `${champion.athleteName} (${champion.weightClass})`);
+    const upset = summary.notableUpsets[0];
+
+    const sentences = [
+      `What a weekend for ${team.name} at ${summary.competitionName}!`,
+      summary.athleteCount ? `${plural(summary.athleteCount, "wrestler")} took the mat and represented ${team.school} with grit and sportsmanship.` : undefined,
+      summary.wins ? `Together the team earned ${plural(summary.wins, "win")}${summary.totalPins ? `, including ${plural(summary.totalPins, "pin")}` : ""}.` : undefined,
+      champions.length ? `Congratulations to ${listPhrase(champions)} on bringing home ${champions.length === 1 ? "a title" : "titles"}!` : undefined,
+      upset ? `${upset.athleteName} turned the tables on ${upset.opponentName} for a big win.` : undefined,
+      summary.firstTimeWinners.length ? `A special shout-out to ${listPhrase(summary.firstTimeWinners)} for picking up a first win of the season.` : undefined,
+      "Every match is a chance to learn, and this group keeps getting better.",
+      "Thank you to our families and supporters for cheering us on. Let's keep the momentum going into the next competition!",
+    ];
+    return applyTeamRules(sentences, settings);
+  },
+};
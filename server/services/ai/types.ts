@@ -0,0 +1,31 @@
+import type { Athlete, InsertPromptSettings, Team } from "@shared/schema";
+import type { TeamSummary } from "../teamSummary";
+
+export interface SeasonStats {
+  wins: number;
+  losses: number;
+  pins: number;
+}
+
+export interface AthleteMessageInput {
+  athlete: Athlete;
+  recentPerformance: any;
+  seasonStats: SeasonStats;
+  brandVoice?: string;
+  settings: InsertPromptSettings;
+  // Rules the previous draft broke, so a retry can correct them
+  previousViolations?: string[];
+}
+
+export interface TeamMessageInput {
+  team: Team;
+  summary: TeamSummary;
+  settings: InsertPromptSettings;
+  previousViolations?: string[];
+}
+
+export interface AiProvider {
+  id: string;
+  generateAthleteMessage(input: AthleteMessageInput): Promise<string>;
+  generateTeamMessage(input: TeamMessageInput): Promise<string>;
+}
@@ -0,0 +1,88 @@
+import type {
+  Athlete,
+  AthletePerformance,
+  AthleteProfile,
+  Competition,
+  ContactWithAthletes,
+  Match,
+  Newsletter,
+} from "@shared/schema";
+
+export interface AthleteProfileInput {
+  athlete: Athlete;
+  seasonStats: { wins: number; losses: number; pins: number; takedowns: number };
+  competitions: Competition[];
+  performances: AthletePerformance[];
+  matches: Match[];
+  newsletters: Newsletter[];
+  contacts: ContactWithAthletes[];
+}
+
+// Walks competitions oldest first and records each change in the weight the
+// athlete wrestled at; matches carry the weight, performances don't
+function weightClassHistory(athlete: Athlete, competitions: Competition[], matches: Match[]): AthleteProfile["weightClasses"] {
+  const history: AthleteProfile["weightClasses"] = [];
+  for (const competition of [...competitions].reverse()) {
+    const weightClass = matches.find(match => match.competitionId === competition.id && match.weightClass)?.weightClass;
+    if (weightClass && history[history.length - 1]?.weightClass !== weightClass) {
+      history.push({ weightClass, since: competition.date.toISOString() });
+    }
+  }
+  if (history[history.length - 1]?.weightClass !== athlete.weightClass) {
+    history.push({ weightClass: athlete.weightClass, since: null });
+  }
+  return history;
+}
+
+function highlightsFor(athleteId: string, newsletters: Newsletter[]): AthleteProfile["highlights"] {
+  return newsletters
+    .filter(newsletter => newsletter.status === "sent")
+    .flatMap(newsletter => {
+      const messages = Array.isArray(newsletter.athleteMessages) ? newsletter.athleteMessages : [];
+      const entry = messages.find((message: any) => message?.athleteId === athleteId && typeof message.message === "string");
+      return entry
+        ? [{
+            newsletterId: newsletter.id,
+            subject: newsletter.subject,
+            sentAt: newsletter.sentAt?.toISOString() ?? null,
+            message: entry.message as string,
+          }]
+        : [];
+    });
+}
+
+export function buildAthleteProfile({
+  athlete,
+  seasonStats,
+  competitions,
+  performances,
+  matches,
+  newsletters,
+  contacts,
+}: AthleteProfileInput): AthleteProfile {
+  // Only competitions the athlete has results or bouts in
+  const timeline = competitions
+    .map(competition => ({
+      competition,
+      performance: performances.find(perf => perf.competitionId === competition.id) ?? null,
+      matches: matches
+        .filter(match => match.competitionId === competition.id)
+        .sort((a, b) => (a.boutOrder ?? 0) - (b.boutOrder ?? 0)),
+    }))
+    .filter(entry => entry.performance || entry.matches.length > 0);
+
+  return {
+    athlete,
+    seasonStats: {
+      ...seasonStats,
+      pinPercentage: seasonStats.wins ? Math.round((seasonStats.pins / seasonStats.wins) * 100) : 0,
+    },
+    weightClasses: weightClassHistory(athlete, competitions, matches),
+    timeline,
+    highlights: highlightsFor(athlete.id, newsletters),
+    contacts: contacts.flatMap(({ athletes, ...contact }) => {
+      const link = athletes.find(linked => linked.athleteId === athlete.id);
+      return link ? [{ ...contact, isPrimary: link.isPrimary }] : [];
+    }),
+  };
+}
@@ -0,0 +1,82 @@
+import crypto from "crypto";
+import fs from "fs/promises";
+import sharp from "sharp";
+import type { Athlete, EmailAttachment, Team } from "@shared/schema";
+import type { NewsletterImages } from "./newsletterRenderer";
+import { uploadPath } from "./uploads";
+
+// Rendered at half these sizes; the extra pixels keep them sharp on retina screens
+const LOGO_SIZE = 240;
+const PHOTO_SIZE = 160;
+
+// Resized images keyed by file path and modification time, so a re-uploaded
+// logo is picked up but sending the same newsletter twice doesn't re-encode
+const cache = new Map<string, EmailAttachment>();
+
+// Only files we saved under /uploads are read; anything else is left to the caller
+async function loadInlineImage(url: string, kind: "logo" | "photo"): Promise<EmailAttachment | undefined> {
+  const filePath = uploadPath(url);
+  if (!filePath) return undefined;
+
+  try {
+    const { mtimeMs } = await fs.stat(filePath);
+    const key = `${kind}:${filePath}:${mtimeMs}`;
+    const cached = cache.get(key);
+    if (cached) return cached;
+
+    // Logos keep their transparency as a palette PNG; photos are cropped square JPEGs
+    const content = kind === "logo"
+      ? await sharp(filePath)
+          .resize(LOGO_SIZE, LOGO_SIZE, { fit: "inside", withoutEnlargement: true })
+          .png({ palette: true, compressionLevel: 9 })
+          .toBuffer()
+      : await sharp(filePath)
+          .rotate()
+          .resize(PHOTO_SIZE, PHOTO_SIZE, { fit: "cover" })
+          .jpeg({ quality: 72, mozjpeg: true })
+          .toBuffer();
+
+    const extension = kind === "logo" ? "png" : "jpg";
+    const image: EmailAttachment = {
+      cid: `${kind}-${crypto.createHash("sha1").update(key).digest("hex").slice(0, 16)}@newsletter`,
+      filename: `${kind}.${extension}`,
+      contentType: kind === "logo" ? "image/png" : "image/jpeg",
+      content: content.toString("base64"),
+    };
+    cache.set(key, image);
+    return image;
+  } catch (error) {
+    // A missing or unreadable upload falls back to the template's placeholder
+    console.warn(`Could not prepare email image ${url}:`, error instanceof Error ? error.message : error);
+    return undefined;
+  }
+}
+
+// Resolves the logo and athlete photos to cid: references plus the
+// attachments that back them. Remote https images are linked as-is.
+export async function prepareNewsletterImages(
+  team: Team,
+  athletes: Pick<Athlete, "id" | "profilePhotoUrl">[]
+): Promise<{ images: NewsletterImages; attachments: EmailAttachment[] }> {
+  const attachments = new Map<string, EmailAttachment>();
+
+  const resolve = async (url: string | null, kind: "logo" | "photo") => {
+    if (!url) return undefined;
+    if (/^https:\/\//i.test(url)) return url;
+    const image = await loadInlineImage(url, kind);
+    if (!image) return undefined;
+    attachments.set(image.cid, image);
+    return `cid:${image.cid}`;
+  };
+
+  const images: NewsletterImages = {
+    logo: await resolve(team.logoUrl, "logo"),
+    athletePhotos: {},
+  };
+  for (const athlete of athletes) {
+    const src = await resolve(athlete.profilePhotoUrl, "photo");
+    if (src) images.athletePhotos![athlete.id] = src;
+  }
+
+  return { images, attachments: Array.from(attachments.values()) };
+}
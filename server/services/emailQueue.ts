@@ -0,0 +1,150 @@
+import { storage, type ClaimedDelivery } from "../storage";
+import { emailFrom, transporter } from "./emailService";
+import { UNSUBSCRIBE_URL_PLACEHOLDER, unsubscribeHeaders, unsubscribePageUrl } from "./unsubscribe";
+
+const POLL_INTERVAL_MS = parseInt(process.env.EMAIL_QUEUE_INTERVAL_MS || "15000", 10);
+const BATCH_SIZE = parseInt(process.env.EMAIL_BATCH_SIZE || "20", 10);
+const THROTTLE_MS = parseInt(process.env.EMAIL_THROTTLE_MS || "200", 10);
+const MAX_ATTEMPTS = parseInt(process.env.EMAIL_MAX_ATTEMPTS || "5", 10);
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+
+let timer: NodeJS.Timeout | undefined;
+let processing = false;
+
+type SendOutcome = "delivered" | "bounced" | "failed" | "suppressed" | "retry";
+
+// SMTP 5xx replies are permanent; 550-553 mean the mailbox itself was refused.
+// Anything else (4xx, dropped connections, timeouts) is worth another attempt.
+function classifyError(error: any): Exclude<SendOutcome, "delivered" | "suppressed"> {
+  const responseCode = typeof error?.responseCode === "number" ? error.responseCode : undefined;
+  if (responseCode !== undefined) {
+    if (responseCode >= 550 && responseCode <= 553) return "bounced";
+    if (responseCode >= 500) return "failed";
+    return "retry";
+  }
+  if (error?.code === "EENVELOPE") return "bounced";
+  if (error?.code === "EAUTH") return "failed";
+  return "retry";
+}
+
+function retryDelay(attempts: number): number {
+  return BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0);
+}
+
+async function deliver(delivery: ClaimedDelivery): Promise<SendOutcome> {
+  const { teamId } = delivery.email;
+  const personalize = (content: string) =>
+    content.split(UNSUBSCRIBE_URL_PLACEHOLDER).join(unsubscribePageUrl(teamId, delivery.recipient));
+
+  try {
+    // The recipient may have unsubscribed after this email was queued
+    if (await storage.isEmailSuppressed(teamId, delivery.recipient)) {
+      await storage.updateDelivery(delivery.id, { status: "suppressed", lastError: null });
+      return "suppressed";
+    }
+
+    const info = await transporter.sendMail({
+      from: emailFrom,
+      to: delivery.recipient,
+      subject: delivery.email.subject,
+      html: personalize(delivery.email.html),
+      text: delivery.email.text ? personalize(delivery.email.text) : undefined,
+      headers: unsubscribeHeaders(teamId, delivery.recipient),
+      attachments: delivery.email.attachments?.map(attachment => ({
+        cid: attachment.cid,
+        filename: attachment.filename,
+        contentType: attachment.contentType,
+        content: attachment.content,
+        encoding: "base64",
+      })),
+    });
+
+    if (info.rejected?.length) {
+      await storage.updateDelivery(delivery.id, {
+        status: "bounced",
+        lastError: `Recipient rejected: ${info.response}`,
+      });
+      await storage.suppressEmail(teamId, delivery.recipient, "bounced");
+      return "bounced";
+    }
+
+    await storage.updateDelivery(delivery.id, {
+      status: "delivered",
+      deliveredAt: new Date(),
+      lastError: null,
+    });
+    return "delivered";
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    let outcome = classifyError(error);
+    if (outcome === "retry" && delivery.attempts >= MAX_ATTEMPTS) {
+      outcome = "failed";
+    }
+
+    if (outcome === "retry") {
+      await storage.updateDelivery(delivery.id, {
+        status: "queued",
+        nextAttemptAt: new Date(Date.now() + retryDelay(delivery.attempts)),
+        lastError: message,
+      });
+    } else {
+      await storage.updateDelivery(delivery.id, { status: outcome, lastError: message });
+      if (outcome === "bounced") {
+        await storage.suppressEmail(teamId, delivery.recipient, "bounced");
+      }
+    }
+    return outcome;
+  }
+}
+
+// Sends every due delivery in throttled batches until the queue is drained
+export async function processEmailQueue(now = new Date()): Promise<void> {
+  if (processing) return;
+  processing = true;
+
+  try {
+    while (true) {
+      const batch = await storage.claimQueuedDeliveries(BATCH_SIZE, now);
+      if (batch.length === 0) break;
+
+      for (const delivery of batch) {
+        const outcome = await deliver(delivery);
+        if (outcome !== "delivered" && outcome !== "suppressed") {
+          console.warn(`Email to ${delivery.recipient} ${outcome} (attempt ${delivery.attempts})`);
+        }
+        await new Promise(resolve => setTimeout(resolve, THROTTLE_MS));
+      }
+
+      if (batch.length < BATCH_SIZE) break;
+    }
+  } catch (error) {
+    console.error("Error processing email queue:", error);
+  } finally {
+    processing = false;
+  }
+}
+
+export async function startEmailQueue(): Promise<void> {
+  if (timer) return;
+
+  try {
+    const requeued = await storage.requeueInterruptedDeliveries();
+    if (requeued > 0) {
+      console.warn(`Requeued ${requeued} email delivery(s) interrupted by a restart`);
+    }
+  } catch (error) {
+    console.error("Error recovering interrupted email deliveries:", error);
+  }
+
+  timer = setInterval(() => {
+    void processEmailQueue();
+  }, POLL_INTERVAL_MS);
+  void processEmailQueue();
+}
+
+export function stopEmailQueue(): void {
+  if (timer) {
+    clearInterval(timer);
+    timer = undefined;
+  }
+}
@@ -0,0 +1,64 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import sharp from "sharp";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { Newsletter, Team } from "@shared/schema";
+
+const { fakeStorage, photoDir } = vi.hoisted(() => ({
+  fakeStorage: {
+    getTeam: vi.fn(),
+    getNewsletterRecipients: vi.fn(),
+    getAthletesByTeam: vi.fn(),
+    enqueueEmail: vi.fn(),
+    updateNewsletter: vi.fn(),
+  },
+  photoDir: { path: "" },
+}));
+
+vi.mock("../storage", () => ({ storage: fakeStorage }));
+// Uploaded photos are read from a temporary directory instead of uploads/
+vi.mock("./uploads", () => ({
+  uploadPath: (url: string) => (url.startsWith("/uploads/") ? path.join(photoDir.path, url.slice("/uploads/".length)) : undefined),
+}));
+
+const { sendNewsletter } = await import("./emailService");
+
+const team = { id: "team-1", name: "Central Wildcats", school: "Central High School", logoUrl: null, isActive: true } as Team;
+
+const athlete = (id: string) => ({ id, teamId: "team-1", name: id, grade: "10th", weightClass: "106", profilePhotoUrl: `/uploads/${id}.png` });
+
+beforeAll(async () => {
+  photoDir.path = fs.mkdtempSync(path.join(os.tmpdir(), "newsletter-photos-"));
+  for (const [id, red] of [["highlighted", 255], ["benched", 0]] as const) {
+    await sharp({ create: { width: 8, height: 8, channels: 3, background: { r: red, g: 0, b: 0 } } })
+      .png()
+      .toFile(path.join(photoDir.path, `${id}.png`));
+  }
+});
+
+afterAll(() => {
+  fs.rmSync(photoDir.path, { recursive: true, force: true });
+});
+
+describe("sendNewsletter", () => {
+  it("attaches photos only for the athletes the newsletter highlights", async () => {
+    fakeStorage.getTeam.mockResolvedValue(team);
+    fakeStorage.getNewsletterRecipients.mockResolvedValue(["parent@example.com"]);
+    fakeStorage.getAthletesByTeam.mockResolvedValue([athlete("highlighted"), athlete("benched")]);
+    const newsletter = {
+      id: "newsletter-1",
+      teamId: "team-1",
+      subject: "Weekly Recap",
+      teamMessage: "Great week.",
+      athleteMessages: [{ athleteId: "highlighted", athleteName: "Jack Smith", message: "Jack pinned his way to the title." }],
+      layout: "weekly_recap",
+    } as Newsletter;
+
+    await sendNewsletter(newsletter);
+
+    const [email] = fakeStorage.enqueueEmail.mock.calls[0];
+    expect(email.attachments).toHaveLength(1);
+    expect(email.html).toContain(`src="cid:${email.attachments[0].cid}"`);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import type { Team } from "@shared/schema";
+import { renderNewsletter } from "./newsletterRenderer";
+import { UNSUBSCRIBE_URL_PLACEHOLDER, unsubscribePageUrl, verifyUnsubscribeToken } from "./unsubscribe";
+
+const team: Team = {
+  id: "team-1",
+  name: "Central Wildcats",
+  school: "Central High School",
+  schoolAliases: ["CENT"],
+  logoUrl: "/uploads/logo.png",
+  primaryColor: "#3B82F6",
+  secondaryColor: "#1E40AF",
+  brandVoice: null,
+  teamStoreUrl: "https://store.example.com/wildcats",
+  defaultLayout: "weekly_recap",
+  primaryCoachId: "coach-1",
+  isActive: true,
+  createdAt: null,
+  updatedAt: null,
+};
+
+const newsletter = {
+  subject: "Weekly Recap: County Open",
+  teamMessage: "What a weekend at the County Open.\n\nThree finalists & two champions!",
+  athleteMessages: [
+    { athleteId: "athlete-1", athleteName: "Jack Smith", grade: "9th", weightClass: "106", message: "Jack pinned his way to the title." },
+    { athleteId: "athlete-2", athleteName: "Tom O'Brien", grade: "12th", weightClass: "285", message: "Tom won <b>three</b> matches." },
+  ],
+};
+
+const images = {
+  logo: "cid:team-logo",
+  athletePhotos: { "athlete-1": "cid:athlete-1", "athlete-2": "cid:athlete-2" },
+};
+
+// Noon UTC so the rendered date is the same in every time zone
+const date = new Date("2025-01-18T12:00:00Z");
+
+describe("renderNewsletter", () => {
+  it("renders the default template", () => {
+    const { html, text } = renderNewsletter(newsletter, team, images, date);
+    expect(html).toMatchSnapshot();
+    expect(text).toMatchSnapshot();
+  });
+
+  it("shows initials and no logo without photos", () => {
+    const { html, text } = renderNewsletter(newsletter, team, {}, date);
+    expect(html).not.toContain("<img");
+    expect(html).toContain(">JS</div>");
+    expect(html).toMatchSnapshot();
+    expect(text).toMatchSnapshot();
+  });
+
+  it("uses the team colors, with a readable substitute for a light brand color", () => {
+    const gold = renderNewsletter(newsletter, { ...team, primaryColor: "#FFD700", teamStoreUrl: null }, images, date);
+    expect(gold.html).toContain("background: #FFD700; color: #111827");
+    expect(gold.html).toMatchSnapshot();
+    expect(gold.text).toMatchSnapshot();
+
+    const maroon = renderNewsletter(newsletter, { ...team, primaryColor: "#7A0019" }, images, date);
+    expect(maroon.html).toContain("background: #7A0019");
+    expect(maroon.html).not.toContain("#3B82F6");
+  });
+
+  it("falls back to the default color for anything but a hex color", () => {
+    const { html } = renderNewsletter(newsletter, { ...team, primaryColor: "red;} body{display:none" }, images, date);
+    expect(html).not.toContain("display:none");
+    expect(html).toContain("background: #3B82F6");
+  });
+
+  it("renders the chosen layout", () => {
+    const { html, text } = renderNewsletter({ ...newsletter, layout: "senior_night" }, team, images, date);
+    expect(html).toMatchSnapshot();
+    expect(text).toMatchSnapshot();
+  });
+
+  it("ends with an unsubscribe link each recipient gets their own copy of", () => {
+    const { html, text } = renderNewsletter(newsletter, team, images, date);
+    expect(html).toContain(`<a href="${UNSUBSCRIBE_URL_PLACEHOLDER}" style="color: #555;">Unsubscribe</a> from Central Wildcats emails.`);
+    expect(text).toContain(`Unsubscribe: ${UNSUBSCRIBE_URL_PLACEHOLDER}`);
+
+    // The queue swaps the placeholder the same way at send time
+    const personal = html.split(UNSUBSCRIBE_URL_PLACEHOLDER).join(unsubscribePageUrl(team.id, "parent@example.com"));
+    const token = personal.match(/\/unsubscribe\/([^"]+)"/)?.[1];
+    expect(token && verifyUnsubscribeToken(token)).toEqual({ teamId: "team-1", email: "parent@example.com" });
+  });
+});
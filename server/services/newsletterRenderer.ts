@@ -0,0 +1,361 @@
+import Handlebars from "handlebars";
+import type { NewsletterLayout, Team } from "@shared/schema";
+import { contrastRatio, MIN_TEXT_CONTRAST, readableTextColor } from "@shared/contrast";
+import { UNSUBSCRIBE_URL_PLACEHOLDER } from "./unsubscribe";
+
+const DEFAULT_PRIMARY_COLOR = "#3B82F6";
+const FALLBACK_ACCENT_TEXT = "#374151";
+
+// Shape of each entry in newsletters.athleteMessages as saved by the client
+interface AthleteMessage {
+  athleteId?: string;
+  athleteName: string;
+  grade?: string | null;
+  weightClass?: string | null;
+  message: string;
+}
+
+// Image sources for the logo and athlete photos, keyed by athlete id. Sent
+// emails use cid: references; the preview uses the uploaded URLs directly.
+export interface NewsletterImages {
+  logo?: string;
+  athletePhotos?: Record<string, string>;
+}
+
+export interface RenderedEmail {
+  html: string;
+  text: string;
+}
+
+// What sets each layout apart. The HTML and plain-text templates both read
+// from here so the two parts of a message never disagree.
+interface LayoutCopy {
+  kicker?: string;
+  coachTitle: string;
+  athletesTitle: string;
+  athletesIntro?: string;
+  pitch: string;
+  featureFirst?: boolean;
+  ctaFirst?: boolean;
+}
+
+const layoutCopy: Record<NewsletterLayout, LayoutCopy> = {
+  weekly_recap: {
+    coachTitle: "Coach's Message",
+    athletesTitle: "Athlete Highlights",
+    pitch: "Support our team's success!",
+  },
+  tournament_spotlight: {
+    kicker: "Tournament Spotlight",
+    coachTitle: "Tournament Recap",
+    athletesTitle: "Standout Performances",
+    pitch: "Support our team's success!",
+    featureFirst: true,
+  },
+  senior_night: {
+    kicker: "Senior Night",
+    coachTitle: "A Message to Our Seniors",
+    athletesTitle: "Honoring Our Athletes",
+    athletesIntro: "Thank you for everything you have given this program.",
+    pitch: "Celebrate our seniors with us!",
+  },
+  banquet: {
+    kicker: "Season Banquet",
+    coachTitle: "From the Coach",
+    athletesTitle: "Season Awards & Highlights",
+    pitch: "Thank you for a great season!",
+  },
+  fundraiser: {
+    kicker: "Support the Team",
+    coachTitle: "Why Your Support Matters",
+    athletesTitle: "Who You're Supporting",
+    pitch: "Every contribution keeps our wrestlers on the mat.",
+    ctaFirst: true,
+  },
+};
+
+// A private instance so partials and helpers registered here can't collide
+// with anything else that uses Handlebars. {{ }} escapes; {{{ }}} is never
+// used on user- or AI-supplied text.
+const engine = Handlebars.create();
+
+// Plain-text parts are never parsed as HTML, so nothing is escaped there
+const textEngine = Handlebars.create();
+
+// Escapes first, then turns line breaks into <br> so coaches' paragraphs survive
+engine.registerHelper("nl2br", (text: unknown) => {
+  const escaped = engine.escapeExpression(text == null ? "" : String(text));
+  return new engine.SafeString(escaped.replace(/\r?\n/g, "<br>"));
+});
+
+engine.registerHelper("and", (a: unknown, b: unknown) => !!a && !!b);
+
+textEngine.registerHelper("upper", (text: unknown) => String(text ?? "").toUpperCase());
+textEngine.registerHelper("underline", (text: unknown) => "-".repeat(String(text ?? "").length));
+
+engine.registerPartial("header", `
+<header class="header" role="banner">
+  {{#if logoSrc}}
+  <img class="logo-image" src="{{logoSrc}}" alt="{{team.name}} logo" width="120">
+  {{else}}
+  <div class="logo" aria-hidden="true">🤼</div>
+  {{/if}}
+  {{#if copy.kicker}}<p class="kicker">{{copy.kicker}}</p>{{/if}}
+  <h1>{{team.name}}</h1>
+  <p>{{team.school}}</p>
+  <p style="font-size: 14px;">{{date}}</p>
+</header>`);
+
+engine.registerPartial("coachMessage", `
+{{#if teamMessage}}
+<section class="team-message" aria-labelledby="coach-message-heading">
+  <h2 id="coach-message-heading">{{copy.coachTitle}}</h2>
+  <p>{{nl2br teamMessage}}</p>
+</section>
+{{/if}}`);
+
+engine.registerPartial("athleteCard", `
+<article class="athlete-section{{#if featured}} featured{{/if}}">
+  {{#if photoSrc}}
+  <img class="athlete-photo" src="{{photoSrc}}" alt="Photo of {{athleteName}}" width="80" height="80">
+  {{else}}
+  <div class="athlete-photo athlete-initials" aria-hidden="true">{{initials}}</div>
+  {{/if}}
+  <h3 class="athlete-name">{{athleteName}}</h3>
+  <p class="athlete-details">{{grade}} • {{weightClass}}</p>
+  <p>{{nl2br message}}</p>
+</article>`);
+
+engine.registerPartial("athleteHighlights", `
+{{#if athleteMessages.length}}
+<section aria-labelledby="athletes-heading">
+  <h2 id="athletes-heading">{{copy.athletesTitle}}</h2>
+  {{#if copy.athletesIntro}}<p>{{copy.athletesIntro}}</p>{{/if}}
+  {{#each athleteMessages}}
+    {{#if (and @first ../copy.featureFirst)}}{{> athleteCard featured=true}}{{else}}{{> athleteCard}}{{/if}}
+  {{/each}}
+</section>
+{{/if}}`);
+
+engine.registerPartial("cta", `
+<section class="cta-section">
+  <p>{{copy.pitch}}</p>
+  <a href="#" class="cta-button">Support Our Team</a>
+  {{#if teamStoreUrl}}<a href="{{teamStoreUrl}}" class="cta-button">Visit the {{team.name}} Team Store</a>{{/if}}
+</section>`);
+
+engine.registerPartial("footer", `
+<p>This email was sent by {{team.name}} wrestling team.</p>
+<p><a href="{{unsubscribeUrl}}" style="color: #555;">Unsubscribe</a> from {{team.name}} emails.</p>`);
+
+const newsletterTemplate = engine.compile(`<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>{{subject}}</title>
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; margin: 0; padding: 20px; background-color: #f5f5f5; color: #1f2937; }
+    .container { max-width: 600px; margin: 0 auto; background: white; border-radius: 10px; overflow: hidden; box-shadow: 0 2px 10px rgba(0,0,0,0.1); }
+    .header { background: {{primaryColor}}; color: {{onPrimary}}; padding: 30px; text-align: center; }
+    .header h1 { margin: 0; }
+    .kicker { text-transform: uppercase; letter-spacing: 2px; font-size: 12px; font-weight: bold; margin: 0 0 5px; }
+    .logo { width: 60px; height: 60px; background: rgba(255,255,255,0.2); border-radius: 10px; margin: 0 auto 15px; display: flex; align-items: center; justify-content: center; font-size: 24px; }
+    .logo-image { display: block; max-width: 120px; max-height: 120px; height: auto; margin: 0 auto 15px; border: 0; }
+    .content { padding: 30px; }
+    .team-message { margin-bottom: 30px; padding-bottom: 20px; border-bottom: 1px solid #eee; }
+    .athlete-section { margin: 20px 0; padding: 20px; background: #f8f9fa; border-radius: 8px; border-left: 4px solid {{primaryColor}}; }
+    .athlete-section.featured { border-left-width: 8px; font-size: 17px; }
+    .athlete-section::after { content: ""; display: table; clear: both; }
+    .athlete-photo { float: left; width: 80px; height: 80px; border-radius: 40px; margin: 0 15px 10px 0; }
+    .athlete-initials { background: {{primaryColor}}; color: {{onPrimary}}; font-size: 28px; font-weight: bold; line-height: 80px; text-align: center; }
+    .athlete-name { font-size: 16px; font-weight: bold; color: {{accentText}}; margin: 0 0 5px; }
+    .athlete-details { font-size: 14px; color: #555; margin: 0 0 10px; }
+    .cta-section { text-align: center; padding: 30px; background: #f8f9fa; border-top: 1px solid #eee; }
+    .cta-button { display: inline-block; padding: 12px 24px; background: {{primaryColor}}; color: {{onPrimary}}; text-decoration: none; border-radius: 5px; margin: 0 10px; }
+    .footer { text-align: center; padding: 20px; font-size: 12px; color: #555; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    {{> header}}
+    {{#if copy.ctaFirst}}{{> cta}}{{/if}}
+    <main class="content">
+      {{> coachMessage}}
+      {{> athleteHighlights}}
+    </main>
+    {{#unless copy.ctaFirst}}{{> cta}}{{/unless}}
+    <footer class="footer">
+      {{> footer}}
+    </footer>
+  </div>
+</body>
+</html>
+`);
+
+const newsletterTextTemplate = textEngine.compile(`{{team.name}}
+{{team.school}} - {{date}}
+{{#if copy.kicker}}
+{{upper copy.kicker}}
+{{/if}}
+
+{{#if copy.ctaFirst}}
+{{copy.pitch}}
+{{#if teamStoreUrl}}
+Team Store: {{teamStoreUrl}}
+{{/if}}
+
+{{/if}}
+{{#if teamMessage}}
+{{copy.coachTitle}}
+{{underline copy.coachTitle}}
+{{teamMessage}}
+
+{{/if}}
+{{#if athleteMessages.length}}
+{{copy.athletesTitle}}
+{{underline copy.athletesTitle}}
+{{#if copy.athletesIntro}}
+{{copy.athletesIntro}}
+
+{{/if}}
+{{#each athleteMessages}}
+* {{athleteName}}{{#if grade}} ({{grade}}{{#if weightClass}}, {{weightClass}}{{/if}}){{/if}}
+{{message}}
+
+{{/each}}
+{{/if}}
+{{#unless copy.ctaFirst}}
+{{copy.pitch}}
+{{#if teamStoreUrl}}
+Team Store: {{teamStoreUrl}}
+{{/if}}
+
+{{/unless}}
+--
+This email was sent by {{team.name}} wrestling team.
+Unsubscribe: {{unsubscribeUrl}}
+`, { noEscape: true });
+
+const customEmailTemplate = engine.compile(`
+<div lang="en" style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; color: #1f2937;">
+  <h1 style="font-size: 22px; color: {{accentText}};">{{team.name}}</h1>
+  <div style="background: white; padding: 20px; border-radius: 10px; box-shadow: 0 2px 10px rgba(0,0,0,0.1);">
+    {{nl2br content}}
+  </div>
+  <div style="text-align: center; margin-top: 20px; font-size: 12px; color: #555;">
+    {{> footer}}
+  </div>
+</div>
+`);
+
+const customEmailTextTemplate = textEngine.compile(`{{team.name}}
+
+{{content}}
+
+--
+This email was sent by {{team.name}} wrestling team.
+Unsubscribe: {{unsubscribeUrl}}
+`, { noEscape: true });
+
+const coachInvitationTemplate = engine.compile(`
+<div lang="en" style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; color: #1f2937;">
+  <h1 style="font-size: 22px; color: {{accentText}};">{{team.name}}</h1>
+  <p>{{inviterName}} has invited you to help coach {{team.name}} ({{team.school}}).</p>
+  <p>
+    <a href="{{acceptUrl}}" style="display: inline-block; padding: 12px 24px; background: {{primaryColor}}; color: {{onPrimary}}; text-decoration: none; border-radius: 5px;">
+      Accept Invitation
+    </a>
+  </p>
+  <p style="font-size: 12px; color: #555;">
+    This link expires on {{expiresOn}}. If you weren't expecting it, you can ignore this email.
+  </p>
+</div>
+`);
+
+const coachInvitationTextTemplate = textEngine.compile(`{{inviterName}} has invited you to help coach {{team.name}} ({{team.school}}).
+
+Accept the invitation: {{acceptUrl}}
+
+This link expires on {{expiresOn}}. If you weren't expecting it, you can ignore this email.
+`, { noEscape: true });
+
+// Colors end up inside <style> blocks, where HTML escaping doesn't help,
+// so anything that isn't a plain hex color falls back to the default
+function safeColor(color: string | null | undefined): string {
+  return color && /^#[0-9a-f]{3,8}$/i.test(color) ? color : DEFAULT_PRIMARY_COLOR;
+}
+
+// Escaping doesn't stop javascript: links; only web URLs are rendered
+function safeUrl(url: string | null | undefined): string | undefined {
+  return url && /^https?:\/\//i.test(url) ? url : undefined;
+}
+
+function initials(name: string): string {
+  return name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map(part => part[0].toUpperCase())
+    .join("");
+}
+
+// Handlebars leaves blank lines behind where sections are skipped
+function tidyText(text: string): string {
+  return text.replace(/\n{3,}/g, "\n\n").trim() + "\n";
+}
+
+function teamView(team: Team) {
+  const primaryColor = safeColor(team.primaryColor);
+  return {
+    team: { name: team.name, school: team.school },
+    primaryColor,
+    // Brand colors that fail contrast get a readable substitute rather than
+    // an unreadable email; the preview tells the coach why
+    onPrimary: readableTextColor(primaryColor),
+    accentText: contrastRatio(primaryColor, "#FFFFFF") >= MIN_TEXT_CONTRAST ? primaryColor : FALLBACK_ACCENT_TEXT,
+    teamStoreUrl: safeUrl(team.teamStoreUrl),
+    unsubscribeUrl: UNSUBSCRIBE_URL_PLACEHOLDER,
+  };
+}
+
+// Renders saved newsletters and unsaved previews alike, so the preview shows
+// exactly what will be sent
+export function renderNewsletter(
+  newsletter: { subject: string; teamMessage?: string | null; athleteMessages?: unknown; layout?: NewsletterLayout | null },
+  team: Team,
+  images: NewsletterImages = {},
+  date = new Date()
+): RenderedEmail {
+  const athleteMessages = ((newsletter.athleteMessages as AthleteMessage[] | null) || []).map(msg => ({
+    ...msg,
+    photoSrc: msg.athleteId ? images.athletePhotos?.[msg.athleteId] : undefined,
+    initials: initials(msg.athleteName),
+  }));
+
+  const view = {
+    ...teamView(team),
+    copy: layoutCopy[newsletter.layout || team.defaultLayout] || layoutCopy.weekly_recap,
+    subject: newsletter.subject,
+    date: date.toLocaleDateString(),
+    teamMessage: newsletter.teamMessage,
+    logoSrc: images.logo,
+    athleteMessages,
+  };
+  return { html: newsletterTemplate(view), text: tidyText(newsletterTextTemplate(view)) };
+}
+
+export function renderCustomEmail(team: Team, content: string): RenderedEmail {
+  const view = { ...teamView(team), content };
+  return { html: customEmailTemplate(view), text: tidyText(customEmailTextTemplate(view)) };
+}
+
+export function renderCoachInvitation(team: Team, inviterName: string, acceptUrl: string, expiresAt: Date): RenderedEmail {
+  const view = {
+    ...teamView(team),
+    inviterName,
+    acceptUrl,
+    expiresOn: expiresAt.toLocaleDateString(),
+  };
+  return { html: coachInvitationTemplate(view), text: tidyText(coachInvitationTextTemplate(view)) };
+}
@@ -0,0 +1,85 @@
+import type { Newsletter } from "@shared/schema";
+import { storage } from "../storage";
+import { sendNewsletter } from "./emailService";
+import { processEmailQueue } from "./emailQueue";
+
+const POLL_INTERVAL_MS = parseInt(process.env.NEWSLETTER_SCHEDULER_INTERVAL_MS || "60000", 10);
+
+let timer: NodeJS.Timeout | undefined;
+let polling = false;
+
+// Queues a newsletter that has already been claimed and records the outcome.
+// Per-recipient results are tracked by the email queue from here on.
+export async function deliverNewsletter(newsletter: Newsletter): Promise<Newsletter> {
+  try {
+    await sendNewsletter(newsletter);
+    const sentAt = new Date();
+    const sent = await storage.updateNewsletter(newsletter.id, {
+      status: "sent",
+      sentAt,
+      sendError: null,
+    });
+    await storage.markNewsletterGenerationsSent(newsletter.id, sentAt);
+    void processEmailQueue();
+    return sent;
+  } catch (error) {
+    await storage.updateNewsletter(newsletter.id, {
+      status: "failed",
+      sendError: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+}
+
+export async function sendDueNewsletters(now = new Date()): Promise<void> {
+  if (polling) return;
+  polling = true;
+
+  try {
+    const due = await storage.claimDueNewsletters(now);
+    for (const newsletter of due) {
+      try {
+        await deliverNewsletter(newsletter);
+        console.log(`Scheduled newsletter ${newsletter.id} sent`);
+      } catch (error) {
+        console.error(`Error sending scheduled newsletter ${newsletter.id}:`, error);
+      }
+    }
+  } catch (error) {
+    console.error("Error polling scheduled newsletters:", error);
+  } finally {
+    polling = false;
+  }
+}
+
+export async function startNewsletterScheduler(): Promise<void> {
+  if (timer) return;
+
+  try {
+    const now = new Date();
+    const { resumed, failed } = await storage.recoverInterruptedNewsletters(now);
+    for (const newsletter of resumed) {
+      await storage.markNewsletterGenerationsSent(newsletter.id, now);
+    }
+    if (resumed.length > 0) {
+      console.warn(`Resumed ${resumed.length} interrupted newsletter send(s) from the email queue`);
+    }
+    if (failed.length > 0) {
+      console.warn(`Marked ${failed.length} interrupted newsletter send(s) as failed`);
+    }
+  } catch (error) {
+    console.error("Error recovering interrupted newsletters:", error);
+  }
+
+  timer = setInterval(() => {
+    void sendDueNewsletters();
+  }, POLL_INTERVAL_MS);
+  void sendDueNewsletters();
+}
+
+export function stopNewsletterScheduler(): void {
+  if (timer) {
+    clearInterval(timer);
+    timer = undefined;
+  }
+}
@@ -0,0 +1,72 @@
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { parsePDF } from "./pdfParser";
+
+// Sample results sheets, one per bracket system, with our wrestler Jack Smith in each
+const sample = (file: string) => path.resolve(import.meta.dirname, "../../test/data", file);
+
+describe("parsePDF", () => {
+  it("detects and parses a FloArena results PDF", async () => {
+    const parsed = await parsePDF(sample("floarena.pdf"));
+
+    expect(parsed.format).toEqual({ id: "floarena", label: "FloArena", confidence: 1 });
+    expect(parsed.competitionName).toBe("Central Invitational");
+    expect(parsed.date).toBe("01/18/2025");
+    expect(parsed.athletes).toContainEqual(expect.objectContaining({
+      name: "Jack Smith", weightClass: "106 lbs", school: "CENT", wins: 2, losses: 1, pins: 1, placement: 2,
+    }));
+    expect(parsed.bouts).toContainEqual(expect.objectContaining({
+      weightClass: "106 lbs",
+      round: "Final",
+      winner: { name: "Ray Cruz", school: "NORT" },
+      loser: { name: "Jack Smith", school: "CENT" },
+      winType: "major_decision",
+    }));
+  });
+
+  it("detects and parses a Trackwrestling results PDF", async () => {
+    const parsed = await parsePDF(sample("trackwrestling.pdf"));
+
+    expect(parsed.format?.id).toBe("trackwrestling");
+    expect(parsed.competitionName).toBe("County Championships");
+    expect(parsed.date).toBe("02/01/2025");
+    expect(parsed.athletes).toContainEqual(expect.objectContaining({
+      name: "Jack Smith", weightClass: "120 lbs", school: "Central", wins: 2, losses: 1, pins: 1,
+    }));
+    expect(parsed.bouts).toContainEqual(expect.objectContaining({
+      round: "Champ. Round 1",
+      winner: { name: "Jack Smith", school: "Central" },
+      loser: { name: "Tom Lee", school: "West" },
+      winType: "fall",
+    }));
+  });
+
+  it("detects and parses a USA Bracketing results PDF", async () => {
+    const parsed = await parsePDF(sample("usabracketing.pdf"));
+
+    expect(parsed.format?.id).toBe("usabracketing");
+    expect(parsed.competitionName).toBe("Spring Freestyle Open");
+    expect(parsed.date).toBe("03/08/2025");
+    expect(parsed.athletes).toContainEqual(expect.objectContaining({
+      name: "Jack Smith", weightClass: "113 lbs", school: "Central", wins: 2, losses: 1, pins: 1, placement: 2,
+    }));
+    expect(parsed.bouts).toContainEqual(expect.objectContaining({
+      round: "Bout 309",
+      winner: { name: "Ray Cruz", school: "North" },
+      loser: { name: "Jack Smith", school: "Central" },
+      winType: "tech_fall",
+    }));
+  });
+
+  it("falls back to the generic parser for an unrecognized layout", async () => {
+    const parsed = await parsePDF(sample("generic.pdf"));
+
+    expect(parsed.format?.id).toBe("generic");
+    expect(parsed.competitionName).toBe("Holiday Duals");
+    expect(parsed.date).toBe("12/20/2024");
+    expect(parsed.bouts).toEqual([]);
+    expect(parsed.athletes).toContainEqual(expect.objectContaining({
+      name: "Jack Smith", weightClass: "145 lbs", placement: 1, wins: 12, losses: 2, pins: 1,
+    }));
+  });
+});
@@ -0,0 +1,126 @@
+import type { MatchResultType } from "@shared/schema";
+import type { ParsedCompetitionData } from "../pdfParser";
+
+export type WinType = MatchResultType;
+
+export interface ParsedBout {
+  weightClass: string;
+  round?: string;
+  winner: { name: string; school?: string };
+  loser: { name: string; school?: string };
+  winType?: WinType;
+  score?: string;
+  fallTime?: string;
+}
+
+export interface ParsedPlacement {
+  weightClass: string;
+  name: string;
+  school?: string;
+  placement: number;
+}
+
+export function findDate(lines: string[]): string | undefined {
+  for (const line of lines.slice(0, 15)) {
+    const dateMatch = line.match(/\d{1,2}\/\d{1,2}\/\d{2,4}|\d{1,2}-\d{1,2}-\d{2,4}/);
+    if (dateMatch) {
+      return dateMatch[0];
+    }
+  }
+  return undefined;
+}
+
+// Matches "106", "106 lbs", "Weight: 106" and "Weight Class: 106" headers
+export function parseWeightHeader(line: string): string | undefined {
+  const match = line.trim().match(/^(?:weight(?:\s+class)?:?\s*)?(\d{2,3})(?:\s*lbs?\.?)?$/i);
+  return match ? `${match[1]} lbs` : undefined;
+}
+
+export function parseOrdinal(value: string): number | undefined {
+  const match = value.match(/(\d+)(?:st|nd|rd|th)?/i);
+  return match ? parseInt(match[1], 10) : undefined;
+}
+
+export function classifyWinType(raw: string | undefined): WinType | undefined {
+  if (!raw) return undefined;
+  const value = raw.trim().toLowerCase();
+
+  if (/^(fall|f|pin)\b/.test(value)) return "fall";
+  if (/^(tech(nical)? fall|tf)\b/.test(value)) return "tech_fall";
+  if (/^(major decision|md|maj)\b/.test(value)) return "major_decision";
+  if (/^(decision|dec|d|sv-?\d|tb-?\d|utb)\b/.test(value)) return "decision";
+  if (/^(forfeit|ff|for|fft)\b/.test(value)) return "forfeit";
+  if (/^(injury default|inj|id|default)\b/.test(value)) return "injury_default";
+  if (/^(disqualification|dq)\b/.test(value)) return "disqualification";
+  return undefined;
+}
+
+// The school printed right after a wrestler's name, as in "Jack Smith (CENT)"
+// or "Jack Smith - Central". Result codes like "(Fall)" aren't schools.
+export function findSchool(line: string, name: string): string | undefined {
+  const start = line.indexOf(name);
+  if (start < 0) return undefined;
+  const rest = line.slice(start + name.length);
+  const match = rest.match(/^\s*\(([A-Za-z][^)]*)\)/) || rest.match(/^\s+-\s+([A-Za-z][A-Za-z.'& ]*[A-Za-z.])/);
+  const school = match?.[1].trim();
+  return school && !classifyWinType(school) ? school : undefined;
+}
+
+// Splits a trailing "1:32" or "5-2" off a result like "Fall 1:32" or "Dec 5-2"
+export function splitResultDetail(detail: string | undefined): { score?: string; fallTime?: string } {
+  if (!detail) return {};
+  const fallTime = detail.match(/\b(\d{1,2}:\d{2})\b/);
+  if (fallTime) return { fallTime: fallTime[1] };
+  const score = detail.match(/\b(\d{1,2}-\d{1,2})\b/);
+  return score ? { score: score[1] } : {};
+}
+
+// Placement from championship bracket labels like "1st Place Match" or "3rd Place"
+export function placementFromRound(round: string | undefined): { winner: number; loser: number } | undefined {
+  if (!round) return undefined;
+  const match = round.match(/(\d+)(?:st|nd|rd|th)\s+place/i);
+  if (!match) return undefined;
+  const place = parseInt(match[1], 10);
+  return { winner: place, loser: place + 1 };
+}
+
+// Rolls individual bouts and placements up into per-athlete competition totals
+export function aggregateBouts(
+  bouts: ParsedBout[],
+  placements: ParsedPlacement[] = []
+): ParsedCompetitionData["athletes"] {
+  const athletes = new Map<string, ParsedCompetitionData["athletes"][number]>();
+
+  const getAthlete = (name: string, weightClass: string, school?: string) => {
+    const key = `${name.toLowerCase()}|${weightClass}`;
+    let athlete = athletes.get(key);
+    if (!athlete) {
+      athlete = { name, weightClass, wins: 0, losses: 0, pins: 0, takedowns: 0 };
+      athletes.set(key, athlete);
+    }
+    if (school && !athlete.school) athlete.school = school;
+    return athlete;
+  };
+
+  for (const bout of bouts) {
+    const winner = getAthlete(bout.winner.name, bout.weightClass, bout.winner.school);
+    const loser = getAthlete(bout.loser.name, bout.weightClass, bout.loser.school);
+    winner.wins = (winner.wins || 0) + 1;
+    loser.losses = (loser.losses || 0) + 1;
+    if (bout.winType === "fall") {
+      winner.pins = (winner.pins || 0) + 1;
+    }
+
+    const places = placementFromRound(bout.round);
+    if (places) {
+      winner.placement = places.winner;
+      loser.placement = places.loser;
+    }
+  }
+
+  for (const placement of placements) {
+    getAthlete(placement.name, placement.weightClass, placement.school).placement = placement.placement;
+  }
+
+  return Array.from(athletes.values());
+}
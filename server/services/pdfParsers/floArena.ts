@@ -0,0 +1,77 @@
+import type { PdfFormatParser } from "./types";
+import {
+  aggregateBouts,
+  classifyWinType,
+  findDate,
+  parseWeightHeader,
+  splitResultDetail,
+  type ParsedBout,
+  type ParsedPlacement,
+} from "./common";
+
+// "Quarterfinal: Jack Smith (CENT) over Tom Lee (WEST) (Fall 1:32)"
+const BOUT_PATTERN =
+  /^(?:(.+?):\s+)?(.+?)\s+\(([^)]+)\)\s+over\s+(.+?)\s+\(([^)]+)\)\s*\(?\s*(Fall|Dec|MD|TF|FF|Inj|DQ|SV-\d|TB-\d|UTB)\b\s*([\d:\-]*)\s*\)?\s*$/i;
+
+// "1st: Jack Smith (CENT)" or "1st Place: Jack Smith (CENT)"
+const PLACEMENT_PATTERN = /^(\d+)(?:st|nd|rd|th)(?:\s+Place)?:\s*(.+?)(?:\s+\(([^)]+)\))?\s*$/i;
+
+export const floArenaParser: PdfFormatParser = {
+  id: "floarena",
+  label: "FloArena",
+
+  detect(text, lines) {
+    let confidence = 0;
+    if (/flo\s?arena|flowrestling/i.test(text)) confidence += 0.6;
+    const boutLines = lines.filter(line => BOUT_PATTERN.test(line)).length;
+    confidence += 0.4 * Math.min(1, boutLines / 3);
+    return confidence;
+  },
+
+  extract(lines) {
+    const bouts: ParsedBout[] = [];
+    const placements: ParsedPlacement[] = [];
+    let weightClass = "";
+
+    for (const rawLine of lines) {
+      const line = rawLine.trim();
+      const weight = parseWeightHeader(line);
+      if (weight) {
+        weightClass = weight;
+        continue;
+      }
+      if (!weightClass) continue;
+
+      const placement = line.match(PLACEMENT_PATTERN);
+      if (placement) {
+        placements.push({
+          weightClass,
+          placement: parseInt(placement[1], 10),
+          name: placement[2].trim(),
+          school: placement[3]?.trim(),
+        });
+        continue;
+      }
+
+      const match = line.match(BOUT_PATTERN);
+      if (!match) continue;
+
+      const [, round, winnerName, winnerSchool, loserName, loserSchool, resultCode, detail] = match;
+      bouts.push({
+        weightClass,
+        round: round?.trim(),
+        winner: { name: winnerName.trim(), school: winnerSchool.trim() },
+        loser: { name: loserName.trim(), school: loserSchool.trim() },
+        winType: classifyWinType(resultCode),
+        ...splitResultDetail(detail),
+      });
+    }
+
+    return {
+      athletes: aggregateBouts(bouts, placements),
+      bouts,
+      competitionName: lines[0]?.trim(),
+      date: findDate(lines),
+    };
+  },
+};
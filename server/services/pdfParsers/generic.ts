@@ -0,0 +1,79 @@
+import type { ParsedCompetitionData } from "../pdfParser";
+import type { PdfFormatParser } from "./types";
+import { findDate, findSchool } from "./common";
+
+// Name-and-weight heuristic used when no bracket system is recognized
+export const genericParser: PdfFormatParser = {
+  id: "generic",
+  label: "Generic",
+
+  detect() {
+    return 0.1;
+  },
+
+  extract(lines) {
+    const athletes: ParsedCompetitionData['athletes'] = [];
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+      
+      // Look for weight class indicators
+      const weightMatch = line.match(/(\d{2,3})\s*lbs?/i);
+      if (weightMatch) {
+        const weightClass = weightMatch[1] + ' lbs';
+        
+        // Look for athlete names and results in subsequent lines
+        for (let j = i + 1; j < Math.min(i + 10, lines.length); j++) {
+          const resultLine = lines[j];
+          
+          // Simple pattern matching for common wrestling result formats
+          const nameMatch = resultLine.match(/([A-Z][a-z]+\s+[A-Z][a-z]+)/);
+          const placementMatch = resultLine.match(/(\d+)(st|nd|rd|th)/);
+          const recordMatch = resultLine.match(/(\d+)-(\d+)/);
+          const pinMatch = resultLine.match(/pin|fall/i);
+          
+          if (nameMatch) {
+            const athleteData = {
+              name: nameMatch[1],
+              weightClass,
+              school: findSchool(resultLine, nameMatch[1]),
+              placement: placementMatch ? parseInt(placementMatch[1]) : undefined,
+              wins: recordMatch ? parseInt(recordMatch[1]) : undefined,
+              losses: recordMatch ? parseInt(recordMatch[2]) : undefined,
+              pins: pinMatch ? 1 : 0,
+              takedowns: 0, // Would need more sophisticated parsing
+            };
+            
+            // Avoid duplicates
+            const existing = athletes.find(a => a.name === athleteData.name && a.weightClass === athleteData.weightClass);
+            if (!existing) {
+              athletes.push(athleteData);
+            }
+          }
+        }
+      }
+    }
+
+    // If no athletes found with weight class matching, try alternative parsing
+    if (athletes.length === 0) {
+      for (const line of lines) {
+        const nameMatch = line.match(/([A-Z][a-z]+\s+[A-Z][a-z]+)/);
+        const weightMatch = line.match(/(\d{2,3})/);
+        
+        if (nameMatch && weightMatch) {
+          athletes.push({
+            name: nameMatch[1],
+            weightClass: weightMatch[1] + ' lbs',
+            school: findSchool(line, nameMatch[1]),
+          });
+        }
+      }
+    }
+
+    return {
+      athletes,
+      competitionName: lines[0]?.trim(),
+      date: findDate(lines.slice(0, 10)),
+    };
+  },
+};
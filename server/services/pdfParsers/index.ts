@@ -0,0 +1,26 @@
+import type { PdfFormatParser } from "./types";
+import { trackwrestlingParser } from "./trackwrestling";
+import { floArenaParser } from "./floArena";
+import { usaBracketingParser } from "./usaBracketing";
+import { genericParser } from "./generic";
+
+export type { PdfFormatParser, FormatExtraction } from "./types";
+
+// To support a new bracket system, add its parser here and a sample PDF under test/data
+export const formatParsers: PdfFormatParser[] = [
+  trackwrestlingParser,
+  floArenaParser,
+  usaBracketingParser,
+  genericParser,
+];
+
+export interface RankedParser {
+  parser: PdfFormatParser;
+  confidence: number;
+}
+
+export function rankParsers(text: string, lines: string[]): RankedParser[] {
+  return formatParsers
+    .map(parser => ({ parser, confidence: Math.max(0, Math.min(1, parser.detect(text, lines))) }))
+    .sort((a, b) => b.confidence - a.confidence);
+}
@@ -0,0 +1,59 @@
+import type { PdfFormatParser } from "./types";
+import {
+  aggregateBouts,
+  classifyWinType,
+  findDate,
+  parseWeightHeader,
+  splitResultDetail,
+  type ParsedBout,
+} from "./common";
+
+// "Champ. Round 1 - Jack Smith (Central) 20-4 won by fall over Tom Lee (West) 10-12 (Fall 1:32)"
+const BOUT_PATTERN =
+  /^(?:(.+?)\s+-\s+)?(.+?)\s+\(([^)]+)\)(?:\s+\d+-\d+)?\s+won by\s+(.+?)\s+over\s+(.+?)\s+\(([^)]+)\)(?:\s+\d+-\d+)?(?:\s+\(([^)]+)\))?\s*$/i;
+
+export const trackwrestlingParser: PdfFormatParser = {
+  id: "trackwrestling",
+  label: "Trackwrestling",
+
+  detect(text, lines) {
+    let confidence = 0;
+    if (/trackwrestling/i.test(text)) confidence += 0.6;
+    const boutLines = lines.filter(line => BOUT_PATTERN.test(line)).length;
+    confidence += 0.4 * Math.min(1, boutLines / 3);
+    return confidence;
+  },
+
+  extract(lines) {
+    const bouts: ParsedBout[] = [];
+    let weightClass = "";
+
+    for (const line of lines) {
+      const weight = parseWeightHeader(line);
+      if (weight) {
+        weightClass = weight;
+        continue;
+      }
+
+      const match = line.trim().match(BOUT_PATTERN);
+      if (!match || !weightClass) continue;
+
+      const [, round, winnerName, winnerSchool, resultText, loserName, loserSchool, detail] = match;
+      bouts.push({
+        weightClass,
+        round: round?.trim(),
+        winner: { name: winnerName.trim(), school: winnerSchool.trim() },
+        loser: { name: loserName.trim(), school: loserSchool.trim() },
+        winType: classifyWinType(resultText),
+        ...splitResultDetail(detail),
+      });
+    }
+
+    return {
+      athletes: aggregateBouts(bouts),
+      bouts,
+      competitionName: lines[0]?.trim(),
+      date: findDate(lines),
+    };
+  },
+};
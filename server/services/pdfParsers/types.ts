@@ -0,0 +1,11 @@
+import type { ParsedCompetitionData } from "../pdfParser";
+
+export type FormatExtraction = Pick<ParsedCompetitionData, "athletes" | "bouts" | "competitionName" | "date">;
+
+export interface PdfFormatParser {
+  id: string;
+  label: string;
+  // Returns a confidence between 0 and 1 that the text came from this bracket system
+  detect(text: string, lines: string[]): number;
+  extract(lines: string[]): FormatExtraction;
+}
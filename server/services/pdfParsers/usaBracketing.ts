@@ -0,0 +1,77 @@
+import type { PdfFormatParser } from "./types";
+import {
+  aggregateBouts,
+  classifyWinType,
+  findDate,
+  parseWeightHeader,
+  splitResultDetail,
+  type ParsedBout,
+  type ParsedPlacement,
+} from "./common";
+
+// "Bout 101: Jack Smith (Central) def. Tom Lee (West), F 1:32"
+const BOUT_PATTERN =
+  /^(?:(Bout\s+\d+|[^:]+?):\s+)?(.+?)\s+\(([^)]+)\)\s+def\.?\s+(.+?)\s+\(([^)]+)\),?\s+([A-Za-z-]+\d?)\s*([\d:\-]*)\s*$/i;
+
+// "Place 1 - Jack Smith (Central)"
+const PLACEMENT_PATTERN = /^Place\s+(\d+)\s*[-:]\s*(.+?)(?:\s+\(([^)]+)\))?\s*$/i;
+
+export const usaBracketingParser: PdfFormatParser = {
+  id: "usabracketing",
+  label: "USA Bracketing",
+
+  detect(text, lines) {
+    let confidence = 0;
+    if (/usa\s?bracketing/i.test(text)) confidence += 0.6;
+    const boutLines = lines.filter(line => BOUT_PATTERN.test(line)).length;
+    confidence += 0.4 * Math.min(1, boutLines / 3);
+    return confidence;
+  },
+
+  extract(lines) {
+    const bouts: ParsedBout[] = [];
+    const placements: ParsedPlacement[] = [];
+    let weightClass = "";
+
+    for (const rawLine of lines) {
+      const line = rawLine.trim();
+      const weight = parseWeightHeader(line);
+      if (weight) {
+        weightClass = weight;
+        continue;
+      }
+      if (!weightClass) continue;
+
+      const placement = line.match(PLACEMENT_PATTERN);
+      if (placement) {
+        placements.push({
+          weightClass,
+          placement: parseInt(placement[1], 10),
+          name: placement[2].trim(),
+          school: placement[3]?.trim(),
+        });
+        continue;
+      }
+
+      const match = line.match(BOUT_PATTERN);
+      if (!match) continue;
+
+      const [, round, winnerName, winnerSchool, loserName, loserSchool, resultCode, detail] = match;
+      bouts.push({
+        weightClass,
+        round: round?.trim(),
+        winner: { name: winnerName.trim(), school: winnerSchool.trim() },
+        loser: { name: loserName.trim(), school: loserSchool.trim() },
+        winType: classifyWinType(resultCode),
+        ...splitResultDetail(detail),
+      });
+    }
+
+    return {
+      athletes: aggregateBouts(bouts, placements),
+      bouts,
+      competitionName: lines[0]?.trim(),
+      date: findDate(lines),
+    };
+  },
+};
@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import type { Athlete } from "@shared/schema";
+import type { ParsedCompetitionData } from "./pdfParser";
+import {
+  keepOwnSchool, manualAliases, nameSimilarity, normalizeName, reconcileParsedAthletes, sameSchool, teamSchoolNames,
+} from "./resultsReconciliation";
+
+function athlete(id: string, name: string, weightClass: string): Athlete {
+  return { id, teamId: "team-1", name, grade: "10th", weightClass, profilePhotoUrl: null, createdAt: null, updatedAt: null };
+}
+
+const schools = ["Central High School", "CENT"];
+
+function parse(...athletes: ParsedCompetitionData["athletes"]): ParsedCompetitionData {
+  return { athletes, bouts: [] };
+}
+
+describe("nameSimilarity", () => {
+  it("scores the same name, a nickname and a different last name", () => {
+    expect(nameSimilarity(normalizeName("Smith, Jack"), normalizeName("Jack Smith"))).toBe(1);
+    expect(nameSimilarity("bill jones", "william jones")).toBeCloseTo(0.925);
+    expect(nameSimilarity("jack smith", "jack jones")).toBe(0);
+  });
+});
+
+describe("reconcileParsedAthletes", () => {
+  it("links an exact name and a nickname to the roster", () => {
+    const roster = [athlete("jack", "Jack Smith", "106"), athlete("will", "William Jones", "120")];
+    const rows = reconcileParsedAthletes(parse(
+      { name: "Smith, Jack", weightClass: "106 lbs", school: "CENT" },
+      { name: "Bill Jones", weightClass: "120 lbs", school: "Central" },
+    ), roster, { schools });
+
+    expect(rows[0]).toMatchObject({ athleteId: "jack", matchType: "exact" });
+    expect(rows[1]).toMatchObject({ athleteId: "will", matchType: "fuzzy" });
+  });
+
+  it("leaves a name that fits two roster athletes equally well for the coach", () => {
+    const roster = [athlete("chris", "Chris Miller", "132"), athlete("christopher", "Christopher Miller", "132")];
+    const [row] = reconcileParsedAthletes(parse({ name: "C. Miller", weightClass: "132 lbs", school: "CENT" }), roster, { schools });
+
+    expect(row.matchType).toBe("ambiguous");
+    expect(row.athleteId).toBeNull();
+    expect(row.candidates.map(candidate => candidate.athleteId).sort()).toEqual(["chris", "christopher"]);
+  });
+
+  it("reuses an alias saved from an earlier upload", () => {
+    const roster = [athlete("tom", "Tom Lee", "145")];
+    const aliases = [{ athleteId: "tom", alias: "thomas li" }];
+    const [row] = reconcileParsedAthletes(parse({ name: "Li, Thomas", weightClass: "145 lbs", school: "CENT" }), roster, { schools, aliases });
+
+    expect(row).toMatchObject({ athleteId: "tom", matchType: "alias" });
+  });
+});
+
+describe("manualAliases", () => {
+  it("remembers a parsed name the coach linked by hand", () => {
+    const roster = [athlete("chris", "Chris Miller", "132"), athlete("christopher", "Christopher Miller", "132")];
+    const rows = reconcileParsedAthletes(parse({ name: "C. Miller", weightClass: "132 lbs", school: "CENT" }), roster, { schools });
+
+    expect(manualAliases(rows, [{ parsedIndex: 0, athleteId: "christopher" }], roster))
+      .toEqual([{ athleteId: "christopher", alias: "c miller" }]);
+  });
+
+  it("adds nothing when the coach keeps the automatic link", () => {
+    const roster = [athlete("will", "William Jones", "120")];
+    const rows = reconcileParsedAthletes(parse({ name: "Bill Jones", weightClass: "120 lbs", school: "CENT" }), roster, { schools });
+
+    expect(manualAliases(rows, [{ parsedIndex: 0, athleteId: "will" }], roster)).toEqual([]);
+  });
+});
+
+describe("sameSchool", () => {
+  it("treats abbreviations of a school as the same school", () => {
+    expect(sameSchool("Central HS", "Central High School")).toBe(true);
+    expect(sameSchool("CHS", "Central High School")).toBe(true);
+    expect(sameSchool("North High School", "Central High School")).toBe(false);
+  });
+});
+
+describe("keepOwnSchool", () => {
+  // The bracket prints the team under the code a coach saved as a school alias
+  const ourSchools = teamSchoolNames({ school: "Central High School", schoolAliases: ["Wildcats"] });
+
+  const parsed: ParsedCompetitionData = {
+    athletes: [
+      { name: "Jack Smith", weightClass: "106 lbs", school: "Wildcats" },
+      { name: "Ray Cruz", weightClass: "106 lbs", school: "North" },
+      { name: "Tom Lee", weightClass: "113 lbs", school: "West" },
+      { name: "Sam Hill", weightClass: "120 lbs" },
+    ],
+    bouts: [
+      { weightClass: "106 lbs", winner: { name: "Ray Cruz", school: "North" }, loser: { name: "Jack Smith", school: "Wildcats" }, winType: "decision" },
+      { weightClass: "113 lbs", winner: { name: "Tom Lee", school: "West" }, loser: { name: "Al Fox", school: "East" }, winType: "fall" },
+    ],
+  };
+
+  it("drops wrestlers from other schools and keeps the alias spelling of ours", () => {
+    const kept = keepOwnSchool(parsed, ourSchools);
+
+    expect(kept.athletes.map(athlete => athlete.name)).toEqual(["Jack Smith", "Sam Hill"]);
+    expect(kept.otherSchoolsRemoved).toBe(2);
+    // Our wrestler's bout stays so the opponent is still recorded
+    expect(kept.bouts).toEqual([parsed.bouts![0]]);
+  });
+
+  it("keeps everyone when no school in the results is ours", () => {
+    expect(keepOwnSchool(parsed, teamSchoolNames({ school: "Southside Academy", schoolAliases: [] }))).toBe(parsed);
+  });
+});
@@ -0,0 +1,349 @@
+import type { Athlete, AthleteAlias, InsertMatch, Team } from "@shared/schema";
+import type { ParsedCompetitionData } from "./pdfParser";
+
+type ParsedAthlete = ParsedCompetitionData["athletes"][number];
+
+export type MatchType = "exact" | "alias" | "fuzzy" | "ambiguous" | "none";
+
+export interface MatchCandidate {
+  athleteId: string;
+  score: number;
+}
+
+export interface ReconciliationRow {
+  index: number;
+  parsed: ParsedAthlete;
+  athleteId: string | null;
+  matchType: MatchType;
+  confidence: number;
+  candidates: MatchCandidate[];
+  boutCount: number;
+}
+
+export interface ReconciliationContext {
+  schools?: string[];
+  aliases?: Pick<AthleteAlias, "athleteId" | "alias">[];
+}
+
+// Scores at or above AUTO_LINK_SCORE link without the coach, provided the
+// runner-up trails by AUTO_LINK_MARGIN. Anything from CANDIDATE_SCORE up is
+// offered as a suggestion.
+const AUTO_LINK_SCORE = 0.85;
+const AUTO_LINK_MARGIN = 0.1;
+const CANDIDATE_SCORE = 0.6;
+const MAX_CANDIDATES = 3;
+
+const NAME_WEIGHT = 0.6;
+const WEIGHT_CLASS_WEIGHT = 0.25;
+const SCHOOL_WEIGHT = 0.15;
+
+const NAME_SUFFIXES = new Set(["jr", "sr", "ii", "iii", "iv"]);
+const SCHOOL_STOPWORDS = new Set(["high", "school", "hs", "the", "of", "academy"]);
+
+// Common nicknames that don't share a prefix with the full name
+const NICKNAMES: Record<string, string[]> = {
+  william: ["bill", "billy", "will", "liam"],
+  robert: ["bob", "bobby", "rob", "bert"],
+  richard: ["dick", "rick", "ricky", "rich"],
+  james: ["jim", "jimmy", "jamie"],
+  john: ["jack", "johnny"],
+  anthony: ["tony"],
+  charles: ["chuck", "charlie"],
+  henry: ["hank"],
+  edward: ["ted", "ed", "eddie"],
+  theodore: ["ted", "teddy", "theo"],
+  joseph: ["joe", "joey"],
+  alexander: ["alex", "xander"],
+  jacob: ["jake"],
+  michael: ["mike", "mikey"],
+  nicholas: ["nick"],
+  christopher: ["chris"],
+  matthew: ["matt"],
+  daniel: ["dan", "danny"],
+  benjamin: ["ben"],
+  samuel: ["sam"],
+};
+
+// Lowercases, strips punctuation and suffixes (Jr, III) and flips
+// "Last, First" so roster and PDF names compare equal
+export function normalizeName(name: string): string {
+  let value = name.trim();
+  const commaIndex = value.indexOf(",");
+  if (commaIndex > 0) {
+    value = `${value.slice(commaIndex + 1)} ${value.slice(0, commaIndex)}`;
+  }
+
+  return value
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, "")
+    .split(/\s+/)
+    .filter(token => token && !NAME_SUFFIXES.has(token))
+    .join(" ");
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function isNickname(a: string, b: string): boolean {
+  return NICKNAMES[a]?.includes(b) || NICKNAMES[b]?.includes(a) || false;
+}
+
+function firstNameScore(a: string, b: string): number {
+  if (a === b) return 1;
+  if (a.length === 1 || b.length === 1) return a[0] === b[0] ? 0.75 : 0;
+  if (isNickname(a, b)) return 0.85;
+  if (Math.min(a.length, b.length) >= 3 && (a.startsWith(b) || b.startsWith(a))) return 0.85;
+  return a[0] === b[0] ? 0.3 : 0;
+}
+
+// 0-1 similarity of two normalized names. The last name has to agree (a
+// one-letter typo is tolerated on longer names); the first name can be an
+// initial, a nickname or a shortened form. Middle names are ignored.
+export function nameSimilarity(a: string, b: string): number {
+  const left = a.split(" ").filter(Boolean);
+  const right = b.split(" ").filter(Boolean);
+  if (left.length === 0 || right.length === 0) return 0;
+
+  const leftLast = left[left.length - 1];
+  const rightLast = right[right.length - 1];
+  const lastScore = leftLast === rightLast
+    ? 1
+    : Math.min(leftLast.length, rightLast.length) >= 5 && editDistance(leftLast, rightLast) === 1 ? 0.8 : 0;
+  if (lastScore === 0) return 0;
+  if (left.length === 1 || right.length === 1) return lastScore * 0.5;
+
+  return lastScore * (0.5 + 0.5 * firstNameScore(left[0], right[0]));
+}
+
+function weightValue(weightClass: string | null | undefined): number | undefined {
+  const match = weightClass?.match(/\d+/);
+  return match ? parseInt(match[0], 10) : undefined;
+}
+
+// Same class scores 1, a neighbouring class 0.5; unknown weights are neutral
+function weightClassSimilarity(parsed: string, roster: string): number {
+  const a = weightValue(parsed);
+  const b = weightValue(roster);
+  if (a === undefined || b === undefined) return 0.5;
+  const difference = Math.abs(a - b);
+  if (difference === 0) return 1;
+  return difference <= 15 ? 0.5 : 0;
+}
+
+function schoolWords(school: string): string[] {
+  return school
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+function isAbbreviationOf(abbreviation: string[], words: string[]): boolean {
+  return abbreviation.length === 1 && words.length > 1 && abbreviation[0] === words.map(word => word[0]).join("");
+}
+
+// Brackets abbreviate schools ("Central HS", "CHS"), so containment or
+// matching initials count as the same school
+export function sameSchool(a: string, b: string): boolean {
+  const left = schoolWords(a);
+  const right = schoolWords(b);
+  const leftKey = left.filter(word => !SCHOOL_STOPWORDS.has(word));
+  const rightKey = right.filter(word => !SCHOOL_STOPWORDS.has(word));
+  if (leftKey.length === 0 || rightKey.length === 0) return false;
+  const [shorter, longer] = leftKey.length <= rightKey.length ? [leftKey, rightKey] : [rightKey, leftKey];
+  if (shorter.every(word => longer.includes(word))) return true;
+  return isAbbreviationOf(left, right) || isAbbreviationOf(right, left);
+}
+
+// The team's school plus the names and codes coaches added for it
+export function teamSchoolNames(team: Pick<Team, "school" | "schoolAliases"> | undefined): string[] {
+  return team ? [team.school, ...(team.schoolAliases || [])].filter(Boolean) : [];
+}
+
+function isOurSchool(school: string | undefined, schools: string[]): boolean {
+  return !!school && schools.some(ours => sameSchool(school, ours));
+}
+
+function scoreCandidate(parsed: ParsedAthlete, athlete: Athlete, nameScore: number, schools: string[]): number {
+  const schoolScore = parsed.school && schools.length ? (isOurSchool(parsed.school, schools) ? 1 : 0) : 0.5;
+  const score = NAME_WEIGHT * nameScore
+    + WEIGHT_CLASS_WEIGHT * weightClassSimilarity(parsed.weightClass, athlete.weightClass)
+    + SCHOOL_WEIGHT * schoolScore;
+  return Math.round(score * 100) / 100;
+}
+
+interface Proposal {
+  row: ReconciliationRow;
+  athleteId: string | null;
+  matchType: MatchType;
+  otherSchool: boolean;
+}
+
+export function reconcileParsedAthletes(
+  parsedData: ParsedCompetitionData | null | undefined,
+  roster: Athlete[],
+  { schools = [], aliases = [] }: ReconciliationContext = {}
+): ReconciliationRow[] {
+  const parsedAthletes = parsedData?.athletes || [];
+  const rosterById = new Map(roster.map(athlete => [athlete.id, athlete]));
+  const aliasTargets = new Map<string, string[]>();
+  for (const { athleteId, alias } of aliases) {
+    if (rosterById.has(athleteId)) {
+      aliasTargets.set(alias, [...(aliasTargets.get(alias) || []), athleteId]);
+    }
+  }
+
+  const proposals: Proposal[] = parsedAthletes.map((parsed, index) => {
+    const name = normalizeName(parsed.name);
+    const aliasIds = aliasTargets.get(name) || [];
+    const candidates = roster
+      .map(athlete => {
+        const nameScore = aliasIds.includes(athlete.id) ? 1 : nameSimilarity(name, normalizeName(athlete.name));
+        return { athleteId: athlete.id, score: nameScore ? scoreCandidate(parsed, athlete, nameScore, schools) : 0, nameScore };
+      })
+      .filter(candidate => candidate.score >= CANDIDATE_SCORE)
+      .sort((a, b) => b.score - a.score);
+
+    const [best, runnerUp] = candidates;
+    const otherSchool = !!parsed.school && schools.length > 0 && !isOurSchool(parsed.school, schools);
+    let matchType: MatchType = "none";
+    if (best) {
+      const bestAthlete = rosterById.get(best.athleteId)!;
+      if (normalizeName(bestAthlete.name) === name) {
+        matchType = "exact";
+      } else if (aliasIds.includes(best.athleteId)) {
+        matchType = "alias";
+      } else {
+        matchType = "fuzzy";
+      }
+      const clearWinner = best.score >= AUTO_LINK_SCORE && (!runnerUp || best.score - runnerUp.score >= AUTO_LINK_MARGIN);
+      if (matchType === "fuzzy" && !clearWinner) {
+        matchType = "ambiguous";
+      }
+      if (matchType === "exact" && runnerUp && runnerUp.nameScore === 1) {
+        matchType = "ambiguous";
+      }
+    }
+
+    return {
+      row: {
+        index,
+        parsed,
+        athleteId: null,
+        matchType: "none",
+        confidence: best?.score ?? 0,
+        candidates: candidates.slice(0, MAX_CANDIDATES).map(({ athleteId, score }) => ({ athleteId, score })),
+        boutCount: boutsForAthlete(parsedData, parsed).length,
+      },
+      athleteId: best?.athleteId ?? null,
+      matchType,
+      // A wrestler listed under another school is an opponent unless the coach says otherwise
+      otherSchool,
+    };
+  });
+
+  // Strongest proposals claim their athlete first; a later row wanting the
+  // same athlete is left for the coach
+  const claimed = new Set<string>();
+  const ranked = [...proposals].sort((a, b) => b.row.confidence - a.row.confidence);
+  for (const proposal of ranked) {
+    const { row, athleteId, matchType, otherSchool } = proposal;
+    if (!athleteId || matchType === "none") continue;
+    if (matchType === "ambiguous" || otherSchool || claimed.has(athleteId)) {
+      row.matchType = "ambiguous";
+      continue;
+    }
+    claimed.add(athleteId);
+    row.athleteId = athleteId;
+    row.matchType = matchType;
+  }
+
+  return proposals.map(proposal => proposal.row);
+}
+
+// Narrows a parse to the team's own wrestlers so a big invitational doesn't
+// bury them among hundreds of others. Wrestlers with no school printed are
+// kept for the coach to judge, and bouts against our wrestlers stay so their
+// opponents are still recorded. If no school in the PDF matches (an
+// unconfigured team code, say) nothing is dropped.
+export function keepOwnSchool(parsedData: ParsedCompetitionData, schools: string[]): ParsedCompetitionData {
+  const isOurs = (school: string | undefined) => isOurSchool(school, schools);
+  if (!parsedData.athletes.some(athlete => isOurs(athlete.school))) {
+    return parsedData;
+  }
+
+  const athletes = parsedData.athletes.filter(athlete => !athlete.school || isOurs(athlete.school));
+  const kept = new Set(athletes.map(athlete => `${normalizeName(athlete.name)}|${athlete.weightClass}`));
+  const involvesKept = (name: string, weightClass: string) => kept.has(`${normalizeName(name)}|${weightClass}`);
+  const bouts = parsedData.bouts?.filter(bout =>
+    involvesKept(bout.winner.name, bout.weightClass) || involvesKept(bout.loser.name, bout.weightClass)
+  );
+
+  return {
+    ...parsedData,
+    athletes,
+    bouts,
+    otherSchoolsRemoved: parsedData.athletes.length - athletes.length,
+  };
+}
+
+// Parsed names the coach linked to someone other than the automatic pick,
+// worth remembering for the next upload
+export function manualAliases(
+  rows: ReconciliationRow[],
+  links: { parsedIndex?: number; athleteId: string }[],
+  roster: Athlete[]
+): { athleteId: string; alias: string }[] {
+  return links.flatMap(({ parsedIndex, athleteId }) => {
+    const row = rows.find(candidate => candidate.index === parsedIndex);
+    const athlete = roster.find(candidate => candidate.id === athleteId);
+    if (!row || !athlete || row.athleteId === athleteId) return [];
+    const alias = normalizeName(row.parsed.name);
+    return alias && alias !== normalizeName(athlete.name) ? [{ athleteId, alias }] : [];
+  });
+}
+
+function boutsForAthlete(parsedData: ParsedCompetitionData | null | undefined, parsed: ParsedAthlete) {
+  const name = normalizeName(parsed.name);
+  return (parsedData?.bouts || []).filter(bout =>
+    bout.weightClass === parsed.weightClass &&
+    (normalizeName(bout.winner.name) === name || normalizeName(bout.loser.name) === name)
+  );
+}
+
+// Builds match rows for one roster athlete from the bouts the parser found for their parsed name
+export function matchesFromBouts(
+  parsedData: ParsedCompetitionData | null | undefined,
+  parsed: ParsedAthlete,
+  competitionId: string,
+  athleteId: string
+): InsertMatch[] {
+  const name = normalizeName(parsed.name);
+
+  return boutsForAthlete(parsedData, parsed).map((bout, boutOrder) => {
+    const won = normalizeName(bout.winner.name) === name;
+    const opponent = won ? bout.loser : bout.winner;
+    return {
+      competitionId,
+      athleteId,
+      weightClass: bout.weightClass,
+      round: bout.round ?? null,
+      boutOrder,
+      opponentName: opponent.name,
+      opponentSchool: opponent.school ?? null,
+      outcome: won ? "win" as const : "loss" as const,
+      resultType: bout.winType ?? "decision",
+      score: bout.score ?? null,
+      fallTime: bout.fallTime ?? null,
+    };
+  });
+}
@@ -0,0 +1,115 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import ExcelJS from "exceljs";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { parseCsv, parseSpreadsheetResults, previewSpreadsheet, readSpreadsheet } from "./spreadsheetImport";
+
+const csv = [
+  "Wrestler,Wt,Result,Opp,Score,Place",
+  '"Smith, Jack",106,W Fall,"Cruz, Ray",1:32,1st',
+  "Tom Lee,113 lbs,L,,x-y,DNP",
+  "Sam Hill,Hvy,W Dec,Al Fox,abc,",
+].join("\r\n");
+
+let dir: string;
+
+beforeAll(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "spreadsheet-import-"));
+});
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("parseCsv", () => {
+  it("keeps commas, quotes and line breaks inside quoted fields", () => {
+    expect(parseCsv('a,"b, c","say ""hi"""\r\n1,"two\nlines",3')).toEqual([
+      ["a", "b, c", 'say "hi"'],
+      ["1", "two\nlines", "3"],
+    ]);
+  });
+});
+
+describe("readSpreadsheet", () => {
+  it("reads a CSV upload by its original name", async () => {
+    const file = path.join(dir, "upload-csv");
+    fs.writeFileSync(file, `\uFEFF${csv}\r\n,,,,,\r\n`);
+
+    const rows = await readSpreadsheet(file, "results.CSV");
+
+    expect(rows).toHaveLength(4);
+    expect(rows[0][0]).toBe("Wrestler");
+    expect(rows[1]).toEqual(["Smith, Jack", "106", "W Fall", "Cruz, Ray", "1:32", "1st"]);
+  });
+
+  it("reads the first sheet of an XLSX upload", async () => {
+    const workbook = new ExcelJS.Workbook();
+    const sheet = workbook.addWorksheet("Results");
+    sheet.addRow(["Grappler", "Class", "Finish"]);
+    sheet.addRow([" Jack Smith ", 106, "2nd"]);
+    const file = path.join(dir, "upload-xlsx");
+    await workbook.xlsx.writeFile(file);
+
+    const rows = await readSpreadsheet(file, "results.xlsx");
+
+    expect(rows).toEqual([["Grappler", "Class", "Finish"], ["Jack Smith", "106", "2nd"]]);
+  });
+});
+
+describe("previewSpreadsheet", () => {
+  it("guesses the column for each field from the header", () => {
+    const preview = previewSpreadsheet(parseCsv(csv));
+
+    expect(preview.columns).toEqual(["Wrestler", "Wt", "Result", "Opp", "Score", "Place"]);
+    expect(preview.suggested).toEqual({
+      name: "Wrestler", weight: "Wt", result: "Result", opponent: "Opp", score: "Score", placement: "Place",
+    });
+    expect(preview.sampleRows).toHaveLength(3);
+  });
+});
+
+describe("parseSpreadsheetResults", () => {
+  const columns = { name: "Wrestler", weight: "Wt", result: "Result", opponent: "Opp", score: "Score", placement: "Place" };
+
+  it("turns each result row into a bout for the named wrestler", () => {
+    const parsed = parseSpreadsheetResults(parseCsv(csv), columns);
+
+    expect(parsed.bouts?.[0]).toEqual({
+      weightClass: "106 lbs",
+      winner: { name: "Smith, Jack" },
+      loser: { name: "Cruz, Ray" },
+      winType: "fall",
+      fallTime: "1:32",
+    });
+    expect(parsed.athletes).toContainEqual(expect.objectContaining({
+      name: "Smith, Jack", weightClass: "106 lbs", wins: 1, pins: 1, placement: 1,
+    }));
+    // Opponents are only recorded on their bouts
+    expect(parsed.athletes.map(athlete => athlete.name)).toEqual(["Smith, Jack", "Tom Lee", "Sam Hill"]);
+  });
+
+  it("records a bout with no opponent against Unknown", () => {
+    const parsed = parseSpreadsheetResults(parseCsv(csv), columns);
+
+    expect(parsed.bouts?.[1]).toMatchObject({ winner: { name: "Unknown" }, loser: { name: "Tom Lee" } });
+  });
+
+  it("ignores numbers it can't read instead of guessing", () => {
+    const parsed = parseSpreadsheetResults(parseCsv(csv), columns);
+
+    // "x-y" and "abc" aren't scores, "DNP" isn't a place and "Hvy" stays as written
+    expect(parsed.bouts?.[1]).toEqual({ weightClass: "113 lbs", winner: { name: "Unknown" }, loser: { name: "Tom Lee" }, winType: "decision" });
+    expect(parsed.bouts?.[2]).toEqual({ weightClass: "Hvy", winner: { name: "Sam Hill" }, loser: { name: "Al Fox" }, winType: "decision" });
+    expect(parsed.athletes.find(athlete => athlete.name === "Tom Lee")?.placement).toBeUndefined();
+  });
+
+  it("reads fields from whichever columns the coach mapped", () => {
+    const rows = [["Grappler", "Class", "Finish"], ["Jack Smith", "106", "2nd"]];
+
+    const parsed = parseSpreadsheetResults(rows, { name: "Grappler", weight: "Class", placement: "Finish" });
+
+    expect(parsed.bouts).toEqual([]);
+    expect(parsed.athletes).toEqual([expect.objectContaining({ name: "Jack Smith", weightClass: "106 lbs", placement: 2 })]);
+  });
+});
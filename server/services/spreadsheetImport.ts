@@ -0,0 +1,183 @@
+import fs from "fs";
+import path from "path";
+import ExcelJS from "exceljs";
+import type { ImportColumns, ImportField } from "@shared/schema";
+import type { ParsedCompetitionData } from "./pdfParser";
+import {
+  aggregateBouts,
+  classifyWinType,
+  parseOrdinal,
+  parseWeightHeader,
+  splitResultDetail,
+  type ParsedBout,
+  type ParsedPlacement,
+} from "./pdfParsers/common";
+
+const SPREADSHEET_EXTENSIONS = [".csv", ".xlsx"];
+const SAMPLE_ROWS = 5;
+
+// Header words that usually mean a field, for a first guess at the mapping
+const HEADER_HINTS: Record<ImportField, RegExp> = {
+  name: /^(name|wrestler|athlete)/i,
+  weight: /^(weight|wt|class)/i,
+  result: /^(result|outcome|w\/?l|win)/i,
+  opponent: /^(opponent|opp|vs)/i,
+  score: /^(score|time)/i,
+  placement: /^(place|placement|finish)/i,
+};
+
+export interface SpreadsheetPreview {
+  columns: string[];
+  sampleRows: string[][];
+  suggested: Partial<ImportColumns>;
+}
+
+export function isSpreadsheet(originalName: string): boolean {
+  return SPREADSHEET_EXTENSIONS.includes(path.extname(originalName).toLowerCase());
+}
+
+// RFC 4180: quoted fields may hold commas, newlines and doubled quotes
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+// Every row of the first sheet as trimmed cell text, blank rows dropped.
+// Multer stores uploads without an extension, so the original name decides the format.
+export async function readSpreadsheet(filePath: string, originalName: string): Promise<string[][]> {
+  let rows: string[][];
+  if (path.extname(originalName).toLowerCase() === ".csv") {
+    rows = parseCsv(fs.readFileSync(filePath, "utf8").replace(/^\uFEFF/, ""));
+  } else {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.readFile(filePath);
+    const sheet = workbook.worksheets[0];
+    rows = [];
+    sheet?.eachRow(row => {
+      const cells: string[] = [];
+      for (let column = 1; column <= sheet.columnCount; column++) {
+        cells.push(row.getCell(column).text);
+      }
+      rows.push(cells);
+    });
+  }
+
+  return rows
+    .map(row => row.map(cell => cell.trim()))
+    .filter(row => row.some(Boolean));
+}
+
+// The first row is the header; blank or repeated headers get a column number
+function headerNames(header: string[]): string[] {
+  const seen = new Set<string>();
+  return header.map((cell, index) => {
+    const name = cell && !seen.has(cell) ? cell : `Column ${index + 1}`;
+    seen.add(name);
+    return name;
+  });
+}
+
+export function previewSpreadsheet(rows: string[][]): SpreadsheetPreview {
+  const columns = headerNames(rows[0] || []);
+  const suggested: Partial<ImportColumns> = {};
+  for (const [field, hint] of Object.entries(HEADER_HINTS) as [ImportField, RegExp][]) {
+    const column = columns.find(name => hint.test(name) && !Object.values(suggested).includes(name));
+    if (column) suggested[field] = column;
+  }
+
+  return { columns, sampleRows: rows.slice(1, 1 + SAMPLE_ROWS), suggested };
+}
+
+// "W", "Win", "W Fall", "L Dec 3-1" and the like
+function parseResult(value: string): { won: boolean; rest: string } | undefined {
+  const match = value.match(/^(w|win|won|l|loss|lost)\b\.?\s*(.*)$/i);
+  if (!match) return undefined;
+  return { won: match[1].toLowerCase().startsWith("w"), rest: match[2] };
+}
+
+// Turns sheet rows into the same shape the PDF parsers produce. A row with a
+// result is one bout for the named wrestler; a row with a placement records
+// where they finished. Rows with neither are skipped.
+export function parseSpreadsheetResults(rows: string[][], columns: ImportColumns): ParsedCompetitionData {
+  const header = headerNames(rows[0] || []);
+  const cell = (row: string[], field: ImportField) => {
+    const column = columns[field];
+    const index = column ? header.indexOf(column) : -1;
+    return index >= 0 ? (row[index] || "").trim() : "";
+  };
+
+  const bouts: ParsedBout[] = [];
+  const placements: ParsedPlacement[] = [];
+  const wrestlers = new Set<string>();
+
+  for (const row of rows.slice(1)) {
+    const name = cell(row, "name");
+    const rawWeight = cell(row, "weight");
+    if (!name || !rawWeight) continue;
+    const weightClass = parseWeightHeader(rawWeight) || rawWeight;
+    wrestlers.add(`${name.toLowerCase()}|${weightClass}`);
+
+    const result = parseResult(cell(row, "result"));
+    if (result) {
+      const opponent = cell(row, "opponent") || "Unknown";
+      const score = cell(row, "score");
+      const detail = splitResultDetail(`${result.rest} ${score}`);
+      const winType = classifyWinType(result.rest) || classifyWinType(score) || (detail.fallTime ? "fall" : "decision");
+      bouts.push({
+        weightClass,
+        winner: { name: result.won ? name : opponent },
+        loser: { name: result.won ? opponent : name },
+        winType,
+        ...detail,
+      });
+    }
+
+    const placement = parseOrdinal(cell(row, "placement"));
+    if (placement) {
+      placements.push({ weightClass, name, placement });
+    }
+  }
+
+  // Opponents only appear on their bouts, not as results of their own
+  return {
+    athletes: aggregateBouts(bouts, placements)
+      .filter(athlete => wrestlers.has(`${athlete.name.toLowerCase()}|${athlete.weightClass}`)),
+    bouts,
+    format: { id: "spreadsheet", label: "Spreadsheet", confidence: 1 },
+  };
+}
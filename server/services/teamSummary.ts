@@ -0,0 +1,113 @@
+import type { Athlete, AthletePerformance, Competition, Match } from "@shared/schema";
+
+// Dual-meet team scoring per win. Tournaments score advancement and placement
+// points too, but those depend on bracket sizes we don't store.
+const TEAM_POINTS: Record<Match["resultType"], number> = {
+  fall: 6,
+  forfeit: 6,
+  injury_default: 6,
+  disqualification: 6,
+  tech_fall: 5,
+  major_decision: 4,
+  decision: 3,
+};
+
+export interface TeamSummary {
+  competitionName: string;
+  date: string;
+  athleteCount: number;
+  wins: number;
+  losses: number;
+  totalPins: number;
+  teamPoints: number;
+  placements: { athleteName: string; weightClass: string; placement: number }[];
+  champions: { athleteName: string; weightClass: string }[];
+  // Wins over an opponent who beat the same athlete earlier in the season
+  notableUpsets: { athleteName: string; opponentName: string; opponentSchool: string | null; resultType: string; score: string | null }[];
+  // Athletes whose first recorded win of the season came at this competition
+  firstTimeWinners: string[];
+}
+
+export interface TeamSummaryInput {
+  competition: Competition;
+  athletes: Athlete[];
+  performances: AthletePerformance[];
+  matches: Match[];
+  // Results from the team's earlier competitions this season
+  priorPerformances: AthletePerformance[];
+  priorMatches: Match[];
+}
+
+function opponentKey(athleteId: string, opponentName: string): string {
+  return `${athleteId}:${opponentName.trim().toLowerCase()}`;
+}
+
+// Without bout-level results, assume every non-pin win was a decision
+function pointsFromPerformance(perf: AthletePerformance): number {
+  const pins = perf.pins || 0;
+  return pins * TEAM_POINTS.fall + Math.max((perf.wins || 0) - pins, 0) * TEAM_POINTS.decision;
+}
+
+export function buildTeamSummary({
+  competition,
+  athletes,
+  performances,
+  matches,
+  priorPerformances,
+  priorMatches,
+}: TeamSummaryInput): TeamSummary {
+  const athletesById = new Map(athletes.map(athlete => [athlete.id, athlete]));
+  const nameOf = (athleteId: string) => athletesById.get(athleteId)?.name || "Unknown athlete";
+  const weightOf = (perf: AthletePerformance) => athletesById.get(perf.athleteId)?.weightClass || "";
+
+  const placements = performances
+    .filter(perf => perf.placement)
+    .map(perf => ({ athleteName: nameOf(perf.athleteId), weightClass: weightOf(perf), placement: perf.placement! }))
+    .sort((a, b) => a.placement - b.placement);
+
+  const matchesByAthlete = new Set(matches.map(match => match.athleteId));
+  const teamPoints = matches
+    .filter(match => match.outcome === "win")
+    .reduce((total, match) => total + TEAM_POINTS[match.resultType], 0)
+    + performances
+      .filter(perf => !matchesByAthlete.has(perf.athleteId))
+      .reduce((total, perf) => total + pointsFromPerformance(perf), 0);
+
+  const earlierLosses = new Set(
+    priorMatches
+      .filter(match => match.outcome === "loss")
+      .map(match => opponentKey(match.athleteId, match.opponentName))
+  );
+  const notableUpsets = matches
+    .filter(match => match.outcome === "win" && earlierLosses.has(opponentKey(match.athleteId, match.opponentName)))
+    .map(match => ({
+      athleteName: nameOf(match.athleteId),
+      opponentName: match.opponentName,
+      opponentSchool: match.opponentSchool,
+      resultType: match.resultType,
+      score: match.score,
+    }));
+
+  const previousWinners = new Set(
+    priorPerformances.filter(perf => (perf.wins || 0) > 0).map(perf => perf.athleteId)
+  );
+  const firstTimeWinners = performances
+    .filter(perf => (perf.wins || 0) > 0 && !previousWinners.has(perf.athleteId))
+    .map(perf => nameOf(perf.athleteId));
+
+  return {
+    competitionName: competition.name,
+    date: competition.date.toISOString().slice(0, 10),
+    athleteCount: performances.length,
+    wins: performances.reduce((total, perf) => total + (perf.wins || 0), 0),
+    losses: performances.reduce((total, perf) => total + (perf.losses || 0), 0),
+    totalPins: performances.reduce((total, perf) => total + (perf.pins || 0), 0),
+    teamPoints,
+    placements,
+    champions: placements
+      .filter(entry => entry.placement === 1)
+      .map(({ athleteName, weightClass }) => ({ athleteName, weightClass })),
+    notableUpsets,
+    firstTimeWinners,
+  };
+}
@@ -0,0 +1,55 @@
+import crypto from "crypto";
+
+const UNSUBSCRIBE_SECRET = process.env.UNSUBSCRIBE_SECRET || process.env.SESSION_SECRET || "secret";
+const APP_URL = (process.env.APP_URL || "http://localhost:5000").replace(/\/$/, "");
+
+// Queued email HTML is shared by every recipient; the queue worker swaps this
+// placeholder for each recipient's own unsubscribe link at send time
+export const UNSUBSCRIBE_URL_PLACEHOLDER = "%%UNSUBSCRIBE_URL%%";
+
+export interface UnsubscribeTarget {
+  teamId: string;
+  email: string;
+}
+
+function sign(payload: string): string {
+  return crypto.createHmac("sha256", UNSUBSCRIBE_SECRET).update(payload).digest("base64url");
+}
+
+// Tokens never expire: an unsubscribe link in an old email must keep working
+export function createUnsubscribeToken(teamId: string, email: string): string {
+  const payload = Buffer.from(JSON.stringify({ t: teamId, e: email.trim().toLowerCase() })).toString("base64url");
+  return `${payload}.${sign(payload)}`;
+}
+
+export function verifyUnsubscribeToken(token: string): UnsubscribeTarget | undefined {
+  const [payload, signature] = token.split(".");
+  if (!payload || !signature) return undefined;
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return undefined;
+  }
+
+  try {
+    const { t, e } = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+    if (typeof t !== "string" || typeof e !== "string") return undefined;
+    return { teamId: t, email: e };
+  } catch {
+    return undefined;
+  }
+}
+
+// Confirmation page linked from the email footer
+export function unsubscribePageUrl(teamId: string, email: string): string {
+  return `${APP_URL}/unsubscribe/${createUnsubscribeToken(teamId, email)}`;
+}
+
+// RFC 8058 one-click endpoint advertised in the List-Unsubscribe header
+export function unsubscribeHeaders(teamId: string, email: string): Record<string, string> {
+  return {
+    "List-Unsubscribe": `<${APP_URL}/api/unsubscribe/${createUnsubscribeToken(teamId, email)}>`,
+    "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+  };
+}
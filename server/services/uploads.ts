@@ -0,0 +1,11 @@
+import path from "path";
+
+export const UPLOADS_DIR = path.resolve("uploads");
+
+// Maps a stored /uploads/... URL to its file. Anything outside the uploads
+// directory (other hosts, ../ tricks) yields undefined.
+export function uploadPath(url: string): string | undefined {
+  if (!url.startsWith("/uploads/")) return undefined;
+  const filePath = path.resolve(UPLOADS_DIR, url.slice("/uploads/".length));
+  return filePath.startsWith(UPLOADS_DIR + path.sep) ? filePath : undefined;
+}
@@ -2,34 +2,96 @@ import {
   users,
   teams,
   teamCoaches,
+  teamInvitations,
   athletes,
   athleteEmails,
+  contacts,
+  athleteContacts,
+  athleteAliases,
   competitions,
   athletePerformances,
+  matches,
   newsletters,
   messageHistory,
+  outboundEmails,
+  emailDeliveries,
+  emailSuppressions,
+  promptSettings,
+  importMappings,
+  aiGenerations,
+  adminAuditLog,
   type User,
   type UpsertUser,
   type Team,
   type InsertTeam,
+  type TeamRole,
+  type TeamInvitation,
+  type InsertTeamInvitation,
   type Athlete,
   type InsertAthlete,
-  type AthleteEmail,
-  type InsertAthleteEmail,
+  type Contact,
+  type InsertContact,
+  type ContactLink,
+  type ContactWithAthletes,
+  type AthleteAlias,
+  type InsertAthleteAlias,
   type Competition,
   type InsertCompetition,
   type AthletePerformance,
   type InsertAthletePerformance,
+  type Match,
+  type InsertMatch,
   type Newsletter,
   type InsertNewsletter,
   type MessageHistory,
+  type OutboundEmail,
+  type InsertOutboundEmail,
+  type EmailDelivery,
+  type EmailDeliveryStatus,
+  type EmailSuppression,
+  type SuppressionReason,
+  type PromptSettings,
+  type ImportMapping,
+  type InsertImportMapping,
+  type InsertPromptSettings,
+  type AiGeneration,
+  type InsertAiGeneration,
+  type AdminAuditEntry,
+  type InsertAdminAuditEntry,
   insertUserSchema,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, desc, count, isNotNull } from "drizzle-orm";
+import { eq, and, or, desc, count, exists, gt, isNotNull, isNull, inArray, lt, lte, notExists, sql } from "drizzle-orm";
 import bcrypt from "bcrypt";
 import { z } from "zod";
 
+export type DeliveryCounts = Record<EmailDeliveryStatus, number>;
+
+export type ClaimedDelivery = EmailDelivery & { email: OutboundEmail };
+
+export type TeamCoachSummary = {
+  coachId: string;
+  role: TeamRole;
+  email: string | null;
+  firstName: string | null;
+  lastName: string | null;
+};
+
+export type AdminUserSummary = Pick<User, "id" | "email" | "firstName" | "lastName" | "role" | "createdAt"> & {
+  teamCount: number;
+};
+
+export type AdminTeamSummary = Team & {
+  primaryCoachEmail: string | null;
+  athleteCount: number;
+};
+
+export type PlatformSendStats = {
+  newslettersSent: number;
+  deliveries: Record<EmailDeliveryStatus, number>;
+  daily: { day: string; delivered: number; failed: number }[];
+};
+
 export interface IStorage {
   // User operations
   getUser(id: string): Promise<User | undefined>;
@@ -41,6 +103,17 @@ export interface IStorage {
   createTeam(team: InsertTeam): Promise<Team>;
   getTeam(id: string): Promise<Team | undefined>;
   getTeamsByCoach(coachId: string): Promise<Team[]>;
+  getTeamRole(teamId: string, userId: string): Promise<TeamRole | undefined>;
+
+  // Coach and invitation operations
+  getTeamCoaches(teamId: string): Promise<TeamCoachSummary[]>;
+  removeTeamCoach(teamId: string, coachId: string): Promise<void>;
+  createTeamInvitation(invitation: InsertTeamInvitation): Promise<TeamInvitation>;
+  getTeamInvitation(id: string): Promise<TeamInvitation | undefined>;
+  getTeamInvitationByToken(token: string): Promise<TeamInvitation | undefined>;
+  getPendingInvitations(teamId: string): Promise<TeamInvitation[]>;
+  acceptTeamInvitation(id: string, userId: string): Promise<TeamInvitation | undefined>;
+  deleteTeamInvitation(id: string): Promise<void>;
   updateTeam(id: string, updates: Partial<InsertTeam>): Promise<Team>;
 
   // Athlete operations
@@ -50,29 +123,106 @@ export interface IStorage {
   updateAthlete(id: string, updates: Partial<InsertAthlete>): Promise<Athlete>;
   deleteAthlete(id: string): Promise<void>;
 
-  // Email operations
-  addAthleteEmail(email: InsertAthleteEmail): Promise<AthleteEmail>;
-  getAthleteEmails(athleteId: string): Promise<AthleteEmail[]>;
+  // Alias operations
+  getAliasesByTeam(teamId: string): Promise<AthleteAlias[]>;
+  getAliasesByAthlete(athleteId: string): Promise<AthleteAlias[]>;
+  addAthleteAliases(aliases: InsertAthleteAlias[]): Promise<void>;
+  deleteAthleteAlias(athleteId: string, aliasId: string): Promise<void>;
+
+  // Contact operations
+  createContact(teamId: string, contact: InsertContact, links: ContactLink[]): Promise<ContactWithAthletes>;
+  getContact(id: string): Promise<Contact | undefined>;
+  getContactByEmail(teamId: string, email: string): Promise<Contact | undefined>;
+  getContactsByTeam(teamId: string): Promise<ContactWithAthletes[]>;
+  updateContact(id: string, updates: InsertContact, links: ContactLink[]): Promise<ContactWithAthletes>;
+  deleteContact(id: string): Promise<void>;
+  getNewsletterRecipients(teamId: string): Promise<string[]>;
   getTeamEmailCount(teamId: string): Promise<number>;
-  deleteAthleteEmail(id: string): Promise<void>;
+  migrateLegacyAthleteEmails(): Promise<number>;
+
+  // Prompt settings operations
+  getPromptSettings(teamId: string): Promise<PromptSettings | undefined>;
+  upsertPromptSettings(teamId: string, settings: InsertPromptSettings): Promise<PromptSettings>;
+
+  // Suppression operations
+  suppressEmail(teamId: string, email: string, reason: SuppressionReason): Promise<void>;
+  isEmailSuppressed(teamId: string, email: string): Promise<boolean>;
+  getSuppressionsByTeam(teamId: string): Promise<EmailSuppression[]>;
 
   // Competition operations
   createCompetition(competition: InsertCompetition): Promise<Competition>;
+  getCompetition(id: string): Promise<Competition | undefined>;
   getCompetitionsByTeam(teamId: string): Promise<Competition[]>;
+  updateCompetition(id: string, updates: Partial<InsertCompetition>): Promise<Competition>;
+  deleteCompetition(id: string): Promise<void>;
+
+  // Import mapping operations
+  getImportMappingsByTeam(teamId: string): Promise<ImportMapping[]>;
+  saveImportMapping(teamId: string, mapping: InsertImportMapping): Promise<ImportMapping>;
+  deleteImportMapping(teamId: string, id: string): Promise<void>;
 
   // Performance operations
   createPerformance(performance: InsertAthletePerformance): Promise<AthletePerformance>;
+  getPerformance(id: string): Promise<AthletePerformance | undefined>;
+  updatePerformance(id: string, updates: Partial<InsertAthletePerformance>): Promise<AthletePerformance>;
+  deletePerformance(id: string): Promise<void>;
   getPerformancesByCompetition(competitionId: string): Promise<AthletePerformance[]>;
-  getAthleteSeasonStats(athleteId: string): Promise<{ wins: number; losses: number; pins: number }>;
+  replaceCompetitionPerformances(
+    competitionId: string,
+    performances: InsertAthletePerformance[],
+    matchRows?: InsertMatch[]
+  ): Promise<AthletePerformance[]>;
+  syncPerformanceFromMatches(competitionId: string, athleteId: string): Promise<AthletePerformance>;
+  getPerformancesByAthlete(athleteId: string): Promise<AthletePerformance[]>;
+  getAthleteSeasonStats(athleteId: string): Promise<{ wins: number; losses: number; pins: number; takedowns: number }>;
+  getTeamPerformancesBefore(teamId: string, before: Date): Promise<AthletePerformance[]>;
+
+  // Match operations
+  createMatch(match: InsertMatch): Promise<Match>;
+  getMatch(id: string): Promise<Match | undefined>;
+  getMatchesByCompetition(competitionId: string): Promise<Match[]>;
+  getMatchesByAthlete(athleteId: string): Promise<Match[]>;
+  getTeamMatchesBefore(teamId: string, before: Date): Promise<Match[]>;
+  updateMatch(id: string, updates: Partial<InsertMatch>): Promise<Match>;
+  deleteMatch(id: string): Promise<void>;
 
   // Newsletter operations
   createNewsletter(newsletter: InsertNewsletter): Promise<Newsletter>;
+  getNewsletter(id: string): Promise<Newsletter | undefined>;
   getNewslettersByTeam(teamId: string): Promise<Newsletter[]>;
   updateNewsletter(id: string, updates: Partial<InsertNewsletter>): Promise<Newsletter>;
+  scheduleNewsletter(id: string, scheduledFor: Date): Promise<Newsletter | undefined>;
+  cancelNewsletterSchedule(id: string): Promise<Newsletter | undefined>;
+  claimNewsletterForSending(id: string): Promise<Newsletter | undefined>;
+  claimDueNewsletters(now: Date): Promise<Newsletter[]>;
+  recoverInterruptedNewsletters(now: Date): Promise<{ resumed: Newsletter[]; failed: Newsletter[] }>;
+
+  // AI generation history operations
+  createAiGeneration(generation: InsertAiGeneration): Promise<AiGeneration>;
+  getAiGenerationsByTeam(teamId: string): Promise<AiGeneration[]>;
+  getAiGenerationsByAthlete(athleteId: string, limit?: number): Promise<AiGeneration[]>;
+  recordGenerationUsage(teamId: string, newsletterId: string, usages: { generationId: string; finalText: string }[]): Promise<void>;
+  markNewsletterGenerationsSent(newsletterId: string, sentAt: Date): Promise<void>;
 
   // Message history operations
   getMessageHistory(teamId: string): Promise<MessageHistory[]>;
 
+  // Outbound email queue operations
+  enqueueEmail(email: InsertOutboundEmail, recipients: string[]): Promise<OutboundEmail>;
+  claimQueuedDeliveries(limit: number, now: Date): Promise<ClaimedDelivery[]>;
+  updateDelivery(id: string, updates: Partial<Omit<EmailDelivery, "id">>): Promise<EmailDelivery>;
+  requeueInterruptedDeliveries(): Promise<number>;
+  getDeliveriesByNewsletter(newsletterId: string): Promise<EmailDelivery[]>;
+  getDeliveryCountsByTeam(teamId: string): Promise<Record<string, DeliveryCounts>>;
+
+  // System admin operations
+  getAllUsers(): Promise<AdminUserSummary[]>;
+  getAllTeams(): Promise<AdminTeamSummary[]>;
+  reassignPrimaryCoach(teamId: string, coachId: string): Promise<Team>;
+  createAuditEntry(entry: InsertAdminAuditEntry): Promise<AdminAuditEntry>;
+  getAuditLog(limit: number): Promise<AdminAuditEntry[]>;
+  getPlatformSendStats(since: Date): Promise<PlatformSendStats>;
+
   // Stats operations
   getTeamStats(teamId: string): Promise<{
     totalAthletes: number;
@@ -82,6 +232,43 @@ export interface IStorage {
   }>;
 }
 
+function summarizeMatches(rows: Pick<InsertMatch, "outcome" | "resultType">[]) {
+  return rows.reduce(
+    (acc, match) => ({
+      wins: acc.wins + (match.outcome === "win" ? 1 : 0),
+      losses: acc.losses + (match.outcome === "loss" ? 1 : 0),
+      pins: acc.pins + (match.outcome === "win" && match.resultType === "fall" ? 1 : 0),
+    }),
+    { wins: 0, losses: 0, pins: 0 }
+  );
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Re-links a contact to exactly the given athletes. Marking a contact primary
+// for an athlete clears any other primary contact that athlete had.
+async function replaceContactLinks(tx: Transaction, contactId: string, links: ContactLink[]) {
+  await tx.delete(athleteContacts).where(eq(athleteContacts.contactId, contactId));
+  if (links.length === 0) return;
+
+  const primaryFor = links.filter(link => link.isPrimary).map(link => link.athleteId);
+  if (primaryFor.length > 0) {
+    await tx
+      .update(athleteContacts)
+      .set({ isPrimary: false })
+      .where(inArray(athleteContacts.athleteId, primaryFor));
+  }
+  await tx.insert(athleteContacts).values(links.map(link => ({ ...link, contactId })));
+}
+
+// The queued email of the newsletter row being updated, if there is one
+function queuedNewsletterEmail() {
+  return db
+    .select({ id: outboundEmails.id })
+    .from(outboundEmails)
+    .where(eq(outboundEmails.newsletterId, newsletters.id));
+}
+
 export class DatabaseStorage implements IStorage {
   // User operations
   async getUser(id: string): Promise<User | undefined> {
@@ -131,7 +318,31 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getTeamsByCoach(coachId: string): Promise<Team[]> {
-    return await db.select().from(teams).where(eq(teams.primaryCoachId, coachId));
+    const coached = db
+      .select({ teamId: teamCoaches.teamId })
+      .from(teamCoaches)
+      .where(eq(teamCoaches.coachId, coachId));
+    return await db
+      .select()
+      .from(teams)
+      .where(and(
+        eq(teams.isActive, true),
+        or(eq(teams.primaryCoachId, coachId), inArray(teams.id, coached)),
+      ));
+  }
+
+  async getTeamRole(teamId: string, userId: string): Promise<TeamRole | undefined> {
+    const [team] = await db
+      .select({ id: teams.id })
+      .from(teams)
+      .where(and(eq(teams.id, teamId), eq(teams.primaryCoachId, userId)));
+    if (team) return "primary_coach";
+
+    const [coach] = await db
+      .select({ role: teamCoaches.role })
+      .from(teamCoaches)
+      .where(and(eq(teamCoaches.teamId, teamId), eq(teamCoaches.coachId, userId)));
+    return coach?.role;
   }
 
   async updateTeam(id: string, updates: Partial<InsertTeam>): Promise<Team> {
@@ -143,6 +354,100 @@ export class DatabaseStorage implements IStorage {
     return team;
   }
 
+  // Coach and invitation operations
+  async getTeamCoaches(teamId: string): Promise<TeamCoachSummary[]> {
+    const coachFields = {
+      coachId: users.id,
+      email: users.email,
+      firstName: users.firstName,
+      lastName: users.lastName,
+    };
+
+    const primary = await db
+      .select(coachFields)
+      .from(teams)
+      .innerJoin(users, eq(teams.primaryCoachId, users.id))
+      .where(eq(teams.id, teamId));
+    const others = await db
+      .select({ ...coachFields, role: teamCoaches.role })
+      .from(teamCoaches)
+      .innerJoin(users, eq(teamCoaches.coachId, users.id))
+      .where(eq(teamCoaches.teamId, teamId))
+      .orderBy(teamCoaches.createdAt);
+
+    return [
+      ...primary.map(coach => ({ ...coach, role: "primary_coach" as const })),
+      ...others.filter(coach => !primary.some(p => p.coachId === coach.coachId)),
+    ];
+  }
+
+  async removeTeamCoach(teamId: string, coachId: string): Promise<void> {
+    await db
+      .delete(teamCoaches)
+      .where(and(eq(teamCoaches.teamId, teamId), eq(teamCoaches.coachId, coachId)));
+  }
+
+  async createTeamInvitation(invitation: InsertTeamInvitation): Promise<TeamInvitation> {
+    const [newInvitation] = await db.insert(teamInvitations).values(invitation).returning();
+    return newInvitation;
+  }
+
+  async getTeamInvitation(id: string): Promise<TeamInvitation | undefined> {
+    const [invitation] = await db.select().from(teamInvitations).where(eq(teamInvitations.id, id));
+    return invitation;
+  }
+
+  async getTeamInvitationByToken(token: string): Promise<TeamInvitation | undefined> {
+    const [invitation] = await db.select().from(teamInvitations).where(eq(teamInvitations.token, token));
+    return invitation;
+  }
+
+  async getPendingInvitations(teamId: string): Promise<TeamInvitation[]> {
+    return await db
+      .select()
+      .from(teamInvitations)
+      .where(and(
+        eq(teamInvitations.teamId, teamId),
+        isNull(teamInvitations.acceptedAt),
+        gt(teamInvitations.expiresAt, new Date()),
+      ))
+      .orderBy(desc(teamInvitations.createdAt));
+  }
+
+  // Marks the invitation used and adds the coach in one step, so a token can
+  // only ever be redeemed once
+  async acceptTeamInvitation(id: string, userId: string): Promise<TeamInvitation | undefined> {
+    return await db.transaction(async (tx) => {
+      const [invitation] = await tx
+        .update(teamInvitations)
+        .set({ acceptedAt: new Date() })
+        .where(and(
+          eq(teamInvitations.id, id),
+          isNull(teamInvitations.acceptedAt),
+          gt(teamInvitations.expiresAt, new Date()),
+        ))
+        .returning();
+      if (!invitation) return undefined;
+
+      const [existing] = await tx
+        .select({ id: teamCoaches.id })
+        .from(teamCoaches)
+        .where(and(eq(teamCoaches.teamId, invitation.teamId), eq(teamCoaches.coachId, userId)));
+      if (!existing) {
+        await tx.insert(teamCoaches).values({
+          teamId: invitation.teamId,
+          coachId: userId,
+          role: invitation.role,
+        });
+      }
+      return invitation;
+    });
+  }
+
+  async deleteTeamInvitation(id: string): Promise<void> {
+    await db.delete(teamInvitations).where(eq(teamInvitations.id, id));
+  }
+
   // Athlete operations
   async createAthlete(athlete: InsertAthlete): Promise<Athlete> {
     const [newAthlete] = await db.insert(athletes).values(athlete).returning();
@@ -167,31 +472,209 @@ export class DatabaseStorage implements IStorage {
     return athlete;
   }
 
+  // Removes the athlete's results and bouts with them. AI drafts written
+  // about them are kept for history but lose the link. Contacts links and
+  // aliases go by cascade.
   async deleteAthlete(id: string): Promise<void> {
-    await db.delete(athletes).where(eq(athletes.id, id));
+    await db.transaction(async (tx) => {
+      await tx
+        .update(aiGenerations)
+        .set({ athleteId: null })
+        .where(eq(aiGenerations.athleteId, id));
+      await tx.delete(matches).where(eq(matches.athleteId, id));
+      await tx.delete(athletePerformances).where(eq(athletePerformances.athleteId, id));
+      await tx.delete(athleteEmails).where(eq(athleteEmails.athleteId, id));
+      await tx.delete(athletes).where(eq(athletes.id, id));
+    });
+  }
+
+  // Alias operations
+  async getAliasesByTeam(teamId: string): Promise<AthleteAlias[]> {
+    const rows = await db
+      .select({ alias: athleteAliases })
+      .from(athleteAliases)
+      .innerJoin(athletes, eq(athleteAliases.athleteId, athletes.id))
+      .where(eq(athletes.teamId, teamId));
+    return rows.map(row => row.alias);
+  }
+
+  async getAliasesByAthlete(athleteId: string): Promise<AthleteAlias[]> {
+    return await db
+      .select()
+      .from(athleteAliases)
+      .where(eq(athleteAliases.athleteId, athleteId))
+      .orderBy(athleteAliases.alias);
+  }
+
+  async addAthleteAliases(aliases: InsertAthleteAlias[]): Promise<void> {
+    if (aliases.length === 0) return;
+    await db.insert(athleteAliases).values(aliases).onConflictDoNothing();
+  }
+
+  async deleteAthleteAlias(athleteId: string, aliasId: string): Promise<void> {
+    await db
+      .delete(athleteAliases)
+      .where(and(eq(athleteAliases.id, aliasId), eq(athleteAliases.athleteId, athleteId)));
+  }
+
+  // Contact operations
+  async createContact(teamId: string, contact: InsertContact, links: ContactLink[]): Promise<ContactWithAthletes> {
+    return await db.transaction(async (tx) => {
+      const [newContact] = await tx.insert(contacts).values({ ...contact, teamId }).returning();
+      await replaceContactLinks(tx, newContact.id, links);
+      return { ...newContact, athletes: links };
+    });
   }
 
-  // Email operations
-  async addAthleteEmail(email: InsertAthleteEmail): Promise<AthleteEmail> {
-    const [newEmail] = await db.insert(athleteEmails).values(email).returning();
-    return newEmail;
+  async getContact(id: string): Promise<Contact | undefined> {
+    const [contact] = await db.select().from(contacts).where(eq(contacts.id, id));
+    return contact;
   }
 
-  async getAthleteEmails(athleteId: string): Promise<AthleteEmail[]> {
-    return await db.select().from(athleteEmails).where(eq(athleteEmails.athleteId, athleteId));
+  async getContactByEmail(teamId: string, email: string): Promise<Contact | undefined> {
+    const [contact] = await db
+      .select()
+      .from(contacts)
+      .where(and(eq(contacts.teamId, teamId), eq(contacts.email, email.trim().toLowerCase())));
+    return contact;
+  }
+
+  async getContactsByTeam(teamId: string): Promise<ContactWithAthletes[]> {
+    const teamContacts = await db
+      .select()
+      .from(contacts)
+      .where(eq(contacts.teamId, teamId))
+      .orderBy(contacts.name);
+    if (teamContacts.length === 0) return [];
+
+    const links = await db
+      .select()
+      .from(athleteContacts)
+      .where(inArray(athleteContacts.contactId, teamContacts.map(contact => contact.id)));
+
+    return teamContacts.map(contact => ({
+      ...contact,
+      athletes: links
+        .filter(link => link.contactId === contact.id)
+        .map(({ athleteId, isPrimary }) => ({ athleteId, isPrimary })),
+    }));
+  }
+
+  async updateContact(id: string, updates: InsertContact, links: ContactLink[]): Promise<ContactWithAthletes> {
+    return await db.transaction(async (tx) => {
+      const [contact] = await tx
+        .update(contacts)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(contacts.id, id))
+        .returning();
+      await replaceContactLinks(tx, id, links);
+      return { ...contact, athletes: links };
+    });
+  }
+
+  async deleteContact(id: string): Promise<void> {
+    await db.delete(contacts).where(eq(contacts.id, id));
+  }
+
+  // One address per opted-in contact. Contacts are unique per team by email,
+  // so a parent linked to three siblings still appears once.
+  async getNewsletterRecipients(teamId: string): Promise<string[]> {
+    const rows = await db
+      .selectDistinct({ email: contacts.email })
+      .from(contacts)
+      .where(and(
+        eq(contacts.teamId, teamId),
+        eq(contacts.emailOptIn, true),
+        isNotNull(contacts.email),
+        notExists(
+          db
+            .select({ id: emailSuppressions.id })
+            .from(emailSuppressions)
+            .where(and(eq(emailSuppressions.teamId, contacts.teamId), eq(emailSuppressions.email, contacts.email)))
+        ),
+      ));
+    return rows.map(row => row.email!);
   }
 
   async getTeamEmailCount(teamId: string): Promise<number> {
     const result = await db
       .select({ count: count() })
-      .from(athleteEmails)
-      .innerJoin(athletes, eq(athleteEmails.athleteId, athletes.id))
-      .where(eq(athletes.teamId, teamId));
+      .from(contacts)
+      .where(and(eq(contacts.teamId, teamId), isNotNull(contacts.email)));
     return result[0]?.count || 0;
   }
 
-  async deleteAthleteEmail(id: string): Promise<void> {
-    await db.delete(athleteEmails).where(eq(athleteEmails.id, id));
+  // Prompt settings operations
+  async getPromptSettings(teamId: string): Promise<PromptSettings | undefined> {
+    const [settings] = await db.select().from(promptSettings).where(eq(promptSettings.teamId, teamId));
+    return settings;
+  }
+
+  async upsertPromptSettings(teamId: string, settings: InsertPromptSettings): Promise<PromptSettings> {
+    const [saved] = await db
+      .insert(promptSettings)
+      .values({ ...settings, teamId })
+      .onConflictDoUpdate({
+        target: promptSettings.teamId,
+        set: { ...settings, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  // Suppression operations
+  async suppressEmail(teamId: string, email: string, reason: SuppressionReason): Promise<void> {
+    await db
+      .insert(emailSuppressions)
+      .values({ teamId, email: email.trim().toLowerCase(), reason })
+      .onConflictDoNothing();
+  }
+
+  async isEmailSuppressed(teamId: string, email: string): Promise<boolean> {
+    const [row] = await db
+      .select({ id: emailSuppressions.id })
+      .from(emailSuppressions)
+      .where(and(eq(emailSuppressions.teamId, teamId), eq(emailSuppressions.email, email.trim().toLowerCase())));
+    return !!row;
+  }
+
+  async getSuppressionsByTeam(teamId: string): Promise<EmailSuppression[]> {
+    return await db
+      .select()
+      .from(emailSuppressions)
+      .where(eq(emailSuppressions.teamId, teamId))
+      .orderBy(desc(emailSuppressions.createdAt));
+  }
+
+  // Moves addresses from the old athlete_emails table into contacts, merging
+  // repeats of the same address within a team. Safe to run on every startup.
+  async migrateLegacyAthleteEmails(): Promise<number> {
+    const legacy = await db
+      .select({ id: athleteEmails.id, athleteId: athleteEmails.athleteId, email: athleteEmails.email, teamId: athletes.teamId })
+      .from(athleteEmails)
+      .innerJoin(athletes, eq(athleteEmails.athleteId, athletes.id));
+
+    for (const row of legacy) {
+      const email = row.email.trim().toLowerCase();
+      await db.transaction(async (tx) => {
+        let [contact] = await tx
+          .select()
+          .from(contacts)
+          .where(and(eq(contacts.teamId, row.teamId), eq(contacts.email, email)));
+        if (!contact) {
+          [contact] = await tx
+            .insert(contacts)
+            .values({ teamId: row.teamId, name: email, relationship: "parent", email })
+            .returning();
+        }
+        await tx
+          .insert(athleteContacts)
+          .values({ athleteId: row.athleteId, contactId: contact.id })
+          .onConflictDoNothing();
+        await tx.delete(athleteEmails).where(eq(athleteEmails.id, row.id));
+      });
+    }
+    return legacy.length;
   }
 
   // Competition operations
@@ -200,6 +683,11 @@ export class DatabaseStorage implements IStorage {
     return newCompetition;
   }
 
+  async getCompetition(id: string): Promise<Competition | undefined> {
+    const [competition] = await db.select().from(competitions).where(eq(competitions.id, id));
+    return competition;
+  }
+
   async getCompetitionsByTeam(teamId: string): Promise<Competition[]> {
     return await db
       .select()
@@ -208,37 +696,248 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(competitions.date));
   }
 
+  async updateCompetition(id: string, updates: Partial<InsertCompetition>): Promise<Competition> {
+    const [competition] = await db
+      .update(competitions)
+      .set(updates)
+      .where(eq(competitions.id, id))
+      .returning();
+    return competition;
+  }
+
+  // Removes the competition's results and bouts with it. AI drafts written
+  // about it are kept for history but lose the link.
+  async deleteCompetition(id: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx
+        .update(aiGenerations)
+        .set({ competitionId: null })
+        .where(eq(aiGenerations.competitionId, id));
+      await tx.delete(matches).where(eq(matches.competitionId, id));
+      await tx.delete(athletePerformances).where(eq(athletePerformances.competitionId, id));
+      await tx.delete(competitions).where(eq(competitions.id, id));
+    });
+  }
+
+  // Import mapping operations
+  async getImportMappingsByTeam(teamId: string): Promise<ImportMapping[]> {
+    return await db
+      .select()
+      .from(importMappings)
+      .where(eq(importMappings.teamId, teamId))
+      .orderBy(importMappings.name);
+  }
+
+  // Saving under an existing name replaces that preset
+  async saveImportMapping(teamId: string, mapping: InsertImportMapping): Promise<ImportMapping> {
+    const [saved] = await db
+      .insert(importMappings)
+      .values({ ...mapping, teamId })
+      .onConflictDoUpdate({
+        target: [importMappings.teamId, importMappings.name],
+        set: { columns: mapping.columns, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteImportMapping(teamId: string, id: string): Promise<void> {
+    await db
+      .delete(importMappings)
+      .where(and(eq(importMappings.id, id), eq(importMappings.teamId, teamId)));
+  }
+
   // Performance operations
   async createPerformance(performance: InsertAthletePerformance): Promise<AthletePerformance> {
     const [newPerformance] = await db.insert(athletePerformances).values(performance).returning();
     return newPerformance;
   }
 
+  async getPerformance(id: string): Promise<AthletePerformance | undefined> {
+    const [performance] = await db.select().from(athletePerformances).where(eq(athletePerformances.id, id));
+    return performance;
+  }
+
+  async updatePerformance(id: string, updates: Partial<InsertAthletePerformance>): Promise<AthletePerformance> {
+    const [performance] = await db
+      .update(athletePerformances)
+      .set(updates)
+      .where(eq(athletePerformances.id, id))
+      .returning();
+    return performance;
+  }
+
+  // Removes the athlete's bouts at that competition too, or the next match
+  // edit would rebuild the result from them
+  async deletePerformance(id: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [performance] = await tx
+        .delete(athletePerformances)
+        .where(eq(athletePerformances.id, id))
+        .returning();
+      if (!performance) return;
+      await tx
+        .delete(matches)
+        .where(and(eq(matches.competitionId, performance.competitionId), eq(matches.athleteId, performance.athleteId)));
+    });
+  }
+
   async getPerformancesByCompetition(competitionId: string): Promise<AthletePerformance[]> {
     return await db.select().from(athletePerformances).where(eq(athletePerformances.competitionId, competitionId));
   }
 
-  async getAthleteSeasonStats(athleteId: string): Promise<{ wins: number; losses: number; pins: number }> {
-    const performances = await db.select().from(athletePerformances).where(eq(athletePerformances.athleteId, athleteId));
+  // Replaces every performance and bout for a competition with the coach-reviewed
+  // set and marks the competition as reviewed, so re-reviewing never double counts.
+  // Athletes with bouts get their wins, losses and pins derived from those bouts.
+  async replaceCompetitionPerformances(
+    competitionId: string,
+    performances: InsertAthletePerformance[],
+    matchRows: InsertMatch[] = []
+  ): Promise<AthletePerformance[]> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(matches).where(eq(matches.competitionId, competitionId));
+      await tx.delete(athletePerformances).where(eq(athletePerformances.competitionId, competitionId));
+
+      if (matchRows.length > 0) {
+        await tx.insert(matches).values(matchRows);
+      }
+
+      const derived = performances.map(perf => {
+        const athleteMatches = matchRows.filter(match => match.athleteId === perf.athleteId);
+        return athleteMatches.length > 0 ? { ...perf, ...summarizeMatches(athleteMatches) } : perf;
+      });
+
+      const inserted = derived.length > 0
+        ? await tx.insert(athletePerformances).values(derived).returning()
+        : [];
+
+      await tx
+        .update(competitions)
+        .set({ reviewedAt: new Date() })
+        .where(eq(competitions.id, competitionId));
+
+      return inserted;
+    });
+  }
+
+  async syncPerformanceFromMatches(competitionId: string, athleteId: string): Promise<AthletePerformance> {
+    const athleteMatches = await db
+      .select()
+      .from(matches)
+      .where(and(eq(matches.competitionId, competitionId), eq(matches.athleteId, athleteId)));
+    const totals = summarizeMatches(athleteMatches);
+
+    const [existing] = await db
+      .select()
+      .from(athletePerformances)
+      .where(and(eq(athletePerformances.competitionId, competitionId), eq(athletePerformances.athleteId, athleteId)));
+
+    if (existing) {
+      const [updated] = await db
+        .update(athletePerformances)
+        .set(totals)
+        .where(eq(athletePerformances.id, existing.id))
+        .returning();
+      return updated;
+    }
+
+    const [created] = await db
+      .insert(athletePerformances)
+      .values({ competitionId, athleteId, ...totals })
+      .returning();
+    return created;
+  }
+
+  async getPerformancesByAthlete(athleteId: string): Promise<AthletePerformance[]> {
+    return await db.select().from(athletePerformances).where(eq(athletePerformances.athleteId, athleteId));
+  }
+
+  async getAthleteSeasonStats(athleteId: string): Promise<{ wins: number; losses: number; pins: number; takedowns: number }> {
+    const performances = await this.getPerformancesByAthlete(athleteId);
 
     const stats = performances.reduce(
       (acc, perf) => ({
         wins: acc.wins + (perf.wins || 0),
         losses: acc.losses + (perf.losses || 0),
         pins: acc.pins + (perf.pins || 0),
+        takedowns: acc.takedowns + (perf.takedowns || 0),
       }),
-      { wins: 0, losses: 0, pins: 0 }
+      { wins: 0, losses: 0, pins: 0, takedowns: 0 }
     );
 
     return stats;
   }
 
+  // Results from the team's competitions held before the given date
+  async getTeamPerformancesBefore(teamId: string, before: Date): Promise<AthletePerformance[]> {
+    const rows = await db
+      .select({ performance: athletePerformances })
+      .from(athletePerformances)
+      .innerJoin(competitions, eq(athletePerformances.competitionId, competitions.id))
+      .where(and(eq(competitions.teamId, teamId), lt(competitions.date, before)));
+    return rows.map(row => row.performance);
+  }
+
+  // Match operations
+  async createMatch(match: InsertMatch): Promise<Match> {
+    const [newMatch] = await db.insert(matches).values(match).returning();
+    return newMatch;
+  }
+
+  async getMatch(id: string): Promise<Match | undefined> {
+    const [match] = await db.select().from(matches).where(eq(matches.id, id));
+    return match;
+  }
+
+  async getMatchesByCompetition(competitionId: string): Promise<Match[]> {
+    return await db
+      .select()
+      .from(matches)
+      .where(eq(matches.competitionId, competitionId))
+      .orderBy(matches.weightClass, matches.boutOrder);
+  }
+
+  async getMatchesByAthlete(athleteId: string): Promise<Match[]> {
+    return await db
+      .select()
+      .from(matches)
+      .where(eq(matches.athleteId, athleteId))
+      .orderBy(matches.competitionId, matches.boutOrder);
+  }
+
+  async getTeamMatchesBefore(teamId: string, before: Date): Promise<Match[]> {
+    const rows = await db
+      .select({ match: matches })
+      .from(matches)
+      .innerJoin(competitions, eq(matches.competitionId, competitions.id))
+      .where(and(eq(competitions.teamId, teamId), lt(competitions.date, before)));
+    return rows.map(row => row.match);
+  }
+
+  async updateMatch(id: string, updates: Partial<InsertMatch>): Promise<Match> {
+    const [match] = await db
+      .update(matches)
+      .set(updates)
+      .where(eq(matches.id, id))
+      .returning();
+    return match;
+  }
+
+  async deleteMatch(id: string): Promise<void> {
+    await db.delete(matches).where(eq(matches.id, id));
+  }
+
   // Newsletter operations
   async createNewsletter(newsletter: InsertNewsletter): Promise<Newsletter> {
     const [newNewsletter] = await db.insert(newsletters).values(newsletter).returning();
     return newNewsletter;
   }
 
+  async getNewsletter(id: string): Promise<Newsletter | undefined> {
+    const [newsletter] = await db.select().from(newsletters).where(eq(newsletters.id, id));
+    return newsletter;
+  }
+
   async getNewslettersByTeam(teamId: string): Promise<Newsletter[]> {
     return await db
       .select()
@@ -256,6 +955,133 @@ export class DatabaseStorage implements IStorage {
     return newsletter;
   }
 
+  async scheduleNewsletter(id: string, scheduledFor: Date): Promise<Newsletter | undefined> {
+    const [newsletter] = await db
+      .update(newsletters)
+      .set({ status: "scheduled", scheduledFor, sendError: null })
+      .where(and(
+        eq(newsletters.id, id),
+        inArray(newsletters.status, ["draft", "scheduled", "failed"]),
+        isNull(newsletters.sentAt),
+        // A failed send whose email already reached the queue would go out twice
+        notExists(queuedNewsletterEmail())
+      ))
+      .returning();
+    return newsletter;
+  }
+
+  async cancelNewsletterSchedule(id: string): Promise<Newsletter | undefined> {
+    const [newsletter] = await db
+      .update(newsletters)
+      .set({ status: "draft", scheduledFor: null })
+      .where(and(eq(newsletters.id, id), eq(newsletters.status, "scheduled")))
+      .returning();
+    return newsletter;
+  }
+
+  // Claims are conditional updates so only one caller can move a newsletter into
+  // "sending"; whoever gets the row back is the only one allowed to send it.
+  // A newsletter whose email was ever queued can't be claimed again, even after
+  // a failure, so no recipient gets it twice.
+  async claimNewsletterForSending(id: string): Promise<Newsletter | undefined> {
+    const [newsletter] = await db
+      .update(newsletters)
+      .set({ status: "sending", sendError: null })
+      .where(and(
+        eq(newsletters.id, id),
+        inArray(newsletters.status, ["draft", "scheduled", "failed"]),
+        isNull(newsletters.sentAt),
+        notExists(queuedNewsletterEmail())
+      ))
+      .returning();
+    return newsletter;
+  }
+
+  async claimDueNewsletters(now: Date): Promise<Newsletter[]> {
+    return await db
+      .update(newsletters)
+      .set({ status: "sending" })
+      .where(and(
+        eq(newsletters.status, "scheduled"),
+        lte(newsletters.scheduledFor, now),
+        isNull(newsletters.sentAt),
+        notExists(queuedNewsletterEmail())
+      ))
+      .returning();
+  }
+
+  // A newsletter left in "sending" means the server stopped mid-send. If its email
+  // reached the queue, the queue resumes the undelivered recipients and the
+  // newsletter counts as sent. Otherwise nothing went out, so it is marked failed
+  // and the coach can safely send it again.
+  async recoverInterruptedNewsletters(now: Date): Promise<{ resumed: Newsletter[]; failed: Newsletter[] }> {
+    return await db.transaction(async (tx) => {
+      const resumed = await tx
+        .update(newsletters)
+        .set({ status: "sent", sentAt: now, sendError: null })
+        .where(and(eq(newsletters.status, "sending"), exists(queuedNewsletterEmail())))
+        .returning();
+      const failed = await tx
+        .update(newsletters)
+        .set({ status: "failed", sendError: "Sending was interrupted by a server restart" })
+        .where(eq(newsletters.status, "sending"))
+        .returning();
+      return { resumed, failed };
+    });
+  }
+
+  // AI generation history operations
+  async createAiGeneration(generation: InsertAiGeneration): Promise<AiGeneration> {
+    const [newGeneration] = await db.insert(aiGenerations).values(generation).returning();
+    return newGeneration;
+  }
+
+  async getAiGenerationsByTeam(teamId: string): Promise<AiGeneration[]> {
+    return await db
+      .select()
+      .from(aiGenerations)
+      .where(eq(aiGenerations.teamId, teamId))
+      .orderBy(desc(aiGenerations.createdAt));
+  }
+
+  async getAiGenerationsByAthlete(athleteId: string, limit = 20): Promise<AiGeneration[]> {
+    return await db
+      .select()
+      .from(aiGenerations)
+      .where(eq(aiGenerations.athleteId, athleteId))
+      .orderBy(desc(aiGenerations.createdAt))
+      .limit(limit);
+  }
+
+  // Scoped to the team so a client can't claim another team's drafts, and
+  // limited to unused drafts so an earlier newsletter's record is never overwritten
+  async recordGenerationUsage(
+    teamId: string,
+    newsletterId: string,
+    usages: { generationId: string; finalText: string }[]
+  ): Promise<void> {
+    if (usages.length === 0) return;
+    await db.transaction(async (tx) => {
+      for (const { generationId, finalText } of usages) {
+        await tx
+          .update(aiGenerations)
+          .set({ finalText, newsletterId })
+          .where(and(
+            eq(aiGenerations.id, generationId),
+            eq(aiGenerations.teamId, teamId),
+            isNull(aiGenerations.newsletterId),
+          ));
+      }
+    });
+  }
+
+  async markNewsletterGenerationsSent(newsletterId: string, sentAt: Date): Promise<void> {
+    await db
+      .update(aiGenerations)
+      .set({ sentAt })
+      .where(eq(aiGenerations.newsletterId, newsletterId));
+  }
+
   // Message history operations
   async getMessageHistory(teamId: string): Promise<MessageHistory[]> {
     return await db
@@ -266,6 +1092,218 @@ export class DatabaseStorage implements IStorage {
       .limit(50);
   }
 
+  // Outbound email queue operations
+  async enqueueEmail(email: InsertOutboundEmail, recipients: string[]): Promise<OutboundEmail> {
+    return await db.transaction(async (tx) => {
+      const [outbound] = await tx.insert(outboundEmails).values(email).returning();
+      if (recipients.length > 0) {
+        await tx
+          .insert(emailDeliveries)
+          .values(recipients.map(recipient => ({ outboundEmailId: outbound.id, recipient })));
+      }
+      return outbound;
+    });
+  }
+
+  // Moves due deliveries to "sending" in one statement; SKIP LOCKED keeps two
+  // workers from ever claiming the same recipient row.
+  async claimQueuedDeliveries(limit: number, now: Date): Promise<ClaimedDelivery[]> {
+    const due = db
+      .select({ id: emailDeliveries.id })
+      .from(emailDeliveries)
+      .where(and(eq(emailDeliveries.status, "queued"), lte(emailDeliveries.nextAttemptAt, now)))
+      .orderBy(emailDeliveries.nextAttemptAt)
+      .limit(limit)
+      .for("update", { skipLocked: true });
+
+    const claimed = await db
+      .update(emailDeliveries)
+      .set({ status: "sending", attempts: sql`${emailDeliveries.attempts} + 1`, updatedAt: now })
+      .where(inArray(emailDeliveries.id, due))
+      .returning();
+    if (claimed.length === 0) return [];
+
+    const emailIds = Array.from(new Set(claimed.map(delivery => delivery.outboundEmailId)));
+    const emails = await db.select().from(outboundEmails).where(inArray(outboundEmails.id, emailIds));
+    const emailsById = new Map(emails.map(email => [email.id, email]));
+
+    return claimed.map(delivery => ({ ...delivery, email: emailsById.get(delivery.outboundEmailId)! }));
+  }
+
+  async updateDelivery(id: string, updates: Partial<Omit<EmailDelivery, "id">>): Promise<EmailDelivery> {
+    const [delivery] = await db
+      .update(emailDeliveries)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(emailDeliveries.id, id))
+      .returning();
+    return delivery;
+  }
+
+  async requeueInterruptedDeliveries(): Promise<number> {
+    const requeued = await db
+      .update(emailDeliveries)
+      .set({ status: "queued", nextAttemptAt: new Date(), updatedAt: new Date() })
+      .where(eq(emailDeliveries.status, "sending"))
+      .returning({ id: emailDeliveries.id });
+    return requeued.length;
+  }
+
+  async getDeliveriesByNewsletter(newsletterId: string): Promise<EmailDelivery[]> {
+    const rows = await db
+      .select({ delivery: emailDeliveries })
+      .from(emailDeliveries)
+      .innerJoin(outboundEmails, eq(emailDeliveries.outboundEmailId, outboundEmails.id))
+      .where(eq(outboundEmails.newsletterId, newsletterId))
+      .orderBy(emailDeliveries.recipient);
+    return rows.map(row => row.delivery);
+  }
+
+  async getDeliveryCountsByTeam(teamId: string): Promise<Record<string, DeliveryCounts>> {
+    const rows = await db
+      .select({
+        newsletterId: outboundEmails.newsletterId,
+        status: emailDeliveries.status,
+        count: count(),
+      })
+      .from(emailDeliveries)
+      .innerJoin(outboundEmails, eq(emailDeliveries.outboundEmailId, outboundEmails.id))
+      .where(and(eq(outboundEmails.teamId, teamId), isNotNull(outboundEmails.newsletterId)))
+      .groupBy(outboundEmails.newsletterId, emailDeliveries.status);
+
+    const counts: Record<string, DeliveryCounts> = {};
+    for (const row of rows) {
+      const key = row.newsletterId!;
+      counts[key] ??= { queued: 0, sending: 0, delivered: 0, failed: 0, bounced: 0, suppressed: 0 };
+      counts[key][row.status] = row.count;
+    }
+    return counts;
+  }
+
+  // System admin operations
+  async getAllUsers(): Promise<AdminUserSummary[]> {
+    const rows = await db
+      .select({
+        id: users.id,
+        email: users.email,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        role: users.role,
+        createdAt: users.createdAt,
+      })
+      .from(users)
+      .orderBy(users.email);
+
+    const primaryCounts = await db
+      .select({ coachId: teams.primaryCoachId, count: count() })
+      .from(teams)
+      .groupBy(teams.primaryCoachId);
+    const assistantCounts = await db
+      .select({ coachId: teamCoaches.coachId, count: count() })
+      .from(teamCoaches)
+      .groupBy(teamCoaches.coachId);
+
+    const teamCounts = new Map<string, number>();
+    for (const row of [...primaryCounts, ...assistantCounts]) {
+      if (row.coachId) {
+        teamCounts.set(row.coachId, (teamCounts.get(row.coachId) || 0) + row.count);
+      }
+    }
+
+    return rows.map(user => ({ ...user, teamCount: teamCounts.get(user.id) || 0 }));
+  }
+
+  async getAllTeams(): Promise<AdminTeamSummary[]> {
+    const rows = await db
+      .select({ team: teams, primaryCoachEmail: users.email })
+      .from(teams)
+      .leftJoin(users, eq(teams.primaryCoachId, users.id))
+      .orderBy(teams.name);
+
+    const athleteCounts = await db
+      .select({ teamId: athletes.teamId, count: count() })
+      .from(athletes)
+      .groupBy(athletes.teamId);
+    const countsByTeam = new Map(athleteCounts.map(row => [row.teamId, row.count]));
+
+    return rows.map(row => ({
+      ...row.team,
+      primaryCoachEmail: row.primaryCoachEmail,
+      athleteCount: countsByTeam.get(row.team.id) || 0,
+    }));
+  }
+
+  // The outgoing primary coach stays on the staff as an assistant
+  async reassignPrimaryCoach(teamId: string, coachId: string): Promise<Team> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(teams).where(eq(teams.id, teamId));
+      if (!current) {
+        throw new Error("Team not found");
+      }
+
+      await tx
+        .delete(teamCoaches)
+        .where(and(eq(teamCoaches.teamId, teamId), eq(teamCoaches.coachId, coachId)));
+      if (current.primaryCoachId && current.primaryCoachId !== coachId) {
+        await tx.insert(teamCoaches).values({
+          teamId,
+          coachId: current.primaryCoachId,
+          role: "super_user_coach",
+        });
+      }
+
+      const [team] = await tx
+        .update(teams)
+        .set({ primaryCoachId: coachId, updatedAt: new Date() })
+        .where(eq(teams.id, teamId))
+        .returning();
+      return team;
+    });
+  }
+
+  async createAuditEntry(entry: InsertAdminAuditEntry): Promise<AdminAuditEntry> {
+    const [newEntry] = await db.insert(adminAuditLog).values(entry).returning();
+    return newEntry;
+  }
+
+  async getAuditLog(limit: number): Promise<AdminAuditEntry[]> {
+    return await db
+      .select()
+      .from(adminAuditLog)
+      .orderBy(desc(adminAuditLog.createdAt))
+      .limit(limit);
+  }
+
+  async getPlatformSendStats(since: Date): Promise<PlatformSendStats> {
+    const [sentResult] = await db
+      .select({ count: count() })
+      .from(newsletters)
+      .where(and(eq(newsletters.status, "sent"), gt(newsletters.sentAt, since)));
+
+    const statusRows = await db
+      .select({ status: emailDeliveries.status, count: count() })
+      .from(emailDeliveries)
+      .where(gt(emailDeliveries.updatedAt, since))
+      .groupBy(emailDeliveries.status);
+    const deliveries = { queued: 0, sending: 0, delivered: 0, failed: 0, bounced: 0, suppressed: 0 };
+    for (const row of statusRows) {
+      deliveries[row.status] = row.count;
+    }
+
+    const day = sql<string>`to_char(date_trunc('day', ${emailDeliveries.updatedAt}), 'YYYY-MM-DD')`;
+    const daily = await db
+      .select({
+        day,
+        delivered: sql<number>`count(*) filter (where ${emailDeliveries.status} = 'delivered')`.mapWith(Number),
+        failed: sql<number>`count(*) filter (where ${emailDeliveries.status} in ('failed', 'bounced'))`.mapWith(Number),
+      })
+      .from(emailDeliveries)
+      .where(gt(emailDeliveries.updatedAt, since))
+      .groupBy(day)
+      .orderBy(day);
+
+    return { newslettersSent: sentResult?.count || 0, deliveries, daily };
+  }
+
   // Stats operations
   async getTeamStats(teamId: string): Promise<{
     totalAthletes: number;
@@ -280,9 +1318,8 @@ export class DatabaseStorage implements IStorage {
 
     const emailCountResult = await db
       .select({ count: count() })
-      .from(athleteEmails)
-      .innerJoin(athletes, eq(athleteEmails.athleteId, athletes.id))
-      .where(eq(athletes.teamId, teamId));
+      .from(contacts)
+      .where(and(eq(contacts.teamId, teamId), eq(contacts.emailOptIn, true), isNotNull(contacts.email)));
 
     const newsletterCountResult = await db
       .select({ count: count() })
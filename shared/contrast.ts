@@ -0,0 +1,58 @@
+// WCAG 2.1 contrast helpers, shared so the email renderer and the preview
+// warning agree on which brand colors are readable
+
+export const MIN_TEXT_CONTRAST = 4.5;
+
+const WHITE = "#FFFFFF";
+const DARK_TEXT = "#111827";
+
+function parseHex(color: string): [number, number, number] | undefined {
+  const hex = color.replace(/^#/, "");
+  if (!/^([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(hex)) return undefined;
+  const digits = hex.length <= 4
+    ? hex.slice(0, 3).split("").map(d => d + d)
+    : [hex.slice(0, 2), hex.slice(2, 4), hex.slice(4, 6)];
+  return digits.map(d => parseInt(d, 16)) as [number, number, number];
+}
+
+function relativeLuminance([r, g, b]: [number, number, number]): number {
+  const [lr, lg, lb] = [r, g, b].map(channel => {
+    const c = channel / 255;
+    return c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * lr + 0.7152 * lg + 0.0722 * lb;
+}
+
+export function contrastRatio(foreground: string, background: string): number {
+  const fg = parseHex(foreground);
+  const bg = parseHex(background);
+  if (!fg || !bg) return 1;
+  const [lighter, darker] = [relativeLuminance(fg), relativeLuminance(bg)].sort((a, b) => b - a);
+  return (lighter + 0.05) / (darker + 0.05);
+}
+
+// White or near-black, whichever reads better on the given background
+export function readableTextColor(background: string): string {
+  return contrastRatio(WHITE, background) >= contrastRatio(DARK_TEXT, background) ? WHITE : DARK_TEXT;
+}
+
+// The primary color is used both behind white text (header, buttons) and as
+// text on white (athlete names); both uses need to pass
+export function brandContrastWarnings(primaryColor: string): string[] {
+  const warnings: string[] = [];
+  const onPrimary = contrastRatio(WHITE, primaryColor);
+  if (onPrimary < MIN_TEXT_CONTRAST) {
+    warnings.push(
+      `White text on ${primaryColor} has a contrast ratio of ${onPrimary.toFixed(1)}:1 (needs ${MIN_TEXT_CONTRAST}:1). ` +
+      `The email header and buttons will use dark text instead.`
+    );
+  }
+  const asText = contrastRatio(primaryColor, WHITE);
+  if (asText < MIN_TEXT_CONTRAST) {
+    warnings.push(
+      `${primaryColor} text on a white background has a contrast ratio of ${asText.toFixed(1)}:1 (needs ${MIN_TEXT_CONTRAST}:1). ` +
+      `Athlete names will be shown in dark gray instead.`
+    );
+  }
+  return warnings;
+}
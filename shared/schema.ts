@@ -10,6 +10,7 @@ import {
   integer,
   boolean,
   real,
+  uniqueIndex,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -39,21 +40,47 @@ export const users = pgTable("users", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+export const newsletterLayouts = [
+  "weekly_recap",
+  "tournament_spotlight",
+  "senior_night",
+  "banquet",
+  "fundraiser",
+] as const;
+
 export const teams = pgTable("teams", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: varchar("name").notNull(),
   school: varchar("school").notNull(),
+  // Other names and codes results PDFs print for the school, e.g. "CENT"
+  schoolAliases: jsonb("school_aliases").$type<string[]>().notNull().default([]),
   logoUrl: varchar("logo_url"),
   primaryColor: varchar("primary_color").default("#3B82F6"),
   secondaryColor: varchar("secondary_color").default("#1E40AF"),
   brandVoice: text("brand_voice"),
   teamStoreUrl: varchar("team_store_url"),
+  defaultLayout: varchar("default_layout", { enum: newsletterLayouts }).notNull().default("weekly_recap"),
   primaryCoachId: varchar("primary_coach_id").references(() => users.id),
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+export const messageLengths = ["short", "medium", "long"] as const;
+
+// Per-team rules for AI-written messages, on top of the free-text brand voice.
+// Outputs are checked against these and regenerated once if they break one.
+export const promptSettings = pgTable("prompt_settings", {
+  teamId: varchar("team_id").primaryKey().references(() => teams.id),
+  messageLength: varchar("message_length", { enum: messageLengths }).notNull().default("medium"),
+  motto: varchar("motto"),
+  requiredPhrases: jsonb("required_phrases").$type<string[]>().notNull().default([]),
+  bannedPhrases: jsonb("banned_phrases").$type<string[]>().notNull().default([]),
+  // Athletes in these grades never have losses mentioned in their highlight
+  hideLossesForGrades: jsonb("hide_losses_for_grades").$type<string[]>().notNull().default([]),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 export const teamCoaches = pgTable("team_coaches", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   teamId: varchar("team_id").references(() => teams.id).notNull(),
@@ -62,6 +89,19 @@ export const teamCoaches = pgTable("team_coaches", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Pending invitations for additional coaches; the token is emailed as the accept link
+export const teamInvitations = pgTable("team_invitations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  teamId: varchar("team_id").references(() => teams.id).notNull(),
+  email: varchar("email").notNull(),
+  role: varchar("role", { enum: ["primary_coach", "super_user_coach"] }).notNull().default("super_user_coach"),
+  token: varchar("token").notNull().unique(),
+  invitedBy: varchar("invited_by").references(() => users.id).notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedAt: timestamp("accepted_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 export const athletes = pgTable("athletes", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   teamId: varchar("team_id").references(() => teams.id).notNull(),
@@ -73,6 +113,72 @@ export const athletes = pgTable("athletes", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+export const contactRelationships = ["athlete", "parent", "guardian", "grandparent", "booster"] as const;
+export const contactChannels = ["email", "sms"] as const;
+
+// A person who receives team communications. One contact can be linked to
+// several athletes (siblings), so a family is emailed once.
+export const contacts = pgTable(
+  "contacts",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    teamId: varchar("team_id").references(() => teams.id).notNull(),
+    name: varchar("name").notNull(),
+    relationship: varchar("relationship", { enum: contactRelationships }).notNull().default("parent"),
+    email: varchar("email"),
+    phone: varchar("phone"),
+    preferredChannel: varchar("preferred_channel", { enum: contactChannels }).notNull().default("email"),
+    emailOptIn: boolean("email_opt_in").notNull().default(true),
+    smsOptIn: boolean("sms_opt_in").notNull().default(false),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("IDX_contacts_team_email").on(table.teamId, table.email)],
+);
+
+export const athleteContacts = pgTable(
+  "athlete_contacts",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    athleteId: varchar("athlete_id").references(() => athletes.id, { onDelete: "cascade" }).notNull(),
+    contactId: varchar("contact_id").references(() => contacts.id, { onDelete: "cascade" }).notNull(),
+    isPrimary: boolean("is_primary").notNull().default(false),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("IDX_athlete_contacts_pair").on(table.athleteId, table.contactId)],
+);
+
+// Names results PDFs used for an athlete that the coach had to link by hand.
+// Stored normalized so the next upload links them automatically.
+export const athleteAliases = pgTable(
+  "athlete_aliases",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    athleteId: varchar("athlete_id").references(() => athletes.id, { onDelete: "cascade" }).notNull(),
+    alias: varchar("alias").notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("IDX_athlete_aliases_pair").on(table.athleteId, table.alias)],
+);
+
+export const suppressionReasons = ["unsubscribed", "bounced"] as const;
+
+// Addresses a team must never email again, whether or not a contact still
+// lists them. Checked both when recipients are gathered and at send time.
+export const emailSuppressions = pgTable(
+  "email_suppressions",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    teamId: varchar("team_id").references(() => teams.id).notNull(),
+    email: varchar("email").notNull(),
+    reason: varchar("reason", { enum: suppressionReasons }).notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("IDX_email_suppressions_team_email").on(table.teamId, table.email)],
+);
+
+// Legacy: bare addresses from before contacts existed. Rows are moved into
+// contacts on startup (see DatabaseStorage.migrateLegacyAthleteEmails).
 export const athleteEmails = pgTable("athlete_emails", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   athleteId: varchar("athlete_id").references(() => athletes.id).notNull(),
@@ -87,9 +193,27 @@ export const competitions = pgTable("competitions", {
   date: timestamp("date").notNull(),
   pdfUrl: varchar("pdf_url"),
   parsedData: jsonb("parsed_data"),
+  reviewedAt: timestamp("reviewed_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+export const importFields = ["name", "weight", "result", "opponent", "score", "placement"] as const;
+
+// A team's saved spreadsheet column mappings, keyed by name, so the sheet
+// they fill in every week imports without remapping
+export const importMappings = pgTable(
+  "import_mappings",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    teamId: varchar("team_id").references(() => teams.id).notNull(),
+    name: varchar("name").notNull(),
+    columns: jsonb("columns").$type<ImportColumns>().notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("IDX_import_mappings_team_name").on(table.teamId, table.name)],
+);
+
 export const athletePerformances = pgTable("athlete_performances", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   competitionId: varchar("competition_id").references(() => competitions.id).notNull(),
@@ -103,14 +227,43 @@ export const athletePerformances = pgTable("athlete_performances", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+export const matchResultTypes = [
+  "fall",
+  "tech_fall",
+  "major_decision",
+  "decision",
+  "forfeit",
+  "injury_default",
+  "disqualification",
+] as const;
+
+export const matches = pgTable("matches", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  competitionId: varchar("competition_id").references(() => competitions.id).notNull(),
+  athleteId: varchar("athlete_id").references(() => athletes.id).notNull(),
+  weightClass: varchar("weight_class"),
+  round: varchar("round"),
+  boutOrder: integer("bout_order").default(0),
+  opponentName: varchar("opponent_name").notNull(),
+  opponentSchool: varchar("opponent_school"),
+  outcome: varchar("outcome", { enum: ["win", "loss"] }).notNull(),
+  resultType: varchar("result_type", { enum: matchResultTypes }).notNull(),
+  score: varchar("score"),
+  fallTime: varchar("fall_time"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 export const newsletters = pgTable("newsletters", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   teamId: varchar("team_id").references(() => teams.id).notNull(),
   subject: varchar("subject").notNull(),
   teamMessage: text("team_message"),
   athleteMessages: jsonb("athlete_messages"),
+  layout: varchar("layout", { enum: newsletterLayouts }).notNull().default("weekly_recap"),
+  status: varchar("status", { enum: ["draft", "scheduled", "sending", "sent", "failed"] }).default("draft").notNull(),
   scheduledFor: timestamp("scheduled_for"),
   sentAt: timestamp("sent_at"),
+  sendError: text("send_error"),
   recipientCount: integer("recipient_count").default(0),
   createdBy: varchar("created_by").references(() => users.id).notNull(),
   createdAt: timestamp("created_at").defaultNow(),
@@ -128,6 +281,92 @@ export const messageHistory = pgTable("message_history", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Every AI draft, kept so coaches can reuse past messages and we can see how
+// much drafts get rewritten. finalText and newsletterId are filled in when a
+// newsletter using the draft is created; sentAt once that newsletter goes out.
+export const aiGenerations = pgTable(
+  "ai_generations",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    teamId: varchar("team_id").references(() => teams.id).notNull(),
+    kind: varchar("kind", { enum: ["athlete", "team"] }).notNull(),
+    athleteId: varchar("athlete_id").references(() => athletes.id),
+    competitionId: varchar("competition_id").references(() => competitions.id),
+    input: jsonb("input"),
+    promptVersion: varchar("prompt_version").notNull(),
+    provider: varchar("provider").notNull(),
+    fallback: boolean("fallback").default(false).notNull(),
+    output: text("output").notNull(),
+    violations: jsonb("violations").$type<string[]>().notNull().default([]),
+    finalText: text("final_text"),
+    newsletterId: varchar("newsletter_id").references(() => newsletters.id),
+    sentAt: timestamp("sent_at"),
+    createdBy: varchar("created_by").references(() => users.id).notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_ai_generations_athlete").on(table.athleteId),
+    index("IDX_ai_generations_newsletter").on(table.newsletterId),
+  ],
+);
+
+// Inline images referenced from the html as cid:<cid>, stored base64 so the
+// queue worker can attach them without touching the filesystem
+export interface EmailAttachment {
+  cid: string;
+  filename: string;
+  contentType: string;
+  content: string;
+}
+
+export const outboundEmails = pgTable("outbound_emails", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  teamId: varchar("team_id").references(() => teams.id).notNull(),
+  newsletterId: varchar("newsletter_id").references(() => newsletters.id),
+  type: varchar("type", { enum: ["newsletter", "custom"] }).notNull(),
+  subject: varchar("subject").notNull(),
+  html: text("html").notNull(),
+  text: text("text"),
+  attachments: jsonb("attachments").$type<EmailAttachment[]>(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const emailDeliveries = pgTable(
+  "email_deliveries",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    outboundEmailId: varchar("outbound_email_id").references(() => outboundEmails.id).notNull(),
+    recipient: varchar("recipient").notNull(),
+    status: varchar("status", { enum: ["queued", "sending", "delivered", "failed", "bounced", "suppressed"] }).default("queued").notNull(),
+    attempts: integer("attempts").default(0).notNull(),
+    nextAttemptAt: timestamp("next_attempt_at").defaultNow().notNull(),
+    lastError: text("last_error"),
+    deliveredAt: timestamp("delivered_at"),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [index("IDX_email_deliveries_queue").on(table.status, table.nextAttemptAt)],
+);
+
+export const adminAuditActions = [
+  "deactivate_team",
+  "activate_team",
+  "reassign_primary_coach",
+  "impersonate_start",
+  "impersonate_stop",
+  "impersonated_request",
+] as const;
+
+// Every system admin action, including requests made while impersonating a coach
+export const adminAuditLog = pgTable("admin_audit_log", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  adminId: varchar("admin_id").references(() => users.id).notNull(),
+  action: varchar("action", { enum: adminAuditActions }).notNull(),
+  targetUserId: varchar("target_user_id").references(() => users.id),
+  targetTeamId: varchar("target_team_id").references(() => teams.id),
+  details: jsonb("details"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Relations
 export const teamsRelations = relations(teams, ({ one, many }) => ({
   primaryCoach: one(users, {
@@ -135,6 +374,7 @@ export const teamsRelations = relations(teams, ({ one, many }) => ({
     references: [users.id],
   }),
   coaches: many(teamCoaches),
+  invitations: many(teamInvitations),
   athletes: many(athletes),
   competitions: many(competitions),
   newsletters: many(newsletters),
@@ -159,13 +399,53 @@ export const teamCoachesRelations = relations(teamCoaches, ({ one }) => ({
   }),
 }));
 
+export const teamInvitationsRelations = relations(teamInvitations, ({ one }) => ({
+  team: one(teams, {
+    fields: [teamInvitations.teamId],
+    references: [teams.id],
+  }),
+  inviter: one(users, {
+    fields: [teamInvitations.invitedBy],
+    references: [users.id],
+  }),
+}));
+
 export const athletesRelations = relations(athletes, ({ one, many }) => ({
   team: one(teams, {
     fields: [athletes.teamId],
     references: [teams.id],
   }),
   emails: many(athleteEmails),
+  contacts: many(athleteContacts),
+  aliases: many(athleteAliases),
   performances: many(athletePerformances),
+  matches: many(matches),
+}));
+
+export const contactsRelations = relations(contacts, ({ one, many }) => ({
+  team: one(teams, {
+    fields: [contacts.teamId],
+    references: [teams.id],
+  }),
+  athletes: many(athleteContacts),
+}));
+
+export const athleteContactsRelations = relations(athleteContacts, ({ one }) => ({
+  athlete: one(athletes, {
+    fields: [athleteContacts.athleteId],
+    references: [athletes.id],
+  }),
+  contact: one(contacts, {
+    fields: [athleteContacts.contactId],
+    references: [contacts.id],
+  }),
+}));
+
+export const athleteAliasesRelations = relations(athleteAliases, ({ one }) => ({
+  athlete: one(athletes, {
+    fields: [athleteAliases.athleteId],
+    references: [athletes.id],
+  }),
 }));
 
 export const athleteEmailsRelations = relations(athleteEmails, ({ one }) => ({
@@ -181,6 +461,7 @@ export const competitionsRelations = relations(competitions, ({ one, many }) =>
     references: [teams.id],
   }),
   performances: many(athletePerformances),
+  matches: many(matches),
 }));
 
 export const athletePerformancesRelations = relations(athletePerformances, ({ one }) => ({
@@ -194,6 +475,36 @@ export const athletePerformancesRelations = relations(athletePerformances, ({ on
   }),
 }));
 
+export const matchesRelations = relations(matches, ({ one }) => ({
+  competition: one(competitions, {
+    fields: [matches.competitionId],
+    references: [competitions.id],
+  }),
+  athlete: one(athletes, {
+    fields: [matches.athleteId],
+    references: [athletes.id],
+  }),
+}));
+
+export const outboundEmailsRelations = relations(outboundEmails, ({ one, many }) => ({
+  team: one(teams, {
+    fields: [outboundEmails.teamId],
+    references: [teams.id],
+  }),
+  newsletter: one(newsletters, {
+    fields: [outboundEmails.newsletterId],
+    references: [newsletters.id],
+  }),
+  deliveries: many(emailDeliveries),
+}));
+
+export const emailDeliveriesRelations = relations(emailDeliveries, ({ one }) => ({
+  outboundEmail: one(outboundEmails, {
+    fields: [emailDeliveries.outboundEmailId],
+    references: [outboundEmails.id],
+  }),
+}));
+
 export const newslettersRelations = relations(newsletters, ({ one }) => ({
   team: one(teams, {
     fields: [newsletters.teamId],
@@ -217,38 +528,135 @@ export const messageHistoryRelations = relations(messageHistory, ({ one }) => ({
 }));
 
 // Insert schemas
-export const insertTeamSchema = createInsertSchema(teams).omit({
+export const insertTeamSchema = createInsertSchema(teams, {
+  schoolAliases: z.array(z.string().trim().min(1).max(100)).max(20).default([]),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
+const phraseListSchema = z.array(z.string().trim().min(1).max(100)).max(20).default([]);
+
+export const insertPromptSettingsSchema = createInsertSchema(promptSettings, {
+  motto: z.string().trim().max(200).nullish(),
+  requiredPhrases: phraseListSchema,
+  bannedPhrases: phraseListSchema,
+  hideLossesForGrades: z.array(z.string().trim().min(1)).max(20).default([]),
+}).omit({
+  teamId: true,
+  updatedAt: true,
+});
+
+export const inviteCoachSchema = z.object({
+  email: z.string().email(),
+});
+
+export const updateTeamStatusSchema = z.object({
+  isActive: z.boolean(),
+});
+
+export const reassignPrimaryCoachSchema = z.object({
+  coachId: z.string().min(1),
+});
+
 export const insertAthleteSchema = createInsertSchema(athletes).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
-export const insertAthleteEmailSchema = createInsertSchema(athleteEmails).omit({
+export const insertContactSchema = createInsertSchema(contacts, {
+  name: z.string().trim().min(1, "Name is required"),
+  email: z.string().trim().toLowerCase().email("Please enter a valid email address").nullish(),
+  phone: z.string().trim().nullish(),
+}).omit({
   id: true,
+  teamId: true,
   createdAt: true,
+  updatedAt: true,
 });
 
+export const contactFormSchema = insertContactSchema
+  .extend({
+    athletes: z.array(z.object({
+      athleteId: z.string(),
+      isPrimary: z.boolean().default(false),
+    })).default([]),
+  })
+  .refine(contact => !!contact.email || !!contact.phone, {
+    message: "Add an email address or phone number",
+    path: ["email"],
+  });
+
 export const insertCompetitionSchema = createInsertSchema(competitions).omit({
   id: true,
   createdAt: true,
 });
 
+// Edits arrive as multipart form fields (alongside an optional replacement PDF), so the date is coerced
+export const updateCompetitionSchema = z.object({
+  name: z.string().trim().min(1, "Competition name is required").optional(),
+  date: z.coerce.date().optional(),
+});
+
 export const insertAthletePerformanceSchema = createInsertSchema(athletePerformances).omit({
   id: true,
   createdAt: true,
 });
 
+export const insertMatchSchema = createInsertSchema(matches).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const competitionReviewSchema = z.object({
+  performances: z.array(
+    insertAthletePerformanceSchema.omit({ competitionId: true }).extend({
+      parsedIndex: z.number().int().nonnegative().optional(),
+    })
+  ),
+});
+
 export const insertNewsletterSchema = createInsertSchema(newsletters).omit({
   id: true,
   createdAt: true,
 });
 
+export const newsletterPreviewSchema = insertNewsletterSchema.pick({
+  subject: true,
+  teamMessage: true,
+  athleteMessages: true,
+  layout: true,
+});
+
+// A coach's new draft; the server fills in the team, author and status
+export const createNewsletterSchema = newsletterPreviewSchema.extend({
+  layout: z.enum(newsletterLayouts).optional(),
+  teamMessageGenerationId: z.string().optional(),
+});
+
+export const scheduleNewsletterSchema = z.object({
+  scheduledFor: z.coerce.date().refine(date => date.getTime() > Date.now(), "Scheduled time must be in the future"),
+});
+
+// Spreadsheet header for each field; unmapped fields are left out
+export const importColumnsSchema = z
+  .object({
+    name: z.string().min(1, "Choose the column with wrestler names"),
+    weight: z.string().min(1, "Choose the column with weight classes"),
+    result: z.string().optional(),
+    opponent: z.string().optional(),
+    score: z.string().optional(),
+    placement: z.string().optional(),
+  })
+  .refine(columns => columns.result || columns.placement, "Choose a result or placement column");
+
+export const insertImportMappingSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  columns: importColumnsSchema,
+});
+
 // Types
 export const insertUserSchema = createInsertSchema(users, {
   email: z.string().email(),
@@ -262,14 +670,74 @@ export type UpsertUser = typeof users.$inferInsert;
 export type User = Omit<typeof users.$inferSelect, "password">;
 export type Team = typeof teams.$inferSelect;
 export type InsertTeam = z.infer<typeof insertTeamSchema>;
+export type PromptSettings = typeof promptSettings.$inferSelect;
+export type InsertPromptSettings = z.infer<typeof insertPromptSettingsSchema>;
+export type MessageLength = (typeof messageLengths)[number];
+export type AiGeneration = typeof aiGenerations.$inferSelect;
+export type InsertAiGeneration = typeof aiGenerations.$inferInsert;
+export type TeamCoach = typeof teamCoaches.$inferSelect;
+export type TeamRole = TeamCoach["role"];
+export type TeamInvitation = typeof teamInvitations.$inferSelect;
+export type InsertTeamInvitation = typeof teamInvitations.$inferInsert;
 export type Athlete = typeof athletes.$inferSelect;
 export type InsertAthlete = z.infer<typeof insertAthleteSchema>;
-export type AthleteEmail = typeof athleteEmails.$inferSelect;
-export type InsertAthleteEmail = z.infer<typeof insertAthleteEmailSchema>;
+export type Contact = typeof contacts.$inferSelect;
+export type InsertContact = z.infer<typeof insertContactSchema>;
+export type ContactForm = z.infer<typeof contactFormSchema>;
+export type ContactLink = ContactForm["athletes"][number];
+export type ContactWithAthletes = Contact & { athletes: ContactLink[] };
+export type AthleteAlias = typeof athleteAliases.$inferSelect;
+export type InsertAthleteAlias = typeof athleteAliases.$inferInsert;
 export type Competition = typeof competitions.$inferSelect;
+export type ImportField = typeof importFields[number];
+export type ImportColumns = z.infer<typeof importColumnsSchema>;
+export type ImportMapping = typeof importMappings.$inferSelect;
+export type InsertImportMapping = z.infer<typeof insertImportMappingSchema>;
 export type InsertCompetition = z.infer<typeof insertCompetitionSchema>;
 export type AthletePerformance = typeof athletePerformances.$inferSelect;
 export type InsertAthletePerformance = z.infer<typeof insertAthletePerformanceSchema>;
+export type CompetitionReview = z.infer<typeof competitionReviewSchema>;
+export type Match = typeof matches.$inferSelect;
+export type InsertMatch = z.infer<typeof insertMatchSchema>;
+export type MatchResultType = typeof matchResultTypes[number];
 export type Newsletter = typeof newsletters.$inferSelect;
 export type InsertNewsletter = z.infer<typeof insertNewsletterSchema>;
+export type NewsletterLayout = Newsletter["layout"];
+export type NewsletterPreview = z.infer<typeof newsletterPreviewSchema>;
 export type MessageHistory = typeof messageHistory.$inferSelect;
+export type OutboundEmail = typeof outboundEmails.$inferSelect;
+export type InsertOutboundEmail = typeof outboundEmails.$inferInsert;
+export type EmailDelivery = typeof emailDeliveries.$inferSelect;
+export type EmailDeliveryStatus = EmailDelivery["status"];
+export type EmailSuppression = typeof emailSuppressions.$inferSelect;
+export type SuppressionReason = EmailSuppression["reason"];
+export type AdminAuditEntry = typeof adminAuditLog.$inferSelect;
+export type InsertAdminAuditEntry = typeof adminAuditLog.$inferInsert;
+
+// Everything the athlete profile page shows, assembled on the server
+export interface AthleteProfile {
+  athlete: Athlete;
+  seasonStats: {
+    wins: number;
+    losses: number;
+    pins: number;
+    takedowns: number;
+    // Share of wins that came by fall
+    pinPercentage: number;
+  };
+  // Oldest first; the current roster weight class is always last
+  weightClasses: { weightClass: string; since: string | null }[];
+  // Newest competition first
+  timeline: {
+    competition: Competition;
+    performance: AthletePerformance | null;
+    matches: Match[];
+  }[];
+  highlights: {
+    newsletterId: string;
+    subject: string;
+    sentAt: string | null;
+    message: string;
+  }[];
+  contacts: (Contact & { isPrimary: boolean })[];
+}